@@ -3,6 +3,9 @@ import { AuthProvider, useAuth } from './context/AuthContext';
 import AccountSettings from './components/AccountSettings';
 import Pantry from './components/Pantry';
 import Recipes from './components/Recipes';
+import ShoppingList from './components/ShoppingList';
+import MealPlanner from './components/MealPlanner';
+import CookingHistory from './components/CookingHistory';
 import Login from './components/Login';
 import Signup from './components/Signup';
 import ForgotPassword from './components/ForgotPassword';
@@ -67,6 +70,30 @@ function AppContent() {
                   </ProtectedRoute>
                 }
               />
+              <Route
+                path="/shopping-list"
+                element={
+                  <ProtectedRoute>
+                    <ShoppingList userId={user?.id || ''} />
+                  </ProtectedRoute>
+                }
+              />
+              <Route
+                path="/meal-plan"
+                element={
+                  <ProtectedRoute>
+                    <MealPlanner userId={user?.id || ''} />
+                  </ProtectedRoute>
+                }
+              />
+              <Route
+                path="/history"
+                element={
+                  <ProtectedRoute>
+                    <CookingHistory userId={user?.id || ''} />
+                  </ProtectedRoute>
+                }
+              />
             </Routes>
           </div>
         </div>
@@ -1,6 +1,22 @@
 import { useState, useEffect, useRef } from 'react';
 import { useAuth } from '../context/AuthContext';
-import { updateUserPreferences, updateUserProfile, uploadProfilePicture } from '../services/api';
+import {
+  updateUserPreferences,
+  updateUserProfile,
+  uploadProfilePicture,
+  getAllergens,
+  getCustomDiets,
+  createCustomDiet,
+  updateCustomDiet,
+  deleteCustomDiet,
+  updateNutritionGoals,
+  UnitSystem,
+  AllergenGroup,
+  CustomDiet,
+  CustomDietInput,
+  GoalTargets,
+  NutritionGoals,
+} from '../services/api';
 
 const dietaryOptions = [
   'vegetarian',
@@ -12,20 +28,37 @@ const dietaryOptions = [
   'low-carb',
   'nut-free',
   'pescatarian',
+  'halal',
+  'kosher',
 ];
 
-const commonAllergies = [
-  'peanuts',
-  'tree nuts',
-  'dairy',
-  'eggs',
-  'soy',
-  'wheat',
-  'fish',
-  'shellfish',
-  'sesame',
+const unitSystemOptions: { value: UnitSystem | null; label: string; description: string }[] = [
+  { value: null, label: 'As written', description: 'Show amounts in the units each recipe uses' },
+  { value: 'metric', label: 'Metric', description: 'g, kg, ml, l' },
+  { value: 'imperial', label: 'Imperial', description: 'oz, lb, tsp, tbsp, cups' },
 ];
 
+const goalFields: { key: keyof GoalTargets; label: string; unit: string }[] = [
+  { key: 'kcal', label: 'Calories', unit: 'kcal' },
+  { key: 'minProtein', label: 'Minimum protein', unit: 'g' },
+  { key: 'maxSodium', label: 'Maximum sodium', unit: 'mg' },
+];
+
+const goalPeriods: { key: keyof NutritionGoals; label: string }[] = [
+  { key: 'daily', label: 'Per day' },
+  { key: 'perMeal', label: 'Per meal' },
+];
+
+const emptyGoals: NutritionGoals = {
+  daily: { kcal: null, minProtein: null, maxSodium: null },
+  perMeal: { kcal: null, minProtein: null, maxSodium: null },
+};
+
+const emptyDietForm = { name: '', forbiddenIngredients: '', forbiddenCategories: '', requiredTags: '' };
+
+// "a, b , c" -> ['a', 'b', 'c']
+const splitList = (value: string) => value.split(',').map(item => item.trim()).filter(Boolean);
+
 const AccountSettings = () => {
   const { user, refreshUser } = useAuth();
   const [name, setName] = useState('');
@@ -35,10 +68,30 @@ const AccountSettings = () => {
   const [dietaryPreferences, setDietaryPreferences] = useState<string[]>([]);
   const [allergies, setAllergies] = useState<string[]>([]);
   const [customAllergy, setCustomAllergy] = useState('');
+  const [allergenGroups, setAllergenGroups] = useState<AllergenGroup[]>([]);
+  const [unitSystem, setUnitSystem] = useState<UnitSystem | null>(null);
+  const [nutritionGoals, setNutritionGoals] = useState<NutritionGoals>(emptyGoals);
+  const [customDiets, setCustomDiets] = useState<CustomDiet[]>([]);
+  const [dietForm, setDietForm] = useState(emptyDietForm);
+  // Id of the diet being edited; null while creating a new one
+  const [editingDietId, setEditingDietId] = useState<string | null>(null);
   const [saving, setSaving] = useState(false);
   const [uploading, setUploading] = useState(false);
   const fileInputRef = useRef<HTMLInputElement>(null);
 
+  useEffect(() => {
+    getAllergens()
+      .then(data => setAllergenGroups(data.allergens || []))
+      .catch(error => console.error('Failed to load allergen groups:', error));
+  }, []);
+
+  useEffect(() => {
+    if (!user?.id) return;
+    getCustomDiets(user.id)
+      .then(data => setCustomDiets(data.diets || []))
+      .catch(error => console.error('Failed to load custom diets:', error));
+  }, [user?.id]);
+
   useEffect(() => {
     if (user) {
       setName(user.name || '');
@@ -47,6 +100,8 @@ const AccountSettings = () => {
       setProfilePicture(user.profilePicture || null);
       setDietaryPreferences(user.dietaryPreferences || []);
       setAllergies(user.allergies || []);
+      setUnitSystem(user.unitSystem || null);
+      setNutritionGoals(user.nutritionGoals || emptyGoals);
     }
   }, [user]);
 
@@ -118,9 +173,16 @@ const AccountSettings = () => {
     );
   };
 
+  // Typed allergies that name a group ("nuts", "dairy") select the group instead
+  const toAllergenId = (allergy: string) => {
+    const group = allergenGroups.find(g => g.id === allergy || g.aliases.includes(allergy));
+    return group ? group.id : allergy;
+  };
+
   const addCustomAllergy = () => {
-    if (customAllergy.trim() && !allergies.includes(customAllergy.trim().toLowerCase())) {
-      setAllergies(prev => [...prev, customAllergy.trim().toLowerCase()]);
+    const allergy = toAllergenId(customAllergy.trim().toLowerCase());
+    if (allergy && !allergies.includes(allergy)) {
+      setAllergies(prev => [...prev, allergy]);
       setCustomAllergy('');
     }
   };
@@ -129,6 +191,74 @@ const AccountSettings = () => {
     setAllergies(prev => prev.filter(a => a !== allergy));
   };
 
+  // Allergies to single ingredients rather than a whole group
+  const customAllergies = allergies.filter(allergy => !allergenGroups.some(group => group.id === allergy));
+
+  const setGoal = (period: keyof NutritionGoals, key: keyof GoalTargets, value: string) => {
+    setNutritionGoals(prev => ({
+      ...prev,
+      [period]: { ...prev[period], [key]: value === '' ? null : Number(value) },
+    }));
+  };
+
+  // Custom diets are saved straight away rather than with the Save button
+  const saveDiet = async (dietId: string | null, diet: CustomDietInput) => {
+    if (!user?.id) return;
+    try {
+      if (dietId) {
+        const data = await updateCustomDiet(user.id, dietId, diet);
+        setCustomDiets(prev => prev.map(d => (d.id === dietId ? data.diet : d)));
+      } else {
+        const data = await createCustomDiet(user.id, diet);
+        setCustomDiets(prev => [...prev, data.diet].sort((a, b) => a.name.localeCompare(b.name)));
+      }
+      return true;
+    } catch (error: any) {
+      console.error('Failed to save custom diet:', error);
+      alert(error?.response?.data?.error || 'Failed to save diet. Please try again.');
+      return false;
+    }
+  };
+
+  const handleDietSubmit = async () => {
+    const saved = await saveDiet(editingDietId, {
+      name: dietForm.name.trim(),
+      forbiddenIngredients: splitList(dietForm.forbiddenIngredients),
+      forbiddenCategories: splitList(dietForm.forbiddenCategories),
+      requiredTags: splitList(dietForm.requiredTags),
+      active: customDiets.find(d => d.id === editingDietId)?.active ?? true,
+    });
+    if (saved) {
+      setDietForm(emptyDietForm);
+      setEditingDietId(null);
+    }
+  };
+
+  const editDiet = (diet: CustomDiet) => {
+    setEditingDietId(diet.id);
+    setDietForm({
+      name: diet.name,
+      forbiddenIngredients: diet.forbiddenIngredients.join(', '),
+      forbiddenCategories: diet.forbiddenCategories.join(', '),
+      requiredTags: diet.requiredTags.join(', '),
+    });
+  };
+
+  const removeDiet = async (diet: CustomDiet) => {
+    if (!user?.id || !confirm(`Delete the "${diet.name}" diet?`)) return;
+    try {
+      await deleteCustomDiet(user.id, diet.id);
+      setCustomDiets(prev => prev.filter(d => d.id !== diet.id));
+      if (editingDietId === diet.id) {
+        setEditingDietId(null);
+        setDietForm(emptyDietForm);
+      }
+    } catch (error) {
+      console.error('Failed to delete custom diet:', error);
+      alert('Failed to delete diet. Please try again.');
+    }
+  };
+
   const handleSave = async () => {
     setSaving(true);
     try {
@@ -136,12 +266,13 @@ const AccountSettings = () => {
         name,
         age: age === '' ? undefined : Number(age),
       });
-      await updateUserPreferences(user?.id || '', dietaryPreferences, allergies);
+      await updateUserPreferences(user?.id || '', dietaryPreferences, allergies, unitSystem);
+      await updateNutritionGoals(user?.id || '', nutritionGoals);
       await refreshUser();
       alert('Settings saved successfully!');
-    } catch (error) {
+    } catch (error: any) {
       console.error('Failed to save settings:', error);
-      alert('Failed to save settings. Please try again.');
+      alert(error?.response?.data?.error || 'Failed to save settings. Please try again.');
     } finally {
       setSaving(false);
     }
@@ -268,25 +399,129 @@ const AccountSettings = () => {
           </div>
         </section>
 
+        {/* Custom Diets */}
+        <section className="mb-8">
+          <h2 className="text-2xl font-semibold text-gray-700 mb-4">Custom Diets</h2>
+          <p className="text-gray-600 mb-4">
+            Build your own diet, such as keto, low-FODMAP or a list from your doctor. Recipes using a forbidden
+            ingredient or category, or missing a required tag, are hidden while the diet is on. Changes here are
+            saved immediately.
+          </p>
+
+          {customDiets.length > 0 && (
+            <div className="space-y-2 mb-4">
+              {customDiets.map(diet => (
+                <div key={diet.id} className="flex items-start justify-between gap-4 p-3 border border-gray-200 rounded-lg">
+                  <div className="text-sm">
+                    <div className="font-semibold text-gray-800">{diet.name}</div>
+                    {diet.forbiddenIngredients.length > 0 && (
+                      <div className="text-gray-600">No: {diet.forbiddenIngredients.join(', ')}</div>
+                    )}
+                    {diet.forbiddenCategories.length > 0 && (
+                      <div className="text-gray-600">No categories: {diet.forbiddenCategories.join(', ')}</div>
+                    )}
+                    {diet.requiredTags.length > 0 && (
+                      <div className="text-gray-600">Must be tagged: {diet.requiredTags.join(', ')}</div>
+                    )}
+                  </div>
+                  <div className="flex items-center gap-3 shrink-0">
+                    <label className="flex items-center gap-1 text-sm text-gray-700 cursor-pointer">
+                      <input
+                        type="checkbox"
+                        checked={diet.active}
+                        onChange={(e) => {
+                          const { id, ...rest } = diet;
+                          saveDiet(id, { ...rest, active: e.target.checked });
+                        }}
+                        className="w-4 h-4 text-primary-600 rounded focus:ring-primary-500"
+                      />
+                      On
+                    </label>
+                    <button onClick={() => editDiet(diet)} className="text-sm text-primary-600 hover:text-primary-800">
+                      Edit
+                    </button>
+                    <button onClick={() => removeDiet(diet)} className="text-sm text-red-600 hover:text-red-800">
+                      Delete
+                    </button>
+                  </div>
+                </div>
+              ))}
+            </div>
+          )}
+
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-3 p-4 bg-gray-50 rounded-lg">
+            <input
+              type="text"
+              value={dietForm.name}
+              onChange={(e) => setDietForm({ ...dietForm, name: e.target.value })}
+              placeholder="Diet name, e.g. Low-FODMAP"
+              className="px-4 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-primary-500"
+            />
+            <input
+              type="text"
+              value={dietForm.forbiddenIngredients}
+              onChange={(e) => setDietForm({ ...dietForm, forbiddenIngredients: e.target.value })}
+              placeholder="Forbidden ingredients: onion, garlic"
+              className="px-4 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-primary-500"
+            />
+            <input
+              type="text"
+              value={dietForm.forbiddenCategories}
+              onChange={(e) => setDietForm({ ...dietForm, forbiddenCategories: e.target.value })}
+              placeholder="Forbidden categories: grain, fruit"
+              className="px-4 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-primary-500"
+            />
+            <input
+              type="text"
+              value={dietForm.requiredTags}
+              onChange={(e) => setDietForm({ ...dietForm, requiredTags: e.target.value })}
+              placeholder="Required tags: low-carb"
+              className="px-4 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-primary-500"
+            />
+            <div className="md:col-span-2 flex gap-2">
+              <button
+                onClick={handleDietSubmit}
+                disabled={!dietForm.name.trim()}
+                className="px-4 py-2 bg-primary-600 text-white rounded-lg hover:bg-primary-700 transition-colors disabled:opacity-50"
+              >
+                {editingDietId ? 'Update Diet' : 'Add Diet'}
+              </button>
+              {editingDietId && (
+                <button
+                  onClick={() => {
+                    setEditingDietId(null);
+                    setDietForm(emptyDietForm);
+                  }}
+                  className="px-4 py-2 bg-gray-200 text-gray-700 rounded-lg hover:bg-gray-300 transition-colors"
+                >
+                  Cancel
+                </button>
+              )}
+            </div>
+          </div>
+        </section>
+
         {/* Allergies */}
         <section className="mb-8">
           <h2 className="text-2xl font-semibold text-gray-700 mb-4">Allergies</h2>
           <p className="text-gray-600 mb-4">
-            Select any allergies to filter out recipes containing those ingredients.
+            Pick allergen groups to hide recipes with any ingredient in the group, including ones that may
+            contain it (pesto may contain pine nuts). Add single ingredients below.
           </p>
 
           <div className="grid grid-cols-2 md:grid-cols-3 gap-3 mb-4">
-            {commonAllergies.map(allergy => (
+            {allergenGroups.map(group => (
               <button
-                key={allergy}
-                onClick={() => toggleAllergy(allergy)}
+                key={group.id}
+                onClick={() => toggleAllergy(group.id)}
+                title={group.ingredients.slice(0, 12).join(', ')}
                 className={`px-4 py-3 rounded-lg border-2 transition-all ${
-                  allergies.includes(allergy)
+                  allergies.includes(group.id)
                     ? 'bg-red-600 text-white border-red-600'
                     : 'bg-white text-gray-700 border-gray-300 hover:border-red-400'
                 }`}
               >
-                {allergy.charAt(0).toUpperCase() + allergy.slice(1)}
+                {group.name}
               </button>
             ))}
           </div>
@@ -308,9 +543,9 @@ const AccountSettings = () => {
             </button>
           </div>
 
-          {allergies.length > 0 && (
+          {customAllergies.length > 0 && (
             <div className="flex flex-wrap gap-2">
-              {allergies.map(allergy => (
+              {customAllergies.map(allergy => (
                 <span
                   key={allergy}
                   className="px-3 py-1 bg-red-100 text-red-800 rounded-full flex items-center gap-2"
@@ -328,6 +563,65 @@ const AccountSettings = () => {
           )}
         </section>
 
+        {/* Nutrition Goals */}
+        <section className="mb-8">
+          <h2 className="text-2xl font-semibold text-gray-700 mb-4">Nutrition Goals</h2>
+          <p className="text-gray-600 mb-4">
+            Set targets for the whole day or for each meal. Leave a box empty for no target. Recipe suggestions
+            can be ranked or filtered by what is left for today, counting meals you've marked as cooked.
+          </p>
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+            {goalPeriods.map(period => (
+              <div key={period.key} className="border border-gray-200 rounded-lg p-4">
+                <h3 className="font-semibold text-gray-700 mb-3">{period.label}</h3>
+                <div className="space-y-3">
+                  {goalFields.map(field => (
+                    <div key={field.key}>
+                      <label className="block text-sm font-medium text-gray-700 mb-1">
+                        {field.label} ({field.unit})
+                      </label>
+                      <input
+                        type="number"
+                        min="1"
+                        value={nutritionGoals[period.key][field.key] ?? ''}
+                        onChange={(e) => setGoal(period.key, field.key, e.target.value)}
+                        className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-primary-500"
+                        placeholder="No target"
+                      />
+                    </div>
+                  ))}
+                </div>
+              </div>
+            ))}
+          </div>
+        </section>
+
+        {/* Units */}
+        <section className="mb-8">
+          <h2 className="text-2xl font-semibold text-gray-700 mb-4">Units</h2>
+          <p className="text-gray-600 mb-4">
+            Choose how ingredient amounts are shown in recipes and your pantry.
+          </p>
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-3">
+            {unitSystemOptions.map(option => (
+              <button
+                key={option.label}
+                onClick={() => setUnitSystem(option.value)}
+                className={`px-4 py-3 rounded-lg border-2 text-left transition-all ${
+                  unitSystem === option.value
+                    ? 'bg-primary-600 text-white border-primary-600'
+                    : 'bg-white text-gray-700 border-gray-300 hover:border-primary-400'
+                }`}
+              >
+                <div className="font-semibold">{option.label}</div>
+                <div className={`text-sm ${unitSystem === option.value ? 'text-primary-100' : 'text-gray-500'}`}>
+                  {option.description}
+                </div>
+              </button>
+            ))}
+          </div>
+        </section>
+
         {/* Save Button */}
         <button
           onClick={handleSave}
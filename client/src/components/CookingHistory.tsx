@@ -0,0 +1,134 @@
+import { useState, useEffect } from 'react';
+import { Link } from 'react-router-dom';
+import { getCookingHistory, getCookingInsights, CookedEntry } from '../services/api';
+
+interface CookingHistoryProps {
+  userId: string;
+}
+
+interface MostCookedRecipe {
+  id: string;
+  name: string;
+  imageUrl: string | null;
+  timesCooked: number;
+  lastCookedAt: string;
+}
+
+interface LikedRecipe {
+  id: string;
+  name: string;
+  imageUrl: string | null;
+  description: string;
+}
+
+const formatDate = (value: string) =>
+  new Date(value).toLocaleDateString(undefined, { weekday: 'short', day: 'numeric', month: 'short', year: 'numeric' });
+
+const CookingHistory = ({ userId }: CookingHistoryProps) => {
+  const [history, setHistory] = useState<CookedEntry[]>([]);
+  const [mostCooked, setMostCooked] = useState<MostCookedRecipe[]>([]);
+  const [likedNeverCooked, setLikedNeverCooked] = useState<LikedRecipe[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    loadData();
+  }, [userId]);
+
+  const loadData = async () => {
+    setLoading(true);
+    try {
+      const [historyData, insightsData] = await Promise.all([
+        getCookingHistory(userId),
+        getCookingInsights(userId),
+      ]);
+      setHistory(historyData.history);
+      setMostCooked(insightsData.mostCooked);
+      setLikedNeverCooked(insightsData.likedNeverCooked);
+    } catch (error) {
+      console.error('Failed to load cooking history:', error);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  if (loading) {
+    return (
+      <div className="flex justify-center items-center h-64">
+        <div className="text-xl text-gray-600">Loading...</div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="max-w-6xl mx-auto">
+      <h1 className="text-3xl font-bold text-gray-800 mb-8">Cooking History</h1>
+
+      <div className="grid grid-cols-1 lg:grid-cols-2 gap-8 mb-8">
+        {/* Most Cooked */}
+        <div className="bg-white rounded-lg shadow-lg p-6">
+          <h2 className="text-2xl font-semibold text-gray-700 mb-4">Most Cooked</h2>
+          {mostCooked.length === 0 ? (
+            <p className="text-gray-500">Nothing cooked yet. Use "I cooked this" on a recipe to start your history.</p>
+          ) : (
+            <ol className="space-y-2">
+              {mostCooked.map((recipe, idx) => (
+                <li key={recipe.id} className="flex items-center gap-3">
+                  <span className="w-6 text-right font-bold text-primary-600">{idx + 1}.</span>
+                  <span className="flex-1 text-gray-800">{recipe.name}</span>
+                  <span className="px-2 py-0.5 bg-primary-100 text-primary-800 rounded-full text-sm">
+                    {recipe.timesCooked}×
+                  </span>
+                  <span className="text-xs text-gray-500">last {formatDate(recipe.lastCookedAt)}</span>
+                </li>
+              ))}
+            </ol>
+          )}
+        </div>
+
+        {/* Liked But Never Cooked */}
+        <div className="bg-white rounded-lg shadow-lg p-6">
+          <h2 className="text-2xl font-semibold text-gray-700 mb-4">Liked, Never Cooked</h2>
+          {likedNeverCooked.length === 0 ? (
+            <p className="text-gray-500">You've cooked everything you liked.</p>
+          ) : (
+            <ul className="space-y-3">
+              {likedNeverCooked.map(recipe => (
+                <li key={recipe.id}>
+                  <div className="text-gray-800 font-medium">{recipe.name}</div>
+                  {recipe.description && (
+                    <div className="text-sm text-gray-500 line-clamp-1">{recipe.description}</div>
+                  )}
+                </li>
+              ))}
+            </ul>
+          )}
+          <Link to="/recipes" className="inline-block mt-4 text-sm text-primary-600 hover:underline">
+            Find something to cook →
+          </Link>
+        </div>
+      </div>
+
+      {/* Timeline */}
+      <div className="bg-white rounded-lg shadow-lg p-6">
+        <h2 className="text-2xl font-semibold text-gray-700 mb-4">Recently Cooked ({history.length})</h2>
+        {history.length === 0 ? (
+          <p className="text-gray-500">No meals recorded yet.</p>
+        ) : (
+          <ul className="divide-y divide-gray-100">
+            {history.map(entry => (
+              <li key={entry.cookId} className="flex items-center gap-4 py-3">
+                <span className="w-40 text-sm text-gray-500">{formatDate(entry.cookedAt)}</span>
+                <span className="flex-1 text-gray-800">{entry.recipe.name}</span>
+                <span className="text-sm text-gray-500">
+                  {entry.servings} serving{entry.servings === 1 ? '' : 's'}
+                </span>
+              </li>
+            ))}
+          </ul>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default CookingHistory;
@@ -0,0 +1,361 @@
+import { useState, useEffect } from 'react';
+import {
+  getMealPlan,
+  addPlannedMeal,
+  updatePlannedMeal,
+  removePlannedMeal,
+  clearMealPlan,
+  getMealPlanDemand,
+  addMealPlanToShoppingList,
+  getAllRecipes,
+  MealPlan,
+  MealSlot,
+  IngredientDemand,
+  CombinedQuantity,
+} from '../services/api';
+
+interface MealPlannerProps {
+  userId: string;
+}
+
+interface RecipeOption {
+  id: string;
+  name: string;
+  servings: number;
+}
+
+const mealSlots: { value: MealSlot; label: string }[] = [
+  { value: 'breakfast', label: 'Breakfast' },
+  { value: 'lunch', label: 'Lunch' },
+  { value: 'dinner', label: 'Dinner' },
+  { value: 'snack', label: 'Snack' },
+];
+
+// Shift a YYYY-MM-DD date by a number of days
+const addDays = (date: string, days: number) => {
+  const shifted = new Date(`${date}T00:00:00Z`);
+  shifted.setUTCDate(shifted.getUTCDate() + days);
+  return shifted.toISOString().slice(0, 10);
+};
+
+const formatDay = (date: string) =>
+  new Date(`${date}T00:00:00Z`).toLocaleDateString(undefined, { weekday: 'short', day: 'numeric', month: 'short', timeZone: 'UTC' });
+
+const formatQuantity = (value: CombinedQuantity | null) => {
+  if (!value) return '—';
+  const main = value.quantity === null
+    ? value.unit || 'some'
+    : value.unit ? `${value.quantity} ${value.unit}` : `${value.quantity}`;
+  const extra = (value.extra || []).map(entry => (entry.unit ? `${entry.quantity} ${entry.unit}` : `${entry.quantity}`));
+  return [main, ...extra].join(' plus ');
+};
+
+// Gaps of unknown size still show what is known to be missing
+const formatShortfall = (shortfall: NonNullable<IngredientDemand['shortfall']>) => {
+  if (!shortfall.unknown) return formatQuantity(shortfall);
+  return shortfall.quantity === null ? 'Unknown, check pantry' : `${formatQuantity(shortfall)} (check pantry)`;
+};
+
+const MealPlanner = ({ userId }: MealPlannerProps) => {
+  const [plan, setPlan] = useState<MealPlan | null>(null);
+  const [weekStart, setWeekStart] = useState<string | undefined>(undefined);
+  const [recipes, setRecipes] = useState<RecipeOption[]>([]);
+  const [demand, setDemand] = useState<IngredientDemand[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const [addingTo, setAddingTo] = useState<{ day: string; slot: MealSlot } | null>(null);
+  const [newRecipeId, setNewRecipeId] = useState('');
+  const [newServings, setNewServings] = useState('');
+
+  useEffect(() => {
+    getAllRecipes()
+      .then(data => setRecipes(data.recipes || []))
+      .catch(error => console.error('Failed to load recipes:', error));
+  }, []);
+
+  useEffect(() => {
+    loadPlan();
+  }, [userId, weekStart]);
+
+  // Recalculate what the week needs whenever the plan changes
+  useEffect(() => {
+    if (!plan) return;
+    getMealPlanDemand(userId, plan.weekStart)
+      .then(data => setDemand(data.ingredients || []))
+      .catch(error => console.error('Failed to load ingredient demand:', error));
+  }, [plan]);
+
+  const loadPlan = async () => {
+    setLoading(true);
+    try {
+      const data = await getMealPlan(userId, weekStart);
+      setPlan(data.plan);
+    } catch (error) {
+      console.error('Failed to load meal plan:', error);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  // Run a plan update and show the plan the server sends back
+  const update = async (action: () => Promise<{ plan: MealPlan }>, failureMessage: string) => {
+    setSaving(true);
+    try {
+      const data = await action();
+      setPlan(data.plan);
+    } catch (error: any) {
+      console.error(failureMessage, error);
+      alert(error?.response?.data?.error || failureMessage);
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleAddMeal = async () => {
+    if (!addingTo || !newRecipeId) return;
+    await update(
+      () => addPlannedMeal(userId, {
+        ...addingTo,
+        recipeId: newRecipeId,
+        servings: newServings.trim() === '' ? undefined : Number(newServings),
+      }),
+      'Failed to add meal to plan'
+    );
+    setAddingTo(null);
+    setNewRecipeId('');
+    setNewServings('');
+  };
+
+  const handleClearWeek = () => {
+    if (!plan || !confirm('Remove every meal planned for this week?')) return;
+    update(() => clearMealPlan(userId, plan.weekStart), 'Failed to clear meal plan');
+  };
+
+  const handleAddGapsToList = async () => {
+    if (!plan) return;
+    setSaving(true);
+    try {
+      const data = await addMealPlanToShoppingList(userId, plan.weekStart);
+      alert(data.added.length > 0
+        ? `Added ${data.added.length} item(s) to your shopping list`
+        : 'Your pantry already covers this week');
+    } catch (error) {
+      console.error('Failed to add to shopping list:', error);
+      alert('Failed to add items to shopping list');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  if (loading || !plan) {
+    return (
+      <div className="flex justify-center items-center h-64">
+        <div className="text-xl text-gray-600">Loading...</div>
+      </div>
+    );
+  }
+
+  // Only gaps of known size go on the shopping list; unknown ones stay in the table
+  const gaps = demand.filter(item => item.shortfall !== null && item.shortfall.quantity !== null);
+
+  return (
+    <div className="max-w-7xl mx-auto">
+      <div className="flex flex-wrap justify-between items-center gap-4 mb-8">
+        <h1 className="text-3xl font-bold text-gray-800">Meal Plan</h1>
+        <div className="flex items-center gap-2">
+          <button
+            onClick={() => setWeekStart(addDays(plan.weekStart, -7))}
+            className="px-3 py-2 bg-white text-gray-700 rounded-lg shadow hover:bg-primary-50"
+            title="Previous week"
+          >
+            ←
+          </button>
+          <span className="px-3 text-gray-700 font-medium">
+            {formatDay(plan.days[0])} – {formatDay(plan.days[plan.days.length - 1])}
+          </span>
+          <button
+            onClick={() => setWeekStart(addDays(plan.weekStart, 7))}
+            className="px-3 py-2 bg-white text-gray-700 rounded-lg shadow hover:bg-primary-50"
+            title="Next week"
+          >
+            →
+          </button>
+          <button
+            onClick={() => setWeekStart(undefined)}
+            className="px-3 py-2 bg-white text-gray-700 rounded-lg shadow hover:bg-primary-50"
+          >
+            This week
+          </button>
+        </div>
+      </div>
+
+      {/* Calendar */}
+      <div className="bg-white rounded-lg shadow-lg p-4 mb-8 overflow-x-auto">
+        <div className="grid grid-cols-[6rem_repeat(7,minmax(8rem,1fr))] gap-2 min-w-[64rem]">
+          <div />
+          {plan.days.map(day => (
+            <div key={day} className="text-center font-semibold text-gray-700 pb-2 border-b">
+              {formatDay(day)}
+            </div>
+          ))}
+          {mealSlots.map(slot => (
+            <div key={slot.value} className="contents">
+              <div className="text-sm font-semibold text-gray-500 pt-2">{slot.label}</div>
+              {plan.days.map(day => {
+                const meals = plan.meals.filter(meal => meal.day === day && meal.slot === slot.value);
+                const isAdding = addingTo?.day === day && addingTo?.slot === slot.value;
+                return (
+                  <div key={day} className="min-h-[4rem] p-1 rounded bg-gray-50 space-y-1">
+                    {meals.map(meal => (
+                      <div key={meal.id} className="p-2 bg-primary-100 text-primary-900 rounded text-sm">
+                        <div className="flex justify-between gap-1">
+                          <span className="font-medium line-clamp-2">{meal.recipe.name}</span>
+                          <button
+                            onClick={() => update(() => removePlannedMeal(userId, meal.id), 'Failed to remove meal')}
+                            disabled={saving}
+                            className="text-primary-700 hover:text-red-600"
+                            title="Remove"
+                          >
+                            ×
+                          </button>
+                        </div>
+                        <div className="flex items-center gap-1 mt-1 text-xs">
+                          <button
+                            onClick={() => update(
+                              () => updatePlannedMeal(userId, meal.id, { servings: meal.servings - 1 }),
+                              'Failed to update meal'
+                            )}
+                            disabled={saving || meal.servings <= 1}
+                            className="w-5 h-5 rounded bg-white disabled:opacity-50"
+                          >
+                            −
+                          </button>
+                          <span>{meal.servings} serving{meal.servings === 1 ? '' : 's'}</span>
+                          <button
+                            onClick={() => update(
+                              () => updatePlannedMeal(userId, meal.id, { servings: meal.servings + 1 }),
+                              'Failed to update meal'
+                            )}
+                            disabled={saving}
+                            className="w-5 h-5 rounded bg-white disabled:opacity-50"
+                          >
+                            +
+                          </button>
+                        </div>
+                      </div>
+                    ))}
+                    {isAdding ? (
+                      <div className="space-y-1">
+                        <select
+                          value={newRecipeId}
+                          onChange={(e) => setNewRecipeId(e.target.value)}
+                          className="w-full text-sm px-1 py-1 border border-gray-300 rounded focus:outline-none focus:ring-2 focus:ring-primary-500"
+                        >
+                          <option value="">Choose recipe...</option>
+                          {recipes.map(recipe => (
+                            <option key={recipe.id} value={recipe.id}>{recipe.name}</option>
+                          ))}
+                        </select>
+                        <input
+                          type="number"
+                          min="1"
+                          value={newServings}
+                          onChange={(e) => setNewServings(e.target.value)}
+                          placeholder="Servings"
+                          className="w-full text-sm px-1 py-1 border border-gray-300 rounded focus:outline-none focus:ring-2 focus:ring-primary-500"
+                        />
+                        <div className="flex gap-1">
+                          <button
+                            onClick={handleAddMeal}
+                            disabled={saving || !newRecipeId}
+                            className="flex-1 text-sm py-1 bg-primary-600 text-white rounded hover:bg-primary-700 disabled:opacity-50"
+                          >
+                            Add
+                          </button>
+                          <button
+                            onClick={() => setAddingTo(null)}
+                            className="flex-1 text-sm py-1 bg-gray-200 text-gray-700 rounded hover:bg-gray-300"
+                          >
+                            Cancel
+                          </button>
+                        </div>
+                      </div>
+                    ) : (
+                      <button
+                        onClick={() => {
+                          setAddingTo({ day, slot: slot.value });
+                          setNewRecipeId('');
+                          setNewServings('');
+                        }}
+                        className="w-full text-xs text-gray-400 hover:text-primary-600 py-1"
+                      >
+                        + Add
+                      </button>
+                    )}
+                  </div>
+                );
+              })}
+            </div>
+          ))}
+        </div>
+        {plan.meals.length > 0 && (
+          <button
+            onClick={handleClearWeek}
+            disabled={saving}
+            className="mt-4 text-sm text-gray-600 hover:text-red-600"
+          >
+            Clear week
+          </button>
+        )}
+      </div>
+
+      {/* Ingredient Demand */}
+      <div className="bg-white rounded-lg shadow-lg p-6 mb-8">
+        <div className="flex flex-wrap justify-between items-center gap-4 mb-4">
+          <h2 className="text-2xl font-semibold text-gray-700">
+            Ingredients Needed ({demand.length})
+          </h2>
+          {gaps.length > 0 && (
+            <button
+              onClick={handleAddGapsToList}
+              disabled={saving}
+              className="px-4 py-2 bg-primary-600 text-white rounded-lg hover:bg-primary-700 transition-colors disabled:opacity-50"
+            >
+              Add {gaps.length} missing to shopping list
+            </button>
+          )}
+        </div>
+        {demand.length === 0 ? (
+          <p className="text-gray-500">Plan some meals to see what the week needs.</p>
+        ) : (
+          <table className="w-full text-sm">
+            <thead>
+              <tr className="text-left text-gray-500 border-b">
+                <th className="py-2">Ingredient</th>
+                <th className="py-2">Needed</th>
+                <th className="py-2">In pantry</th>
+                <th className="py-2">To buy</th>
+                <th className="py-2">For</th>
+              </tr>
+            </thead>
+            <tbody>
+              {demand.map(item => (
+                <tr key={item.name} className={`border-b last:border-0 ${item.shortfall ? 'bg-yellow-50' : ''}`}>
+                  <td className="py-2 font-medium text-gray-800">{item.name}</td>
+                  <td className="py-2 text-gray-700">{formatQuantity(item.required)}</td>
+                  <td className="py-2 text-gray-700">{formatQuantity(item.available)}</td>
+                  <td className={`py-2 ${item.shortfall ? 'text-yellow-700 font-semibold' : 'text-green-700'}`}>
+                    {item.shortfall ? formatShortfall(item.shortfall) : '✓'}
+                  </td>
+                  <td className="py-2 text-gray-500">{item.recipes.join(', ')}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default MealPlanner;
@@ -80,6 +80,36 @@ const Navbar = () => {
                 >
                   Recipes
                 </Link>
+                <Link
+                  to="/meal-plan"
+                  className={`px-4 py-2 rounded-lg transition-colors ${
+                    isActive('/meal-plan')
+                      ? 'bg-primary-600 text-white'
+                      : 'text-gray-700 hover:bg-primary-50'
+                  }`}
+                >
+                  Meal Plan
+                </Link>
+                <Link
+                  to="/history"
+                  className={`px-4 py-2 rounded-lg transition-colors ${
+                    isActive('/history')
+                      ? 'bg-primary-600 text-white'
+                      : 'text-gray-700 hover:bg-primary-50'
+                  }`}
+                >
+                  History
+                </Link>
+                <Link
+                  to="/shopping-list"
+                  className={`px-4 py-2 rounded-lg transition-colors ${
+                    isActive('/shopping-list')
+                      ? 'bg-primary-600 text-white'
+                      : 'text-gray-700 hover:bg-primary-50'
+                  }`}
+                >
+                  Shopping List
+                </Link>
                 <div className="relative" ref={dropdownRef}>
                   <button
                     onMouseEnter={() => setDropdownOpen(true)}
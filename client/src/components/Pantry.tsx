@@ -1,5 +1,14 @@
 import { useState, useEffect } from 'react';
-import { getPantry, addToPantry, removeFromPantry, getAllIngredients } from '../services/api';
+import {
+  getPantry,
+  addToPantry,
+  removeFromPantry,
+  getAllIngredients,
+  updatePantryItem,
+  getExpiringItems,
+  movePantryItem,
+  StorageLocation,
+} from '../services/api';
 
 interface PantryProps {
   userId: string;
@@ -11,17 +20,95 @@ interface Ingredient {
   category: string;
 }
 
+type Urgency = 'expired' | 'critical' | 'soon' | 'upcoming';
+
+interface PantryItem extends Ingredient {
+  quantity: number | null;
+  unit: string | null;
+  // quantity in the user's preferred unit system, when one is set
+  converted?: { quantity: number; unit: string } | null;
+  // amounts in units that can't be converted into `unit`
+  extra?: { quantity: number; unit: string | null }[];
+  note: string | null;
+  location: StorageLocation | null;
+  purchasedOn: string | null;
+  expiresOn: string | null;
+  daysUntilExpiry: number | null;
+  urgency: Urgency | null;
+}
+
+const urgencyStyles: Record<Urgency, { chip: string; label: string }> = {
+  expired: { chip: 'bg-red-100 text-red-800 ring-2 ring-red-400', label: 'Expired' },
+  critical: { chip: 'bg-orange-100 text-orange-800 ring-2 ring-orange-400', label: 'Use today' },
+  soon: { chip: 'bg-yellow-100 text-yellow-800 ring-1 ring-yellow-400', label: 'Use soon' },
+  upcoming: { chip: 'bg-primary-100 text-primary-800', label: 'This week' },
+};
+
+const storageLocations: { value: StorageLocation; label: string }[] = [
+  { value: 'fridge', label: 'Fridge' },
+  { value: 'freezer', label: 'Freezer' },
+  { value: 'cupboard', label: 'Cupboard' },
+];
+
+const locationLabel = (location: StorageLocation | null) =>
+  storageLocations.find(option => option.value === location)?.label || 'Unassigned';
+
+const formatExpiry = (days: number) => {
+  if (days < 0) return `expired ${-days}d ago`;
+  if (days === 0) return 'expires today';
+  if (days === 1) return 'expires tomorrow';
+  return `expires in ${days}d`;
+};
+
+const formatMainAmount = (item: PantryItem) => {
+  if (item.converted) return `${item.converted.quantity} ${item.converted.unit}`;
+  if (item.quantity === null || item.quantity === undefined) return item.unit || '';
+  return item.unit ? `${item.quantity} ${item.unit}` : `${item.quantity}`;
+};
+
+const formatAmount = (item: PantryItem) => {
+  const extra = (item.extra || []).map(entry => (entry.unit ? `${entry.quantity} ${entry.unit}` : `${entry.quantity}`));
+  return [formatMainAmount(item), ...extra].filter(Boolean).join(' plus ');
+};
+
 const Pantry = ({ userId, user }: PantryProps) => {
-  const [pantry, setPantry] = useState<Ingredient[]>([]);
+  const [pantry, setPantry] = useState<PantryItem[]>([]);
   const [allIngredients, setAllIngredients] = useState<Ingredient[]>([]);
   const [searchTerm, setSearchTerm] = useState('');
   const [loading, setLoading] = useState(true);
   const [adding, setAdding] = useState(false);
+  const [editingItem, setEditingItem] = useState<string | null>(null);
+  const [editQuantity, setEditQuantity] = useState('');
+  const [editUnit, setEditUnit] = useState('');
+  const [editNote, setEditNote] = useState('');
+  const [editPurchasedOn, setEditPurchasedOn] = useState('');
+  const [editExpiresOn, setEditExpiresOn] = useState('');
+  const [editLocation, setEditLocation] = useState<StorageLocation | ''>('');
+  const [extendOnFreeze, setExtendOnFreeze] = useState(true);
+  const [locationFilter, setLocationFilter] = useState<StorageLocation | 'all'>('all');
+  const [groupBy, setGroupBy] = useState<'category' | 'location'>('category');
+  const [expiringGroups, setExpiringGroups] = useState<Record<Urgency, PantryItem[]> | null>(null);
 
   useEffect(() => {
     loadData();
   }, [userId]);
 
+  // Refresh the "use it soon" list whenever the pantry changes
+  useEffect(() => {
+    if (userId && !loading) {
+      loadExpiring();
+    }
+  }, [pantry, loading]);
+
+  const loadExpiring = async () => {
+    try {
+      const data = await getExpiringItems(userId);
+      setExpiringGroups(data.groups);
+    } catch (error) {
+      console.error('Failed to load expiring items:', error);
+    }
+  };
+
   const loadData = async () => {
     setLoading(true);
     try {
@@ -45,7 +132,10 @@ const Pantry = ({ userId, user }: PantryProps) => {
 
     setAdding(true);
     try {
-      const data = await addToPantry(userId, [ingredientName]);
+      // When viewing a single location, new items are stored there
+      const data = await addToPantry(userId, [
+        locationFilter === 'all' ? ingredientName : { name: ingredientName, location: locationFilter },
+      ]);
       setPantry(data.pantry);
     } catch (error) {
       console.error('Failed to add to pantry:', error);
@@ -68,18 +158,63 @@ const Pantry = ({ userId, user }: PantryProps) => {
     }
   };
 
+  const startEditing = (item: PantryItem) => {
+    setEditingItem(item.name);
+    setEditQuantity(item.quantity === null ? '' : String(item.quantity));
+    setEditUnit(item.unit || '');
+    setEditNote(item.note || '');
+    setEditPurchasedOn(item.purchasedOn || '');
+    setEditExpiresOn(item.expiresOn || '');
+    setEditLocation(item.location || '');
+    setExtendOnFreeze(true);
+  };
+
+  const handleSaveItem = async (item: PantryItem) => {
+    const ingredientName = item.name;
+    setAdding(true);
+    try {
+      let data = await updatePantryItem(userId, ingredientName, {
+        quantity: editQuantity.trim() === '' ? null : Number(editQuantity),
+        unit: editUnit.trim() || null,
+        note: editNote.trim() || null,
+        purchasedOn: editPurchasedOn || null,
+        expiresOn: editExpiresOn || null,
+      });
+      // Move after updating so a freezer expiry extension isn't overwritten
+      if (editLocation && editLocation !== item.location) {
+        data = await movePantryItem(userId, ingredientName, editLocation, { extendExpiry: extendOnFreeze });
+      }
+      setPantry(data.pantry);
+      setEditingItem(null);
+    } catch (error) {
+      console.error('Failed to update pantry item:', error);
+      alert('Failed to update pantry item');
+    } finally {
+      setAdding(false);
+    }
+  };
+
   const filteredIngredients = allIngredients.filter(ingredient =>
     ingredient.name.toLowerCase().includes(searchTerm.toLowerCase()) &&
     !pantry.some(item => item.name === ingredient.name)
   );
 
-  const groupedPantry = pantry.reduce((acc, item) => {
-    if (!acc[item.category]) {
-      acc[item.category] = [];
+  const visiblePantry = locationFilter === 'all'
+    ? pantry
+    : pantry.filter(item => item.location === locationFilter);
+
+  const groupedPantry = visiblePantry.reduce((acc, item) => {
+    const group = groupBy === 'location' ? locationLabel(item.location) : item.category;
+    if (!acc[group]) {
+      acc[group] = [];
     }
-    acc[item.category].push(item);
+    acc[group].push(item);
     return acc;
-  }, {} as Record<string, Ingredient[]>);
+  }, {} as Record<string, PantryItem[]>);
+
+  const expiringCount = expiringGroups
+    ? Object.values(expiringGroups).reduce((sum, items) => sum + items.length, 0)
+    : 0;
 
   if (loading) {
     return (
@@ -93,25 +228,189 @@ const Pantry = ({ userId, user }: PantryProps) => {
     <div className="max-w-6xl mx-auto">
       <h1 className="text-3xl font-bold text-gray-800 mb-8">My Pantry</h1>
 
+      {/* Use It Soon */}
+      {expiringGroups && expiringCount > 0 && (
+        <div className="bg-white rounded-lg shadow-lg p-6 mb-8 border-l-4 border-orange-400">
+          <h2 className="text-2xl font-semibold text-gray-700 mb-4">
+            Use It Soon ({expiringCount})
+          </h2>
+          <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-4">
+            {(Object.keys(urgencyStyles) as Urgency[])
+              .filter(urgency => expiringGroups[urgency]?.length > 0)
+              .map(urgency => (
+                <div key={urgency}>
+                  <h3 className="text-sm font-semibold uppercase text-gray-500 mb-2">
+                    {urgencyStyles[urgency].label}
+                  </h3>
+                  <ul className="space-y-1">
+                    {expiringGroups[urgency].map(item => (
+                      <li
+                        key={item.name}
+                        className={`px-3 py-1 rounded text-sm ${urgencyStyles[urgency].chip}`}
+                      >
+                        {item.name}
+                        {item.daysUntilExpiry !== null && (
+                          <span className="ml-1 text-xs">· {formatExpiry(item.daysUntilExpiry)}</span>
+                        )}
+                      </li>
+                    ))}
+                  </ul>
+                </div>
+              ))}
+          </div>
+        </div>
+      )}
+
       {/* Current Pantry */}
       <div className="bg-white rounded-lg shadow-lg p-6 mb-8">
-        <h2 className="text-2xl font-semibold text-gray-700 mb-4">
-          Current Pantry Items ({pantry.length})
-        </h2>
-        {pantry.length === 0 ? (
-          <p className="text-gray-500">Your pantry is empty. Add some ingredients below!</p>
+        <div className="flex flex-wrap justify-between items-center gap-4 mb-4">
+          <h2 className="text-2xl font-semibold text-gray-700">
+            Current Pantry Items ({visiblePantry.length})
+          </h2>
+          <select
+            value={groupBy}
+            onChange={(e) => setGroupBy(e.target.value as 'category' | 'location')}
+            className="px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-primary-500"
+          >
+            <option value="category">Group by category</option>
+            <option value="location">Group by location</option>
+          </select>
+        </div>
+        <div className="flex flex-wrap gap-2 mb-4">
+          {[{ value: 'all' as const, label: 'All' }, ...storageLocations].map(option => (
+            <button
+              key={option.value}
+              onClick={() => setLocationFilter(option.value)}
+              className={`px-4 py-2 rounded-lg transition-colors ${
+                locationFilter === option.value
+                  ? 'bg-primary-600 text-white'
+                  : 'bg-gray-100 text-gray-700 hover:bg-primary-50'
+              }`}
+            >
+              {option.label}
+            </button>
+          ))}
+        </div>
+        {visiblePantry.length === 0 ? (
+          <p className="text-gray-500">
+            {pantry.length === 0
+              ? 'Your pantry is empty. Add some ingredients below!'
+              : `Nothing stored in the ${locationLabel(locationFilter as StorageLocation).toLowerCase()} yet.`}
+          </p>
         ) : (
           <div className="space-y-4">
-            {Object.entries(groupedPantry).map(([category, items]) => (
-              <div key={category}>
-                <h3 className="text-lg font-medium text-gray-600 mb-2">{category}</h3>
+            {Object.entries(groupedPantry).map(([group, items]) => (
+              <div key={group}>
+                <h3 className="text-lg font-medium text-gray-600 mb-2">{group}</h3>
                 <div className="flex flex-wrap gap-2">
-                  {items.map(item => (
+                  {items.map(item => editingItem === item.name ? (
+                    <div
+                      key={item.name}
+                      className="w-full flex flex-wrap items-center gap-2 p-3 bg-primary-50 border border-primary-200 rounded-lg"
+                    >
+                      <span className="font-medium text-primary-800 mr-2">{item.name}</span>
+                      <input
+                        type="number"
+                        value={editQuantity}
+                        onChange={(e) => setEditQuantity(e.target.value)}
+                        min="0"
+                        step="any"
+                        placeholder="Qty"
+                        className="w-20 px-2 py-1 border border-gray-300 rounded focus:outline-none focus:ring-2 focus:ring-primary-500"
+                      />
+                      <input
+                        type="text"
+                        value={editUnit}
+                        onChange={(e) => setEditUnit(e.target.value)}
+                        placeholder="Unit (e.g. g, cloves)"
+                        className="w-36 px-2 py-1 border border-gray-300 rounded focus:outline-none focus:ring-2 focus:ring-primary-500"
+                      />
+                      <input
+                        type="text"
+                        value={editNote}
+                        onChange={(e) => setEditNote(e.target.value)}
+                        onKeyDown={(e) => e.key === 'Enter' && handleSaveItem(item)}
+                        placeholder="Note"
+                        className="flex-1 min-w-[8rem] px-2 py-1 border border-gray-300 rounded focus:outline-none focus:ring-2 focus:ring-primary-500"
+                      />
+                      <label className="flex items-center gap-1 text-sm text-gray-600">
+                        Bought
+                        <input
+                          type="date"
+                          value={editPurchasedOn}
+                          onChange={(e) => setEditPurchasedOn(e.target.value)}
+                          className="px-2 py-1 border border-gray-300 rounded focus:outline-none focus:ring-2 focus:ring-primary-500"
+                        />
+                      </label>
+                      <label className="flex items-center gap-1 text-sm text-gray-600">
+                        Expires
+                        <input
+                          type="date"
+                          value={editExpiresOn}
+                          onChange={(e) => setEditExpiresOn(e.target.value)}
+                          className="px-2 py-1 border border-gray-300 rounded focus:outline-none focus:ring-2 focus:ring-primary-500"
+                        />
+                      </label>
+                      <select
+                        value={editLocation}
+                        onChange={(e) => setEditLocation(e.target.value as StorageLocation | '')}
+                        className="px-2 py-1 border border-gray-300 rounded focus:outline-none focus:ring-2 focus:ring-primary-500"
+                      >
+                        <option value="" disabled>Location</option>
+                        {storageLocations.map(option => (
+                          <option key={option.value} value={option.value}>{option.label}</option>
+                        ))}
+                      </select>
+                      {editLocation === 'freezer' && item.location !== 'freezer' && (
+                        <label className="flex items-center gap-1 text-sm text-gray-600">
+                          <input
+                            type="checkbox"
+                            checked={extendOnFreeze}
+                            onChange={(e) => setExtendOnFreeze(e.target.checked)}
+                          />
+                          Extend expiry
+                        </label>
+                      )}
+                      <button
+                        onClick={() => handleSaveItem(item)}
+                        disabled={adding}
+                        className="px-3 py-1 bg-primary-600 text-white rounded hover:bg-primary-700 transition-colors disabled:opacity-50"
+                      >
+                        Save
+                      </button>
+                      <button
+                        onClick={() => setEditingItem(null)}
+                        className="px-3 py-1 bg-gray-200 text-gray-700 rounded hover:bg-gray-300 transition-colors"
+                      >
+                        Cancel
+                      </button>
+                    </div>
+                  ) : (
                     <span
                       key={item.name}
-                      className="px-4 py-2 bg-primary-100 text-primary-800 rounded-full flex items-center gap-2"
+                      className={`px-4 py-2 rounded-full flex items-center gap-2 ${
+                        item.urgency && item.urgency !== 'upcoming'
+                          ? urgencyStyles[item.urgency].chip
+                          : 'bg-primary-100 text-primary-800'
+                      }`}
+                      title={item.note || undefined}
                     >
-                      {item.name}
+                      <button
+                        onClick={() => startEditing(item)}
+                        className="hover:underline"
+                        title="Edit quantity"
+                      >
+                        {item.name}
+                        {formatAmount(item) && (
+                          <span className="ml-1 text-sm text-primary-600">· {formatAmount(item)}</span>
+                        )}
+                        {item.note && (
+                          <span className="ml-1 text-xs text-primary-500 italic">({item.note})</span>
+                        )}
+                        {item.daysUntilExpiry !== null && item.daysUntilExpiry <= 3 && (
+                          <span className="ml-1 text-xs font-semibold">· {formatExpiry(item.daysUntilExpiry)}</span>
+                        )}
+                      </button>
                       <button
                         onClick={() => handleRemoveFromPantry(item.name)}
                         className="text-primary-600 hover:text-primary-800 font-bold"
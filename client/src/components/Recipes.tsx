@@ -1,6 +1,6 @@
 import { useState, useEffect } from 'react';
 import { useAuth } from '../context/AuthContext';
-import { getPantry, getRecipeSuggestions, likeRecipe, unlikeRecipe, createRecipe, getAllIngredients, fetchWebRecipes, getWebCategories } from '../services/api';
+import { getPantry, getRecipeSuggestions, likeRecipe, unlikeRecipe, createRecipe, updateRecipe, deleteRecipe, getAllIngredients, fetchWebRecipes, getWebCategories, getRecipeDetails, addRecipeToShoppingList, cookRecipe, undoCookRecipe, RecipeStep, PantryDeduction, RecipeIngredientLine, UnitSystem, IngredientCoverage, IngredientSubstitution, getIngredientSubstitutes, AllergenMatch, ExclusionReason, TagContradiction, RecipeNutrition, NutritionFacts, NutritionBudget, GoalFit } from '../services/api';
 
 interface RecipesProps {
   userId: string;
@@ -20,11 +20,86 @@ interface Recipe {
   totalIngredients: number;
   matchRatio: number;
   allIngredients: string[];
+  haveIngredients?: string[];
+  missingIngredients?: string[];
+  // Recipe ingredients covered by a more specific pantry item (Cheese by Cheddar)
+  generalisedMatches?: { ingredient: string; pantryItem: string }[];
+  substitutions?: IngredientSubstitution[];
   isLiked?: boolean;
+  recentlyCooked?: boolean;
+  expiringIngredients?: string[];
+  // Only set when matching by quantity
+  coverage?: IngredientCoverage[] | null;
+  coverageRatio?: number | null;
   sourceUrl?: string | null;
   imageUrl?: string | null;
+  createdBy?: string | null;
+  // Only set on recipes hidden by the user's diets or allergies
+  exclusionReasons?: ExclusionReason[];
+  // Only set when ranking or filtering by nutrition goals
+  nutrition?: NutritionFacts | null;
+  goalFit?: GoalFit;
 }
 
+interface RecipeDetails {
+  id: string;
+  ingredients: RecipeIngredientLine[];
+  steps: RecipeStep[];
+  allergenWarnings: AllergenMatch[];
+  nutrition: RecipeNutrition | null;
+}
+
+// A recipe loaded into the recipe form for editing, with its own amounts and hand-entered tags
+interface EditableRecipe {
+  id: string;
+  name: string;
+  description: string;
+  prepTime: number;
+  cookTime: number;
+  servings: number;
+  difficulty: string;
+  dietaryTags: string[];
+  ingredients: RecipeIngredientLine[];
+  steps: RecipeStep[];
+}
+
+const nutritionLabels: { key: keyof RecipeNutrition['perServing']; label: string; unit: string }[] = [
+  { key: 'kcal', label: 'Calories', unit: '' },
+  { key: 'protein', label: 'Protein', unit: 'g' },
+  { key: 'carbs', label: 'Carbs', unit: 'g' },
+  { key: 'fat', label: 'Fat', unit: 'g' },
+  { key: 'fibre', label: 'Fibre', unit: 'g' },
+  { key: 'sodium', label: 'Sodium', unit: 'mg' },
+];
+
+const formatIngredientAmount = (line?: RecipeIngredientLine) => {
+  if (!line) return '';
+  return [line.amount, line.unit].filter(Boolean).join(' ');
+};
+
+const formatStepMeta = (step: RecipeStep) => {
+  const parts: string[] = [];
+  if (step.durationMinutes) parts.push(`${step.durationMinutes} min`);
+  if (step.temperature) parts.push(`${step.temperature}°${step.temperatureUnit || 'C'}`);
+  return parts.join(' · ');
+};
+
+// Label for why a recipe is hidden, e.g. "Allergy (Peanut)" or "Custom diet (Low FODMAP)"
+const exclusionLabel = (reason: ExclusionReason) => {
+  switch (reason.rule) {
+    case 'dietary-preference':
+      return `Diet (${reason.preference})`;
+    case 'recipe-rule':
+      return `Diet rule (${reason.preference})`;
+    case 'custom-diet':
+      return `Custom diet (${reason.preference})`;
+    case 'allergy':
+      return `Allergy (${reason.allergy})`;
+    case 'nutrition-goal':
+      return 'Nutrition goal';
+  }
+};
+
 const Recipes = ({ userId, user }: RecipesProps) => {
   const { user: authUser } = useAuth(); // Get user from auth context as backup
   const [recipes, setRecipes] = useState<Recipe[]>([]);
@@ -33,9 +108,29 @@ const Recipes = ({ userId, user }: RecipesProps) => {
   const [error, setError] = useState<string | null>(null);
   const [selectedRecipe, setSelectedRecipe] = useState<Recipe | null>(null);
   const [showCreateForm, setShowCreateForm] = useState(false);
+  const [editingRecipe, setEditingRecipe] = useState<EditableRecipe | null>(null);
   const [showFetchWebForm, setShowFetchWebForm] = useState(false);
   const [availableIngredients, setAvailableIngredients] = useState<string[]>([]);
   const [webCategories, setWebCategories] = useState<string[]>([]);
+  const [prioritizeExpiring, setPrioritizeExpiring] = useState(false);
+  const [matchQuantities, setMatchQuantities] = useState(false);
+  const [varietyDays, setVarietyDays] = useState<'' | '3' | '7' | '14'>('');
+  const [allowSubstitutes, setAllowSubstitutes] = useState(false);
+  const [showHidden, setShowHidden] = useState(false);
+  const [hiddenRecipes, setHiddenRecipes] = useState<Recipe[]>([]);
+  const [goalMode, setGoalMode] = useState<'' | 'rank' | 'filter'>('');
+  const [nutritionBudget, setNutritionBudget] = useState<NutritionBudget | null>(null);
+  const [substituteOptions, setSubstituteOptions] = useState<Record<string, { name: string; ratio: number; notes: string | null }[]>>({});
+  const [addedToList, setAddedToList] = useState<string[]>([]);
+  // The last "I cooked this" in the modal, kept so it can be undone
+  const [lastCook, setLastCook] = useState<{ recipeId: string; cookId: string; deductions: PantryDeduction[]; skipped: string[] } | null>(null);
+  const [cooking, setCooking] = useState(false);
+  // '' shows everything, 'now' only recipes that can be cooked right away, a number caps missing ingredients
+  const [missingFilter, setMissingFilter] = useState<'' | 'now' | '1' | '2' | '3'>('');
+  const [recipeDetails, setRecipeDetails] = useState<RecipeDetails | null>(null);
+  const [servings, setServings] = useState<number | null>(null);
+  // '' follows the unit system chosen in account settings
+  const [units, setUnits] = useState<UnitSystem | 'original' | ''>('');
 
   // Use authUser if userId prop is empty
   const effectiveUserId = userId || authUser?.id || '';
@@ -43,8 +138,9 @@ const Recipes = ({ userId, user }: RecipesProps) => {
 
   // Organize recipes into categories
   const favoriteRecipes = recipes.filter(recipe => recipe.isLiked);
-  const recommendedRecipes = recipes.filter(recipe => !recipe.isLiked && recipe.matchRatio >= 0.5);
-  const allRecipes = recipes.filter(recipe => !recipe.isLiked && recipe.matchRatio < 0.5);
+  const matchScore = (recipe: Recipe) => recipe.coverageRatio ?? recipe.matchRatio;
+  const recommendedRecipes = recipes.filter(recipe => !recipe.isLiked && matchScore(recipe) >= 0.5);
+  const allRecipes = recipes.filter(recipe => !recipe.isLiked && matchScore(recipe) < 0.5);
 
   useEffect(() => {
     if (effectiveUserId) {
@@ -55,7 +151,44 @@ const Recipes = ({ userId, user }: RecipesProps) => {
       console.log('Recipes component: No userId available');
       setError('Please log in to view recipes');
     }
-  }, [effectiveUserId]);
+  }, [effectiveUserId, prioritizeExpiring, matchQuantities, missingFilter, varietyDays, allowSubstitutes, showHidden, goalMode]);
+
+  // Reset the servings stepper whenever a different recipe is opened
+  useEffect(() => {
+    setRecipeDetails(null);
+    setServings(selectedRecipe ? selectedRecipe.servings || 1 : null);
+  }, [selectedRecipe?.id]);
+
+  // Load full details (steps, amounts scaled to the chosen servings and units) for the recipe shown in the modal
+  useEffect(() => {
+    if (!selectedRecipe || servings === null) {
+      return;
+    }
+
+    // Ignore responses for a recipe or serving size that is no longer shown
+    let cancelled = false;
+    getRecipeDetails(selectedRecipe.id, servings, units || undefined)
+      .then(data => {
+        if (cancelled) return;
+        setRecipeDetails({
+          id: data.id,
+          ingredients: Array.isArray(data.ingredients) ? data.ingredients : [],
+          steps: Array.isArray(data.steps) ? data.steps : [],
+          allergenWarnings: Array.isArray(data.allergenWarnings) ? data.allergenWarnings : [],
+          nutrition: data.nutrition || null,
+        });
+      })
+      .catch(error => {
+        console.error('Failed to load recipe details:', error);
+        if (!cancelled) {
+          setRecipeDetails({ id: selectedRecipe.id, ingredients: [], steps: [], allergenWarnings: [], nutrition: null });
+        }
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [selectedRecipe?.id, servings, units]);
 
   const loadAvailableIngredients = async () => {
     try {
@@ -85,13 +218,24 @@ const Recipes = ({ userId, user }: RecipesProps) => {
       setPantryItems(items);
 
       if (items.length > 0) {
-        const suggestionsData = await getRecipeSuggestions(effectiveUserId, items);
+        const suggestionsData = await getRecipeSuggestions(effectiveUserId, items, {
+          prioritizeExpiring,
+          matchMode: matchQuantities ? 'quantity' : 'names',
+          cookableNow: missingFilter === 'now',
+          maxMissing: missingFilter && missingFilter !== 'now' ? Number(missingFilter) : undefined,
+          avoidCookedWithinDays: varietyDays ? Number(varietyDays) : undefined,
+          allowSubstitutes,
+          explain: showHidden,
+          goalMode: goalMode || undefined,
+        });
         const recipes = suggestionsData?.recipes || [];
         // Ensure all recipes have required fields
         const safeRecipes = recipes.map((recipe: any) => ({
           ...recipe,
           dietaryTags: Array.isArray(recipe.dietaryTags) ? recipe.dietaryTags : [],
           allIngredients: Array.isArray(recipe.allIngredients) ? recipe.allIngredients : [],
+          missingIngredients: Array.isArray(recipe.missingIngredients) ? recipe.missingIngredients : undefined,
+          expiringIngredients: Array.isArray(recipe.expiringIngredients) ? recipe.expiringIngredients : [],
           matchRatio: typeof recipe.matchRatio === 'number' ? recipe.matchRatio : Number(recipe.matchRatio) || 0,
           matchingIngredients: typeof recipe.matchingIngredients === 'number' ? recipe.matchingIngredients : Number(recipe.matchingIngredients) || 0,
           totalIngredients: typeof recipe.totalIngredients === 'number' ? recipe.totalIngredients : Number(recipe.totalIngredients) || 0,
@@ -101,8 +245,12 @@ const Recipes = ({ userId, user }: RecipesProps) => {
           isLiked: recipe.isLiked || false,
         }));
         setRecipes(safeRecipes);
+        setHiddenRecipes(Array.isArray(suggestionsData?.excluded) ? suggestionsData.excluded : []);
+        setNutritionBudget(suggestionsData?.nutritionBudget || null);
       } else {
         setRecipes([]);
+        setHiddenRecipes([]);
+        setNutritionBudget(null);
       }
     } catch (error: any) {
       console.error('Failed to load recipes:', error);
@@ -120,12 +268,13 @@ const Recipes = ({ userId, user }: RecipesProps) => {
   };
 
   const getMatchPercentage = (recipe: Recipe) => {
-    if (!recipe.matchRatio) return 0;
-    return Math.round(recipe.matchRatio * 100);
+    const score = matchScore(recipe);
+    if (!score) return 0;
+    return Math.round(score * 100);
   };
 
   const getMissingIngredients = (recipe: Recipe) => {
-    return recipe.allIngredients.filter(
+    return recipe.missingIngredients ?? recipe.allIngredients.filter(
       ing => !pantryItems.includes(ing)
     );
   };
@@ -177,10 +326,37 @@ const Recipes = ({ userId, user }: RecipesProps) => {
           </button>
         </div>
 
-        <div className="mb-3">
+        <div className="mb-3 flex flex-wrap gap-2">
           <span className="px-3 py-1 bg-primary-100 text-primary-800 rounded-full text-sm font-semibold">
             {getMatchPercentage(recipe)}% match
           </span>
+          {recipe.recentlyCooked && (
+            <span className="px-3 py-1 bg-gray-100 text-gray-600 rounded-full text-sm">
+              Cooked recently
+            </span>
+          )}
+          {recipe.goalFit && (
+            <span
+              className={`px-3 py-1 rounded-full text-sm font-semibold ${
+                recipe.goalFit.fits ? 'bg-green-100 text-green-800' : 'bg-amber-100 text-amber-800'
+              }`}
+              title={recipe.goalFit.problems.join('\n') || 'Fits what is left of your goals today'}
+            >
+              {!recipe.nutrition
+                ? 'No nutrition data'
+                : recipe.goalFit.fits
+                  ? `${recipe.nutrition.kcal} kcal · fits goals`
+                  : `${recipe.nutrition.kcal} kcal · ${recipe.goalFit.problems.join('; ')}`}
+            </span>
+          )}
+          {(recipe.expiringIngredients || []).length > 0 && (
+            <span
+              className="px-3 py-1 bg-orange-100 text-orange-800 rounded-full text-sm font-semibold"
+              title={`Uses ${(recipe.expiringIngredients || []).join(', ')}`}
+            >
+              Uses {(recipe.expiringIngredients || []).length} expiring
+            </span>
+          )}
         </div>
 
         <p className="text-gray-600 mb-4 line-clamp-2 text-sm">{recipe.description || 'No description available'}</p>
@@ -219,6 +395,16 @@ const Recipes = ({ userId, user }: RecipesProps) => {
         <div className="text-sm text-gray-500">
           {recipe.matchingIngredients || 0} of {recipe.totalIngredients || 0} ingredients in pantry
         </div>
+        {getMissingIngredients(recipe).length > 0 ? (
+          <>
+            <div className="mt-2 mb-2 text-sm text-yellow-700 line-clamp-2">
+              Missing: {getMissingIngredients(recipe).join(', ')}
+            </div>
+            <AddMissingButton recipe={recipe} />
+          </>
+        ) : (
+          <div className="mt-2 text-sm text-green-700 font-semibold">Ready to cook</div>
+        )}
       </div>
     </div>
   );
@@ -261,6 +447,126 @@ const Recipes = ({ userId, user }: RecipesProps) => {
     }
   };
 
+  // Recipes can be changed by whoever created them, and by admins
+  const canEditRecipe = (recipe: Recipe) =>
+    (!!recipe.createdBy && recipe.createdBy === effectiveUserId) || authUser?.role === 'admin';
+
+  // Open the create form filled in with the recipe's saved details
+  const handleEditRecipe = async (recipe: Recipe) => {
+    try {
+      // Edit the recipe's own amounts, not ones scaled or converted for display
+      const data = await getRecipeDetails(recipe.id, undefined, 'original');
+      setEditingRecipe({
+        id: recipe.id,
+        name: data.name || '',
+        description: data.description || '',
+        prepTime: data.prepTime || 0,
+        cookTime: data.cookTime || 0,
+        servings: data.servings || 1,
+        difficulty: data.difficulty || 'Easy',
+        dietaryTags: data.manualTags || data.dietaryTags || [],
+        ingredients: (data.ingredients || []).map((ing: RecipeIngredientLine) => ({
+          name: ing.name,
+          amount: ing.amount || '',
+          unit: ing.unit || '',
+          note: ing.note || '',
+        })),
+        steps: data.steps || [],
+      });
+    } catch (error) {
+      console.error('Failed to load recipe for editing:', error);
+      alert('Failed to load recipe. Please try again.');
+    }
+  };
+
+  // Delete after confirming, then close the modal and reload suggestions
+  const handleDeleteRecipe = async (recipe: Recipe) => {
+    if (!confirm(`Delete "${recipe.name}"? It will also be removed from meal plans and favorites.`)) return;
+    try {
+      await deleteRecipe(recipe.id);
+      setSelectedRecipe(null);
+      loadPantryAndSuggestions();
+    } catch (error: any) {
+      console.error('Failed to delete recipe:', error);
+      alert(error?.response?.data?.error || 'Failed to delete recipe. Please try again.');
+    }
+  };
+
+  // Put a recipe's missing ingredients on the shopping list, scaled to the servings shown in the modal
+  const handleAddMissingToList = async (recipe: Recipe) => {
+    try {
+      await addRecipeToShoppingList(effectiveUserId, recipe.id, {
+        ingredients: getMissingIngredients(recipe),
+        servings: selectedRecipe?.id === recipe.id && servings !== null ? servings : undefined,
+      });
+      setAddedToList(prev => [...prev, recipe.id]);
+    } catch (error: any) {
+      console.error('Failed to add to shopping list:', error);
+      alert(error?.response?.data?.error || 'Failed to add ingredients to shopping list');
+    }
+  };
+
+  // Refresh which ingredients are in the pantry without reloading suggestions,
+  // so the open recipe modal stays in place
+  const refreshPantryItems = async () => {
+    const pantryData = await getPantry(effectiveUserId);
+    setPantryItems((pantryData?.pantry || []).map((item: any) => item?.name).filter(Boolean));
+  };
+
+  const handleCooked = async (recipe: Recipe) => {
+    setCooking(true);
+    try {
+      const data = await cookRecipe(recipe.id, servings ?? undefined);
+      setLastCook({ recipeId: recipe.id, cookId: data.cookId, deductions: data.deductions, skipped: data.skipped });
+      await refreshPantryItems();
+    } catch (error: any) {
+      console.error('Failed to record cooked recipe:', error);
+      alert(error?.response?.data?.error || 'Failed to update your pantry');
+    } finally {
+      setCooking(false);
+    }
+  };
+
+  const handleUndoCooked = async () => {
+    if (!lastCook) return;
+    setCooking(true);
+    try {
+      await undoCookRecipe(lastCook.recipeId, lastCook.cookId);
+      setLastCook(null);
+      await refreshPantryItems();
+    } catch (error: any) {
+      console.error('Failed to undo cooked recipe:', error);
+      alert(error?.response?.data?.error || 'Failed to undo');
+    } finally {
+      setCooking(false);
+    }
+  };
+
+  // Look up substitutes for a missing ingredient (already filtered by the user's diets and allergies)
+  const loadSubstitutes = async (ingredient: string) => {
+    try {
+      const data = await getIngredientSubstitutes(ingredient);
+      setSubstituteOptions(prev => ({ ...prev, [ingredient]: data.substitutes || [] }));
+    } catch (error) {
+      console.error('Failed to load substitutes:', error);
+      setSubstituteOptions(prev => ({ ...prev, [ingredient]: [] }));
+    }
+  };
+
+  const AddMissingButton = ({ recipe }: { recipe: Recipe }) => addedToList.includes(recipe.id) ? (
+    <span className="text-sm text-green-700 font-semibold">✓ On shopping list</span>
+  ) : (
+    <button
+      onClick={(e) => {
+        e.stopPropagation();
+        handleAddMissingToList(recipe);
+      }}
+      className="text-sm px-3 py-1 bg-yellow-100 text-yellow-800 rounded-lg hover:bg-yellow-200 transition-colors"
+    >
+      + Add missing to shopping list
+    </button>
+  );
+
   if (loading) {
     return (
       <div className="flex justify-center items-center h-64">
@@ -273,20 +579,111 @@ const Recipes = ({ userId, user }: RecipesProps) => {
     <div className="max-w-6xl mx-auto relative">
       <div className="flex justify-between items-center mb-8">
         <h1 className="text-3xl font-bold text-gray-800">Recipe Suggestions</h1>
-        <button
-          onClick={() => {
-            setShowFetchWebForm(true);
-            loadWebCategories();
-          }}
-          className="px-4 py-2 bg-green-600 text-white rounded-lg hover:bg-green-700 transition-colors flex items-center gap-2"
-        >
-          <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
-            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M21 12a9 9 0 01-9 9m9-9a9 9 0 00-9-9m9 9H3m9 9a9 9 0 01-9-9m9 9c1.657 0 3-4.03 3-9s-1.343-9-3-9m0 18c-1.657 0-3-4.03-3-9s1.343-9 3-9m-9 9a9 9 0 019-9" />
-          </svg>
-          Fetch Web Recipes
-        </button>
+        <div className="flex items-center gap-4">
+          <label className="flex items-center gap-2 text-gray-700 cursor-pointer">
+            <input
+              type="checkbox"
+              checked={prioritizeExpiring}
+              onChange={(e) => setPrioritizeExpiring(e.target.checked)}
+              className="w-4 h-4 text-primary-600 rounded focus:ring-primary-500"
+            />
+            Use expiring items first
+          </label>
+          <label className="flex items-center gap-2 text-gray-700 cursor-pointer" title="Compare pantry quantities against recipe amounts">
+            <input
+              type="checkbox"
+              checked={matchQuantities}
+              onChange={(e) => setMatchQuantities(e.target.checked)}
+              className="w-4 h-4 text-primary-600 rounded focus:ring-primary-500"
+            />
+            Match quantities
+          </label>
+          <label className="flex items-center gap-2 text-gray-700 cursor-pointer" title="Count an ingredient as covered when you have a substitute for it">
+            <input
+              type="checkbox"
+              checked={allowSubstitutes}
+              onChange={(e) => setAllowSubstitutes(e.target.checked)}
+              className="w-4 h-4 text-primary-600 rounded focus:ring-primary-500"
+            />
+            Count substitutes
+          </label>
+          <label className="flex items-center gap-2 text-gray-700 cursor-pointer" title="List recipes hidden by your diets or allergies, and why">
+            <input
+              type="checkbox"
+              checked={showHidden}
+              onChange={(e) => setShowHidden(e.target.checked)}
+              className="w-4 h-4 text-primary-600 rounded focus:ring-primary-500"
+            />
+            Show hidden recipes
+          </label>
+          <select
+            value={missingFilter}
+            onChange={(e) => setMissingFilter(e.target.value as '' | 'now' | '1' | '2' | '3')}
+            className="px-3 py-2 border border-gray-300 rounded-lg text-gray-700 focus:outline-none focus:ring-2 focus:ring-primary-500"
+            title="Missing ingredients"
+          >
+            <option value="">Any missing</option>
+            <option value="now">Cook now</option>
+            <option value="1">At most 1 missing</option>
+            <option value="2">At most 2 missing</option>
+            <option value="3">At most 3 missing</option>
+          </select>
+          <select
+            value={varietyDays}
+            onChange={(e) => setVarietyDays(e.target.value as '' | '3' | '7' | '14')}
+            className="px-3 py-2 border border-gray-300 rounded-lg text-gray-700 focus:outline-none focus:ring-2 focus:ring-primary-500"
+            title="Show recently cooked recipes lower down"
+          >
+            <option value="">Include recent meals</option>
+            <option value="3">Skip last 3 days</option>
+            <option value="7">Skip last week</option>
+            <option value="14">Skip last 2 weeks</option>
+          </select>
+          <select
+            value={goalMode}
+            onChange={(e) => setGoalMode(e.target.value as '' | 'rank' | 'filter')}
+            className="px-3 py-2 border border-gray-300 rounded-lg text-gray-700 focus:outline-none focus:ring-2 focus:ring-primary-500"
+            title="Use the nutrition goals from your account settings"
+          >
+            <option value="">Ignore nutrition goals</option>
+            <option value="rank">Rank by my goals</option>
+            <option value="filter">Only fitting my goals</option>
+          </select>
+          <button
+            onClick={() => {
+              setShowFetchWebForm(true);
+              loadWebCategories();
+            }}
+            className="px-4 py-2 bg-green-600 text-white rounded-lg hover:bg-green-700 transition-colors flex items-center gap-2"
+          >
+            <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M21 12a9 9 0 01-9 9m9-9a9 9 0 00-9-9m9 9H3m9 9a9 9 0 01-9-9m9 9c1.657 0 3-4.03 3-9s-1.343-9-3-9m0 18c-1.657 0-3-4.03-3-9s1.343-9 3-9m-9 9a9 9 0 019-9" />
+            </svg>
+            Fetch Web Recipes
+          </button>
+        </div>
       </div>
 
+      {goalMode && !nutritionBudget && pantryItems.length > 0 && (
+        <div className="mb-6 p-4 bg-gray-50 border border-gray-200 rounded-lg text-sm text-gray-600">
+          Set nutrition goals in your account settings to rank suggestions by them.
+        </div>
+      )}
+      {nutritionBudget && (
+        <div className="mb-6 p-4 bg-primary-50 border border-primary-200 rounded-lg text-sm text-gray-700">
+          <span className="font-semibold">Left for this meal:</span>{' '}
+          {[
+            nutritionBudget.maxKcal !== null && `up to ${nutritionBudget.maxKcal} kcal`,
+            nutritionBudget.maxSodium !== null && `up to ${nutritionBudget.maxSodium}mg sodium`,
+            nutritionBudget.minProtein !== null && `at least ${nutritionBudget.minProtein}g protein`,
+            nutritionBudget.proteinStillNeeded ? `${nutritionBudget.proteinStillNeeded}g protein still to go today` : null,
+          ].filter(Boolean).join(', ') || 'no limits'}
+          <span className="text-gray-500">
+            {' '}({nutritionBudget.mealsToday} {nutritionBudget.mealsToday === 1 ? 'meal' : 'meals'} cooked today, {nutritionBudget.eatenToday.kcal} kcal)
+          </span>
+        </div>
+      )}
+
       {/* Floating Add Recipe Button */}
       <button
         onClick={() => setShowCreateForm(true)}
@@ -399,6 +796,35 @@ const Recipes = ({ userId, user }: RecipesProps) => {
         </div>
       )}
 
+      {/* Hidden Recipes Section */}
+      {showHidden && pantryItems.length > 0 && (
+        <section className="mt-8">
+          <h2 className="text-2xl font-bold text-gray-800 mb-4">Hidden Recipes</h2>
+          {hiddenRecipes.length === 0 ? (
+            <p className="text-gray-500">None of your suggestions were hidden by your diets, allergies or nutrition goals.</p>
+          ) : (
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+              {hiddenRecipes.map(recipe => (
+                <div
+                  key={recipe.id}
+                  onClick={() => setSelectedRecipe(recipe)}
+                  className="bg-gray-50 border border-gray-200 rounded-lg p-4 cursor-pointer hover:border-gray-400 transition-colors"
+                >
+                  <h3 className="font-semibold text-gray-700 mb-2">{recipe.name}</h3>
+                  <ul className="space-y-1 text-sm">
+                    {(recipe.exclusionReasons || []).map((reason, index) => (
+                      <li key={index} className={reason.rule === 'allergy' ? 'text-red-700' : 'text-amber-700'}>
+                        {exclusionLabel(reason)}: {reason.detail}
+                      </li>
+                    ))}
+                  </ul>
+                </div>
+              ))}
+            </div>
+          )}
+        </section>
+      )}
+
       {/* Create Recipe Modal */}
       {showCreateForm && (
         <CreateRecipeModal
@@ -411,6 +837,20 @@ const Recipes = ({ userId, user }: RecipesProps) => {
         />
       )}
 
+      {/* Edit Recipe Modal */}
+      {editingRecipe && (
+        <CreateRecipeModal
+          recipe={editingRecipe}
+          onClose={() => setEditingRecipe(null)}
+          onSuccess={() => {
+            setEditingRecipe(null);
+            setSelectedRecipe(null);
+            loadPantryAndSuggestions();
+          }}
+          availableIngredients={availableIngredients}
+        />
+      )}
+
       {/* Fetch Web Recipes Modal */}
       {showFetchWebForm && (
         <FetchWebRecipesModal
@@ -437,6 +877,22 @@ const Recipes = ({ userId, user }: RecipesProps) => {
               <div className="flex justify-between items-start mb-4">
                 <h2 className="text-3xl font-bold text-gray-800">{selectedRecipe.name}</h2>
                 <div className="flex items-center gap-2">
+                  {canEditRecipe(selectedRecipe) && (
+                    <>
+                      <button
+                        onClick={() => handleEditRecipe(selectedRecipe)}
+                        className="px-3 py-1 text-sm border border-gray-300 text-gray-700 rounded-lg hover:bg-gray-100 transition-colors"
+                      >
+                        Edit
+                      </button>
+                      <button
+                        onClick={() => handleDeleteRecipe(selectedRecipe)}
+                        className="px-3 py-1 text-sm border border-red-300 text-red-700 rounded-lg hover:bg-red-50 transition-colors"
+                      >
+                        Delete
+                      </button>
+                    </>
+                  )}
                   <button
                     onClick={() => handleLike(selectedRecipe.id, selectedRecipe.isLiked || false)}
                     className={`p-2 rounded-full transition-colors ${
@@ -507,8 +963,30 @@ const Recipes = ({ userId, user }: RecipesProps) => {
                   <div className="text-sm text-gray-600">Cook (min)</div>
                 </div>
                 <div className="text-center">
-                  <div className="text-2xl font-bold text-primary-600">{selectedRecipe.servings || 0}</div>
-                  <div className="text-sm text-gray-600">Serves</div>
+                  <div className="flex items-center justify-center gap-2">
+                    <button
+                      onClick={() => setServings(prev => Math.max(1, (prev || 1) - 1))}
+                      disabled={(servings || 1) <= 1}
+                      className="w-7 h-7 rounded-full bg-gray-100 text-gray-700 hover:bg-gray-200 disabled:opacity-40"
+                      title="Fewer servings"
+                    >
+                      −
+                    </button>
+                    <div className="text-2xl font-bold text-primary-600">{servings || selectedRecipe.servings || 0}</div>
+                    <button
+                      onClick={() => setServings(prev => (prev || 1) + 1)}
+                      className="w-7 h-7 rounded-full bg-gray-100 text-gray-700 hover:bg-gray-200"
+                      title="More servings"
+                    >
+                      +
+                    </button>
+                  </div>
+                  <div className="text-sm text-gray-600">
+                    Serves
+                    {servings !== null && selectedRecipe.servings > 0 && servings !== selectedRecipe.servings && (
+                      <span className="ml-1 text-xs text-gray-400">(recipe: {selectedRecipe.servings})</span>
+                    )}
+                  </div>
                 </div>
                 <div className="text-center">
                   <div className="text-2xl font-bold text-primary-600">{selectedRecipe.difficulty || 'N/A'}</div>
@@ -516,11 +994,49 @@ const Recipes = ({ userId, user }: RecipesProps) => {
                 </div>
               </div>
 
+              {recipeDetails && recipeDetails.allergenWarnings.length > 0 && (
+                <div className="mb-6 p-4 bg-red-50 border border-red-200 rounded-lg">
+                  <h3 className="font-semibold text-red-800 mb-2">Allergy warning</h3>
+                  <ul className="space-y-1 text-sm text-red-700">
+                    {recipeDetails.allergenWarnings.map(warning => (
+                      <li key={warning.ingredient}>
+                        {warning.ingredient} {warning.certainty === 'contains' ? 'contains' : 'may contain'}{' '}
+                        {warning.allergen || warning.allergy}
+                        {warning.via.length > 1 && ` (${warning.via.join(' → ')})`}
+                      </li>
+                    ))}
+                  </ul>
+                </div>
+              )}
+
               <div className="mb-6">
-                <h3 className="text-xl font-semibold text-gray-700 mb-3">Ingredients</h3>
+                <div className="flex items-center justify-between mb-3">
+                  <h3 className="text-xl font-semibold text-gray-700">Ingredients</h3>
+                  {getMissingIngredients(selectedRecipe).length > 0 && (
+                    <div className="ml-auto mr-3">
+                      <AddMissingButton recipe={selectedRecipe} />
+                    </div>
+                  )}
+                  <select
+                    value={units}
+                    onChange={(e) => setUnits(e.target.value as UnitSystem | 'original' | '')}
+                    className="text-sm px-2 py-1 border border-gray-300 rounded focus:outline-none focus:ring-2 focus:ring-primary-500"
+                    title="Units"
+                  >
+                    <option value="">My units</option>
+                    <option value="metric">Metric</option>
+                    <option value="imperial">Imperial</option>
+                    <option value="original">As written</option>
+                  </select>
+                </div>
                 <div className="space-y-2">
                   {(selectedRecipe.allIngredients || []).map((ingredient, idx) => {
-                    const inPantry = pantryItems.includes(ingredient);
+                    const inPantry = selectedRecipe.haveIngredients?.includes(ingredient) ?? pantryItems.includes(ingredient);
+                    const coveredBy = selectedRecipe.generalisedMatches?.find(match => match.ingredient === ingredient)?.pantryItem;
+                    const substitution = selectedRecipe.substitutions?.find(item => item.ingredient === ingredient);
+                    const line = recipeDetails?.ingredients.find(ing => ing.name === ingredient);
+                    const coverage = selectedRecipe.coverage?.find(item => item.name === ingredient);
+                    const partial = coverage?.status === 'partial';
                     return (
                       <div
                         key={idx}
@@ -531,11 +1047,50 @@ const Recipes = ({ userId, user }: RecipesProps) => {
                         <span className={inPantry ? 'text-green-600' : 'text-yellow-600'}>
                           {inPantry ? '✓' : '○'}
                         </span>
+                        {formatIngredientAmount(line) && (
+                          <span className="font-semibold text-gray-700">{formatIngredientAmount(line)}</span>
+                        )}
                         <span className={inPantry ? 'text-gray-700' : 'text-gray-600'}>
                           {ingredient}
                         </span>
+                        {line?.note && (
+                          <span className="text-xs text-gray-500 italic">({line.note})</span>
+                        )}
+                        {coveredBy && (
+                          <span className="text-xs text-green-700">using your {coveredBy}</span>
+                        )}
+                        {substitution && (
+                          <span className="text-xs text-green-700" title={substitution.notes || undefined}>
+                            swap in {substitution.pantryItem}
+                            {substitution.ratio !== 1 && ` (${substitution.ratio}× the amount)`}
+                            {substitution.notes && ` – ${substitution.notes}`}
+                          </span>
+                        )}
                         {!inPantry && (
-                          <span className="text-xs text-yellow-600 ml-auto">Missing</span>
+                          <span className="text-xs text-yellow-600 ml-auto flex items-center gap-2">
+                            {substituteOptions[ingredient] === undefined ? (
+                              <button onClick={() => loadSubstitutes(ingredient)} className="text-primary-600 hover:underline">
+                                Substitutes?
+                              </button>
+                            ) : (
+                              <span className="text-gray-600">
+                                {substituteOptions[ingredient].length === 0
+                                  ? 'No substitutes'
+                                  : `Try ${substituteOptions[ingredient]
+                                    .map(option => option.ratio === 1 ? option.name : `${option.name} (${option.ratio}×)`)
+                                    .join(', ')}`}
+                              </span>
+                            )}
+                            Missing
+                          </span>
+                        )}
+                        {partial && coverage?.available && (
+                          <span className="text-xs text-orange-600 ml-auto">
+                            Only {[coverage.available.quantity, coverage.available.unit].filter(v => v !== null && v !== '').join(' ')} ({Math.round(coverage.coverage * 100)}%)
+                          </span>
+                        )}
+                        {coverage?.status === 'unknown' && (
+                          <span className="text-xs text-gray-500 ml-auto">Amount unknown, check you have enough</span>
                         )}
                       </div>
                     );
@@ -543,6 +1098,101 @@ const Recipes = ({ userId, user }: RecipesProps) => {
                 </div>
               </div>
 
+              {recipeDetails?.nutrition && (
+                <div className="mb-6">
+                  <h3 className="text-xl font-semibold text-gray-700 mb-3">Nutrition per serving</h3>
+                  <div className="grid grid-cols-3 md:grid-cols-6 gap-2">
+                    {nutritionLabels.map(({ key, label, unit }) => (
+                      <div key={key} className="text-center p-2 bg-gray-50 rounded-lg">
+                        <div className="text-lg font-bold text-primary-600">
+                          {recipeDetails.nutrition!.perServing[key]}{unit}
+                        </div>
+                        <div className="text-xs text-gray-600">{label}</div>
+                      </div>
+                    ))}
+                  </div>
+                  {recipeDetails.nutrition.missing.length > 0 && (
+                    <p className="text-xs text-gray-500 mt-2">
+                      Not counted: {recipeDetails.nutrition.missing.join(', ')}
+                    </p>
+                  )}
+                </div>
+              )}
+
+              <div className="mb-6">
+                <h3 className="text-xl font-semibold text-gray-700 mb-3">Instructions</h3>
+                {!recipeDetails ? (
+                  <p className="text-gray-500 text-sm">Loading instructions...</p>
+                ) : recipeDetails.steps.length === 0 ? (
+                  <p className="text-gray-500 text-sm">No instructions available</p>
+                ) : (
+                  <ol className="space-y-3">
+                    {recipeDetails.steps.map((step, idx) => (
+                      <li key={idx} className="flex gap-3">
+                        <span className="flex-shrink-0 w-7 h-7 rounded-full bg-primary-600 text-white text-sm font-semibold flex items-center justify-center">
+                          {step.order || idx + 1}
+                        </span>
+                        <div className="flex-1">
+                          <p className="text-gray-700">{step.text}</p>
+                          {(formatStepMeta(step) || (step.ingredients || []).length > 0) && (
+                            <div className="flex flex-wrap gap-2 mt-1 text-xs">
+                              {formatStepMeta(step) && (
+                                <span className="px-2 py-0.5 bg-blue-50 text-blue-700 rounded">{formatStepMeta(step)}</span>
+                              )}
+                              {(step.ingredients || []).map(ing => (
+                                <span key={ing} className="px-2 py-0.5 bg-gray-100 text-gray-600 rounded">{ing}</span>
+                              ))}
+                            </div>
+                          )}
+                        </div>
+                      </li>
+                    ))}
+                  </ol>
+                )}
+              </div>
+
+              <div className="mb-6 p-4 bg-gray-50 rounded-lg">
+                {lastCook?.recipeId === selectedRecipe.id ? (
+                  <div className="flex flex-wrap items-center gap-3">
+                    <div className="flex-1 text-sm text-gray-700">
+                      <div className="font-semibold text-green-700 mb-1">✓ Pantry updated</div>
+                      {lastCook.deductions.length > 0 ? (
+                        <div>
+                          Used {lastCook.deductions.map(item =>
+                            `${[item.used.quantity, item.used.unit].filter(v => v !== null && v !== '').join(' ')} ${item.name}${item.removed ? ' (used up)' : ''}`
+                          ).join(', ')}
+                        </div>
+                      ) : (
+                        <div>Nothing with a known quantity was taken from your pantry.</div>
+                      )}
+                      {lastCook.skipped.length > 0 && (
+                        <div className="text-xs text-gray-500 mt-1">Not deducted: {lastCook.skipped.join(', ')}</div>
+                      )}
+                    </div>
+                    <button
+                      onClick={handleUndoCooked}
+                      disabled={cooking}
+                      className="px-4 py-2 bg-white border border-gray-300 text-gray-700 rounded-lg hover:bg-gray-100 disabled:opacity-50"
+                    >
+                      Undo
+                    </button>
+                  </div>
+                ) : (
+                  <div className="flex flex-wrap items-center justify-between gap-3">
+                    <span className="text-sm text-gray-600">
+                      Made this? Take {servings || selectedRecipe.servings || 1} serving{(servings || selectedRecipe.servings || 1) === 1 ? '' : 's'} worth of ingredients out of your pantry.
+                    </span>
+                    <button
+                      onClick={() => handleCooked(selectedRecipe)}
+                      disabled={cooking}
+                      className="px-4 py-2 bg-primary-600 text-white rounded-lg hover:bg-primary-700 transition-colors disabled:opacity-50"
+                    >
+                      {cooking ? 'Updating...' : 'I cooked this'}
+                    </button>
+                  </div>
+                )}
+              </div>
+
               <div className="mb-6">
                 <h3 className="text-xl font-semibold text-gray-700 mb-3">Dietary Tags</h3>
                 <div className="flex flex-wrap gap-2">
@@ -568,29 +1218,35 @@ const Recipes = ({ userId, user }: RecipesProps) => {
   );
 };
 
-// Create Recipe Modal Component
+// Create Recipe Modal Component. Pass a recipe to edit it instead.
 const CreateRecipeModal = ({
+  recipe,
   onClose,
   onSuccess,
   availableIngredients
 }: {
+  recipe?: EditableRecipe;
   onClose: () => void;
   onSuccess: () => void;
   availableIngredients: string[];
 }) => {
-  const [name, setName] = useState('');
-  const [description, setDescription] = useState('');
-  const [prepTime, setPrepTime] = useState<number>(0);
-  const [cookTime, setCookTime] = useState<number>(0);
-  const [servings, setServings] = useState<number>(1);
-  const [difficulty, setDifficulty] = useState('Easy');
-  const [dietaryTags, setDietaryTags] = useState<string[]>([]);
-  const [ingredients, setIngredients] = useState<string[]>([]);
+  const [name, setName] = useState(recipe?.name || '');
+  const [description, setDescription] = useState(recipe?.description || '');
+  const [prepTime, setPrepTime] = useState<number>(recipe?.prepTime || 0);
+  const [cookTime, setCookTime] = useState<number>(recipe?.cookTime || 0);
+  const [servings, setServings] = useState<number>(recipe?.servings || 1);
+  const [difficulty, setDifficulty] = useState(recipe?.difficulty || 'Easy');
+  const [dietaryTags, setDietaryTags] = useState<string[]>(recipe?.dietaryTags || []);
+  const [ingredients, setIngredients] = useState<RecipeIngredientLine[]>(recipe?.ingredients || []);
   const [newIngredient, setNewIngredient] = useState('');
+  const [newAmount, setNewAmount] = useState('');
+  const [newUnit, setNewUnit] = useState('');
+  const [newNote, setNewNote] = useState('');
+  const [steps, setSteps] = useState<RecipeStep[]>(recipe?.steps || []);
   const [saving, setSaving] = useState(false);
   const [error, setError] = useState<string | null>(null);
 
-  const dietaryOptions = ['vegetarian', 'vegan', 'gluten-free', 'dairy-free', 'keto', 'paleo', 'low-carb', 'nut-free', 'pescatarian'];
+  const dietaryOptions = ['vegetarian', 'vegan', 'gluten-free', 'dairy-free', 'keto', 'paleo', 'low-carb', 'nut-free', 'pescatarian', 'halal', 'kosher'];
 
   const toggleDietaryTag = (tag: string) => {
     setDietaryTags(prev =>
@@ -600,14 +1256,53 @@ const CreateRecipeModal = ({
 
   const addIngredient = () => {
     const trimmed = newIngredient.trim();
-    if (trimmed && !ingredients.includes(trimmed)) {
-      setIngredients([...ingredients, trimmed]);
+    if (trimmed && !ingredients.some(line => line.name === trimmed)) {
+      setIngredients([
+        ...ingredients,
+        { name: trimmed, amount: newAmount.trim(), unit: newUnit.trim(), note: newNote.trim() },
+      ]);
       setNewIngredient('');
+      setNewAmount('');
+      setNewUnit('');
+      setNewNote('');
     }
   };
 
   const removeIngredient = (ing: string) => {
-    setIngredients(prev => prev.filter(i => i !== ing));
+    setIngredients(prev => prev.filter(line => line.name !== ing));
+    setSteps(prev => prev.map(step => ({
+      ...step,
+      ingredients: (step.ingredients || []).filter(i => i !== ing),
+    })));
+  };
+
+  const addStep = () => {
+    setSteps(prev => [...prev, { text: '', durationMinutes: null, temperature: null, temperatureUnit: 'C', ingredients: [] }]);
+  };
+
+  const updateStep = (index: number, changes: Partial<RecipeStep>) => {
+    setSteps(prev => prev.map((step, i) => (i === index ? { ...step, ...changes } : step)));
+  };
+
+  const removeStep = (index: number) => {
+    setSteps(prev => prev.filter((_, i) => i !== index));
+  };
+
+  const moveStep = (index: number, direction: -1 | 1) => {
+    const target = index + direction;
+    if (target < 0 || target >= steps.length) return;
+    setSteps(prev => {
+      const next = [...prev];
+      [next[index], next[target]] = [next[target], next[index]];
+      return next;
+    });
+  };
+
+  const toggleStepIngredient = (index: number, ing: string) => {
+    const current = steps[index].ingredients || [];
+    updateStep(index, {
+      ingredients: current.includes(ing) ? current.filter(i => i !== ing) : [...current, ing],
+    });
   };
 
   const handleSubmit = async (e: React.FormEvent) => {
@@ -626,7 +1321,7 @@ const CreateRecipeModal = ({
 
     setSaving(true);
     try {
-      await createRecipe({
+      const recipeData = {
         name: name.trim(),
         description: description.trim(),
         prepTime,
@@ -634,11 +1329,20 @@ const CreateRecipeModal = ({
         servings,
         difficulty,
         dietaryTags,
-        ingredients
-      });
+        ingredients,
+        steps: steps.filter(step => step.text.trim())
+      };
+      const data = recipe ? await updateRecipe(recipe.id, recipeData) : await createRecipe(recipeData);
+      const contradictions: TagContradiction[] = data?.tagContradictions || [];
+      if (contradictions.length > 0) {
+        alert(
+          'Some tags were removed because the ingredients contradict them:\n' +
+          contradictions.map(c => `${c.tag}: ${c.ingredients.join(', ')}`).join('\n')
+        );
+      }
       onSuccess();
     } catch (err: any) {
-      setError(err?.response?.data?.error || err?.message || 'Failed to create recipe');
+      setError(err?.response?.data?.error || err?.message || (recipe ? 'Failed to save recipe' : 'Failed to create recipe'));
     } finally {
       setSaving(false);
     }
@@ -655,7 +1359,7 @@ const CreateRecipeModal = ({
       >
         <div className="p-6">
           <div className="flex justify-between items-center mb-6">
-            <h2 className="text-2xl font-bold text-gray-800">Create New Recipe</h2>
+            <h2 className="text-2xl font-bold text-gray-800">{recipe ? 'Edit Recipe' : 'Create New Recipe'}</h2>
             <button
               onClick={onClose}
               className="text-gray-500 hover:text-gray-700 text-2xl"
@@ -754,6 +1458,9 @@ const CreateRecipeModal = ({
               <label className="block text-sm font-medium text-gray-700 mb-2">
                 Dietary Tags
               </label>
+              <p className="text-xs text-gray-500 mb-2">
+                Vegetarian, vegan, gluten-free, dairy-free and nut-free are also worked out from the ingredients.
+              </p>
               <div className="flex flex-wrap gap-2">
                 {dietaryOptions.map(tag => (
                   <button
@@ -777,6 +1484,20 @@ const CreateRecipeModal = ({
                 Ingredients *
               </label>
               <div className="flex gap-2 mb-2">
+                <input
+                  type="text"
+                  value={newAmount}
+                  onChange={(e) => setNewAmount(e.target.value)}
+                  placeholder="Amount"
+                  className="w-20 px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-primary-500"
+                />
+                <input
+                  type="text"
+                  value={newUnit}
+                  onChange={(e) => setNewUnit(e.target.value)}
+                  placeholder="Unit"
+                  className="w-20 px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-primary-500"
+                />
                 <input
                   type="text"
                   value={newIngredient}
@@ -787,9 +1508,22 @@ const CreateRecipeModal = ({
                       addIngredient();
                     }
                   }}
+                  list="available-ingredients"
                   placeholder="Add ingredient..."
                   className="flex-1 px-4 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-primary-500"
                 />
+                <datalist id="available-ingredients">
+                  {availableIngredients.map(ing => (
+                    <option key={ing} value={ing} />
+                  ))}
+                </datalist>
+                <input
+                  type="text"
+                  value={newNote}
+                  onChange={(e) => setNewNote(e.target.value)}
+                  placeholder="Note"
+                  className="w-28 px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-primary-500"
+                />
                 <button
                   type="button"
                   onClick={addIngredient}
@@ -799,15 +1533,19 @@ const CreateRecipeModal = ({
                 </button>
               </div>
               <div className="flex flex-wrap gap-2">
-                {ingredients.map(ing => (
+                {ingredients.map(line => (
                   <span
-                    key={ing}
+                    key={line.name}
                     className="px-3 py-1 bg-green-100 text-green-800 rounded-full text-sm flex items-center gap-2"
                   >
-                    {ing}
+                    {formatIngredientAmount(line) && (
+                      <span className="font-semibold">{formatIngredientAmount(line)}</span>
+                    )}
+                    {line.name}
+                    {line.note && <span className="text-xs italic">({line.note})</span>}
                     <button
                       type="button"
-                      onClick={() => removeIngredient(ing)}
+                      onClick={() => removeIngredient(line.name)}
                       className="text-green-800 hover:text-green-900"
                     >
                       ×
@@ -817,13 +1555,121 @@ const CreateRecipeModal = ({
               </div>
             </div>
 
+            <div>
+              <div className="flex justify-between items-center mb-2">
+                <label className="block text-sm font-medium text-gray-700">
+                  Instructions
+                </label>
+                <button
+                  type="button"
+                  onClick={addStep}
+                  className="px-3 py-1 bg-primary-600 text-white rounded-lg hover:bg-primary-700 transition-colors text-sm"
+                >
+                  Add Step
+                </button>
+              </div>
+              {steps.length === 0 && (
+                <p className="text-sm text-gray-500">No steps yet.</p>
+              )}
+              <ol className="space-y-3">
+                {steps.map((step, index) => (
+                  <li key={index} className="border border-gray-200 rounded-lg p-3">
+                    <div className="flex justify-between items-center mb-2">
+                      <span className="text-sm font-semibold text-gray-700">Step {index + 1}</span>
+                      <div className="flex gap-1">
+                        <button
+                          type="button"
+                          onClick={() => moveStep(index, -1)}
+                          disabled={index === 0}
+                          className="px-2 text-gray-500 hover:text-gray-700 disabled:opacity-30"
+                          title="Move up"
+                        >
+                          ↑
+                        </button>
+                        <button
+                          type="button"
+                          onClick={() => moveStep(index, 1)}
+                          disabled={index === steps.length - 1}
+                          className="px-2 text-gray-500 hover:text-gray-700 disabled:opacity-30"
+                          title="Move down"
+                        >
+                          ↓
+                        </button>
+                        <button
+                          type="button"
+                          onClick={() => removeStep(index)}
+                          className="px-2 text-red-500 hover:text-red-700"
+                          title="Remove step"
+                        >
+                          ×
+                        </button>
+                      </div>
+                    </div>
+                    <textarea
+                      value={step.text}
+                      onChange={(e) => updateStep(index, { text: e.target.value })}
+                      rows={2}
+                      placeholder="Describe this step..."
+                      className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-primary-500 mb-2"
+                    />
+                    <div className="flex flex-wrap gap-2 items-center mb-2">
+                      <input
+                        type="number"
+                        value={step.durationMinutes ?? ''}
+                        onChange={(e) => updateStep(index, { durationMinutes: e.target.value === '' ? null : Number(e.target.value) })}
+                        min="0"
+                        placeholder="Minutes"
+                        className="w-24 px-2 py-1 border border-gray-300 rounded focus:outline-none focus:ring-2 focus:ring-primary-500"
+                      />
+                      <input
+                        type="number"
+                        value={step.temperature ?? ''}
+                        onChange={(e) => updateStep(index, { temperature: e.target.value === '' ? null : Number(e.target.value) })}
+                        min="0"
+                        placeholder="Temp"
+                        className="w-20 px-2 py-1 border border-gray-300 rounded focus:outline-none focus:ring-2 focus:ring-primary-500"
+                      />
+                      <select
+                        value={step.temperatureUnit || 'C'}
+                        onChange={(e) => updateStep(index, { temperatureUnit: e.target.value as 'C' | 'F' })}
+                        className="px-2 py-1 border border-gray-300 rounded focus:outline-none focus:ring-2 focus:ring-primary-500"
+                      >
+                        <option value="C">°C</option>
+                        <option value="F">°F</option>
+                      </select>
+                    </div>
+                    {ingredients.length > 0 && (
+                      <div className="flex flex-wrap gap-1">
+                        {ingredients.map(({ name: ing }) => (
+                          <button
+                            key={ing}
+                            type="button"
+                            onClick={() => toggleStepIngredient(index, ing)}
+                            className={`px-2 py-0.5 rounded-full text-xs transition-colors ${
+                              (step.ingredients || []).includes(ing)
+                                ? 'bg-green-600 text-white'
+                                : 'bg-gray-100 text-gray-700 hover:bg-gray-200'
+                            }`}
+                          >
+                            {ing}
+                          </button>
+                        ))}
+                      </div>
+                    )}
+                  </li>
+                ))}
+              </ol>
+            </div>
+
             <div className="flex gap-4 pt-4">
               <button
                 type="submit"
                 disabled={saving}
                 className="flex-1 px-4 py-2 bg-primary-600 text-white rounded-lg hover:bg-primary-700 transition-colors disabled:opacity-50"
               >
-                {saving ? 'Creating...' : 'Create Recipe'}
+                {recipe
+                  ? (saving ? 'Saving...' : 'Save Changes')
+                  : (saving ? 'Creating...' : 'Create Recipe')}
               </button>
               <button
                 type="button"
@@ -0,0 +1,269 @@
+import { useState, useEffect } from 'react';
+import {
+  getShoppingList,
+  addToShoppingList,
+  checkShoppingListItem,
+  removeFromShoppingList,
+  clearShoppingList,
+  getAllIngredients,
+  ShoppingListItem,
+  StorageLocation,
+} from '../services/api';
+
+interface ShoppingListProps {
+  userId: string;
+}
+
+const formatAmount = (item: ShoppingListItem) => {
+  const main = item.quantity === null
+    ? item.unit || ''
+    : item.unit ? `${item.quantity} ${item.unit}` : `${item.quantity}`;
+  const extra = (item.extra || []).map(entry => (entry.unit ? `${entry.quantity} ${entry.unit}` : `${entry.quantity}`));
+  return [main, ...extra].filter(Boolean).join(' plus ');
+};
+
+const ShoppingList = ({ userId }: ShoppingListProps) => {
+  const [items, setItems] = useState<ShoppingListItem[]>([]);
+  const [ingredientNames, setIngredientNames] = useState<string[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const [newName, setNewName] = useState('');
+  const [newQuantity, setNewQuantity] = useState('');
+  const [newUnit, setNewUnit] = useState('');
+  const [moveToPantry, setMoveToPantry] = useState(true);
+  const [pantryLocation, setPantryLocation] = useState<StorageLocation | ''>('');
+
+  useEffect(() => {
+    loadData();
+  }, [userId]);
+
+  const loadData = async () => {
+    setLoading(true);
+    try {
+      const [listData, ingredientsData] = await Promise.all([
+        getShoppingList(userId),
+        getAllIngredients(),
+      ]);
+      setItems(listData.items);
+      setIngredientNames((ingredientsData.ingredients || []).map((ing: any) => ing.name));
+    } catch (error) {
+      console.error('Failed to load shopping list:', error);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  // Run a list update and show the list the server sends back
+  const update = async (action: () => Promise<{ items: ShoppingListItem[] }>, failureMessage: string) => {
+    setSaving(true);
+    try {
+      const data = await action();
+      setItems(data.items);
+    } catch (error) {
+      console.error(failureMessage, error);
+      alert(failureMessage);
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleAdd = async () => {
+    const name = newName.trim();
+    if (!name) return;
+
+    await update(
+      () => addToShoppingList(userId, [{
+        name,
+        quantity: newQuantity.trim() === '' ? null : Number(newQuantity),
+        unit: newUnit.trim() || null,
+      }]),
+      'Failed to add item to shopping list'
+    );
+    setNewName('');
+    setNewQuantity('');
+    setNewUnit('');
+  };
+
+  const handleToggle = (item: ShoppingListItem) => update(
+    () => checkShoppingListItem(userId, item.name, !item.checked, {
+      moveToPantry: !item.checked && moveToPantry,
+      location: pantryLocation || undefined,
+    }),
+    'Failed to update shopping list item'
+  );
+
+  const handleRemove = (item: ShoppingListItem) => update(
+    () => removeFromShoppingList(userId, [item.name]),
+    'Failed to remove item from shopping list'
+  );
+
+  const handleClear = (checkedOnly: boolean) => {
+    if (!checkedOnly && !confirm('Remove everything from your shopping list?')) return;
+    update(() => clearShoppingList(userId, checkedOnly), 'Failed to clear shopping list');
+  };
+
+  const toBuy = items.filter(item => !item.checked);
+  const checked = items.filter(item => item.checked);
+
+  if (loading) {
+    return (
+      <div className="flex justify-center items-center h-64">
+        <div className="text-xl text-gray-600">Loading...</div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="max-w-3xl mx-auto">
+      <h1 className="text-3xl font-bold text-gray-800 mb-8">Shopping List</h1>
+
+      {/* Add Item */}
+      <div className="bg-white rounded-lg shadow-lg p-6 mb-8">
+        <div className="flex flex-wrap gap-2">
+          <input
+            type="number"
+            value={newQuantity}
+            onChange={(e) => setNewQuantity(e.target.value)}
+            min="0"
+            step="any"
+            placeholder="Qty"
+            className="w-20 px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-primary-500"
+          />
+          <input
+            type="text"
+            value={newUnit}
+            onChange={(e) => setNewUnit(e.target.value)}
+            placeholder="Unit"
+            className="w-24 px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-primary-500"
+          />
+          <input
+            type="text"
+            list="shopping-list-ingredients"
+            value={newName}
+            onChange={(e) => setNewName(e.target.value)}
+            onKeyDown={(e) => e.key === 'Enter' && handleAdd()}
+            placeholder="Add an ingredient..."
+            className="flex-1 min-w-[10rem] px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-primary-500"
+          />
+          <datalist id="shopping-list-ingredients">
+            {ingredientNames.map(name => (
+              <option key={name} value={name} />
+            ))}
+          </datalist>
+          <button
+            onClick={handleAdd}
+            disabled={saving || !newName.trim()}
+            className="px-6 py-2 bg-primary-600 text-white rounded-lg hover:bg-primary-700 transition-colors disabled:opacity-50"
+          >
+            Add
+          </button>
+        </div>
+      </div>
+
+      {/* To Buy */}
+      <div className="bg-white rounded-lg shadow-lg p-6 mb-8">
+        <div className="flex flex-wrap justify-between items-center gap-4 mb-4">
+          <h2 className="text-2xl font-semibold text-gray-700">To Buy ({toBuy.length})</h2>
+          <div className="flex flex-wrap items-center gap-2 text-sm text-gray-700">
+            <label className="flex items-center gap-2 cursor-pointer">
+              <input
+                type="checkbox"
+                checked={moveToPantry}
+                onChange={(e) => setMoveToPantry(e.target.checked)}
+                className="w-4 h-4 text-primary-600 rounded focus:ring-primary-500"
+              />
+              Move checked items to pantry
+            </label>
+            {moveToPantry && (
+              <select
+                value={pantryLocation}
+                onChange={(e) => setPantryLocation(e.target.value as StorageLocation | '')}
+                className="px-2 py-1 border border-gray-300 rounded focus:outline-none focus:ring-2 focus:ring-primary-500"
+              >
+                <option value="">Any location</option>
+                <option value="fridge">Fridge</option>
+                <option value="freezer">Freezer</option>
+                <option value="cupboard">Cupboard</option>
+              </select>
+            )}
+          </div>
+        </div>
+        {toBuy.length === 0 ? (
+          <p className="text-gray-500">Nothing to buy. Add items above or from a recipe's missing ingredients.</p>
+        ) : (
+          <ul className="divide-y divide-gray-100">
+            {toBuy.map(item => (
+              <li key={item.name} className="flex items-center gap-3 py-2">
+                <input
+                  type="checkbox"
+                  checked={false}
+                  onChange={() => handleToggle(item)}
+                  disabled={saving}
+                  className="w-5 h-5 text-primary-600 rounded focus:ring-primary-500"
+                />
+                <span className="text-gray-800">{item.name}</span>
+                {formatAmount(item) && (
+                  <span className="text-sm text-primary-600">· {formatAmount(item)}</span>
+                )}
+                {item.note && <span className="text-xs text-gray-500 italic">({item.note})</span>}
+                <button
+                  onClick={() => handleRemove(item)}
+                  disabled={saving}
+                  className="ml-auto text-gray-400 hover:text-red-600"
+                  title="Remove"
+                >
+                  ×
+                </button>
+              </li>
+            ))}
+          </ul>
+        )}
+      </div>
+
+      {/* Checked Off */}
+      {checked.length > 0 && (
+        <div className="bg-white rounded-lg shadow-lg p-6 mb-8">
+          <div className="flex justify-between items-center mb-4">
+            <h2 className="text-2xl font-semibold text-gray-700">Checked Off ({checked.length})</h2>
+            <button
+              onClick={() => handleClear(true)}
+              disabled={saving}
+              className="text-sm text-gray-600 hover:text-red-600"
+            >
+              Clear checked
+            </button>
+          </div>
+          <ul className="divide-y divide-gray-100">
+            {checked.map(item => (
+              <li key={item.name} className="flex items-center gap-3 py-2">
+                <input
+                  type="checkbox"
+                  checked
+                  onChange={() => handleToggle(item)}
+                  disabled={saving}
+                  className="w-5 h-5 text-primary-600 rounded focus:ring-primary-500"
+                />
+                <span className="text-gray-400 line-through">{item.name}</span>
+                {formatAmount(item) && (
+                  <span className="text-sm text-gray-400">· {formatAmount(item)}</span>
+                )}
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+
+      {items.length > 0 && (
+        <button
+          onClick={() => handleClear(false)}
+          disabled={saving}
+          className="px-4 py-2 bg-red-600 text-white rounded-lg hover:bg-red-700 transition-colors disabled:opacity-50"
+        >
+          Clear list
+        </button>
+      )}
+    </div>
+  );
+};
+
+export default ShoppingList;
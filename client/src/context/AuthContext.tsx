@@ -1,5 +1,5 @@
 import { createContext, useContext, useState, useEffect, ReactNode } from 'react';
-import { getCurrentUser, login as loginApi, signup as signupApi } from '../services/api';
+import { getCurrentUser, login as loginApi, signup as signupApi, NutritionGoals, UnitSystem } from '../services/api';
 
 interface User {
   id: string;
@@ -9,6 +9,9 @@ interface User {
   profilePicture?: string | null;
   dietaryPreferences?: string[];
   allergies?: string[];
+  unitSystem?: UnitSystem | null;
+  nutritionGoals?: NutritionGoals;
+  role?: string | null;
 }
 
 interface AuthContextType {
@@ -41,9 +41,10 @@ api.interceptors.response.use(
     const isLikeEndpoint = error.config?.url?.includes('/like');
     const isRecipeSuggestions = error.config?.url?.includes('/recipes/suggestions');
 
-    // Only auto-logout on 401/403 for endpoints that require authentication
+    // Only auto-logout on 401 for endpoints that require authentication.
+    // 403 means the token is valid but the resource belongs to someone else.
     // Recipe suggestions uses optionalAuth, so don't logout on that
-    if ((error.response?.status === 401 || error.response?.status === 403) && !isLikeEndpoint && !isRecipeSuggestions) {
+    if (error.response?.status === 401 && !isLikeEndpoint && !isRecipeSuggestions) {
       localStorage.removeItem('token');
       localStorage.removeItem('user');
       // Only redirect if not already on login page
@@ -60,39 +61,199 @@ export const getUserProfile = async (userId: string) => {
   return response.data;
 };
 
+export type UnitSystem = 'metric' | 'imperial';
+
 export const updateUserPreferences = async (
   userId: string,
   dietaryPreferences: string[],
-  allergies: string[]
+  allergies: string[],
+  unitSystem?: UnitSystem | null
 ) => {
   const response = await api.put(`/users/${userId}/preferences`, {
     dietaryPreferences,
     allergies,
+    unitSystem,
   });
   return response.data;
 };
 
-export const getPantry = async (userId: string) => {
-  const response = await api.get(`/pantry/${userId}`);
+// Daily or per-meal nutrition targets; null means no target
+export interface GoalTargets {
+  kcal: number | null;
+  minProtein: number | null;
+  maxSodium: number | null;
+}
+
+export interface NutritionGoals {
+  daily: GoalTargets;
+  perMeal: GoalTargets;
+}
+
+// What is left of the goals for the next meal, counting today's cooked meals
+export interface NutritionBudget {
+  eatenToday: NutritionFacts;
+  mealsToday: number;
+  maxKcal: number | null;
+  maxSodium: number | null;
+  minProtein: number | null;
+  proteinStillNeeded: number | null;
+}
+
+// How well a suggestion fits the budget; score runs from 0 to 1
+export interface GoalFit {
+  score: number;
+  fits: boolean;
+  problems: string[];
+}
+
+export const updateNutritionGoals = async (userId: string, goals: NutritionGoals) => {
+  const response = await api.put(`/users/${userId}/nutrition-goals`, goals);
+  return response.data;
+};
+
+// The browser's time zone, so the server counts "today" as the user's day
+const clientTimeZone = () => Intl.DateTimeFormat().resolvedOptions().timeZone;
+
+export const getNutritionBudget = async (userId: string) => {
+  const response = await api.get(`/users/${userId}/nutrition-budget`, { params: { timeZone: clientTimeZone() } });
+  return response.data;
+};
+
+// A diet the user defines, e.g. low-FODMAP or "no cilantro"
+export interface CustomDiet {
+  id: string;
+  name: string;
+  forbiddenIngredients: string[];
+  forbiddenCategories: string[];
+  requiredTags: string[];
+  active: boolean;
+}
+
+export type CustomDietInput = Omit<CustomDiet, 'id'>;
+
+export const getCustomDiets = async (userId: string) => {
+  const response = await api.get(`/custom-diets/${userId}`);
+  return response.data;
+};
+
+export const createCustomDiet = async (userId: string, diet: CustomDietInput) => {
+  const response = await api.post(`/custom-diets/${userId}`, diet);
+  return response.data;
+};
+
+export const updateCustomDiet = async (userId: string, dietId: string, diet: CustomDietInput) => {
+  const response = await api.put(`/custom-diets/${userId}/${dietId}`, diet);
   return response.data;
 };
 
-export const addToPantry = async (userId: string, items: string[]) => {
+export const deleteCustomDiet = async (userId: string, dietId: string) => {
+  const response = await api.delete(`/custom-diets/${userId}/${dietId}`);
+  return response.data;
+};
+
+export type StorageLocation = 'fridge' | 'freezer' | 'cupboard';
+
+export const getPantry = async (userId: string, location?: StorageLocation) => {
+  const response = await api.get(`/pantry/${userId}`, { params: { location } });
+  return response.data;
+};
+
+export interface PantryItemInput {
+  name: string;
+  quantity?: number | null;
+  unit?: string | null;
+  note?: string | null;
+  purchasedOn?: string | null;
+  expiresOn?: string | null;
+  location?: StorageLocation | null;
+}
+
+export const addToPantry = async (userId: string, items: (string | PantryItemInput)[]) => {
   const response = await api.post(`/pantry/${userId}/items`, { items });
   return response.data;
 };
 
+export const updatePantryItem = async (
+  userId: string,
+  itemName: string,
+  updates: Omit<PantryItemInput, 'name'>
+) => {
+  const response = await api.patch(`/pantry/${userId}/items/${encodeURIComponent(itemName)}`, updates);
+  return response.data;
+};
+
 export const removeFromPantry = async (userId: string, items: string[]) => {
   const response = await api.delete(`/pantry/${userId}/items`, { data: { items } });
   return response.data;
 };
 
+export const movePantryItem = async (
+  userId: string,
+  itemName: string,
+  location: StorageLocation,
+  options: { extendExpiry?: boolean; shelfLifeDays?: number } = {}
+) => {
+  const response = await api.post(`/pantry/${userId}/items/${encodeURIComponent(itemName)}/move`, {
+    location,
+    ...options,
+  });
+  return response.data;
+};
+
+export const getExpiringItems = async (userId: string, days?: number) => {
+  const response = await api.get(`/pantry/${userId}/expiring`, { params: { days } });
+  return response.data;
+};
+
 export const getAllIngredients = async () => {
   const response = await api.get('/pantry/ingredients/all');
   return response.data;
 };
 
-export const getRecipeSuggestions = async (userId: string, pantryItems: string[]) => {
+export interface IngredientCoverage {
+  name: string;
+  // 'unknown' when the pantry amount can't be compared with the recipe's
+  status: 'full' | 'partial' | 'none' | 'unknown';
+  coverage: number;
+  required: { amount: string; unit: string } | null;
+  available: { quantity: number | null; unit: string | null } | null;
+}
+
+// A recipe ingredient covered by a substitute the user has in their pantry
+export interface IngredientSubstitution {
+  ingredient: string;
+  substitute: string;
+  pantryItem: string;
+  ratio: number;
+  notes: string | null;
+}
+
+// Why a suggestion was hidden: a diet or allergy the recipe breaks, or a
+// nutrition goal it misses when suggestions are filtered by goals
+export interface ExclusionReason {
+  rule: 'dietary-preference' | 'recipe-rule' | 'custom-diet' | 'allergy' | 'nutrition-goal';
+  ingredient: string | null;
+  ingredients?: string[];
+  preference: string | null;
+  allergy: string | null;
+  detail: string;
+}
+
+export const getRecipeSuggestions = async (
+  userId: string,
+  pantryItems: string[],
+  options: {
+    prioritizeExpiring?: boolean;
+    expiringWithinDays?: number;
+    matchMode?: 'names' | 'quantity';
+    maxMissing?: number;
+    cookableNow?: boolean;
+    avoidCookedWithinDays?: number;
+    allowSubstitutes?: boolean;
+    explain?: boolean;
+    goalMode?: 'rank' | 'filter';
+  } = {}
+) => {
   // Token is automatically added by the interceptor
   // Note: userId parameter is not sent - it's extracted from the token on the server
   const token = localStorage.getItem('token');
@@ -100,6 +261,8 @@ export const getRecipeSuggestions = async (userId: string, pantryItems: string[]
 
   const response = await api.post('/recipes/suggestions', {
     pantryItems,
+    timeZone: clientTimeZone(),
+    ...options,
   });
   return response.data;
 };
@@ -109,13 +272,97 @@ export const getAllRecipes = async () => {
   return response.data;
 };
 
-export const getRecipeDetails = async (recipeId: string) => {
-  const response = await api.get(`/recipes/${recipeId}`);
+export const getIngredientSubstitutes = async (name: string) => {
+  const response = await api.get(`/ingredients/${encodeURIComponent(name)}/substitutes`);
   return response.data;
 };
 
-// Create a new recipe
-export const createRecipe = async (recipeData: {
+// An allergen group users can pick, with the ingredients it covers
+export interface AllergenGroup {
+  id: string;
+  name: string;
+  aliases: string[];
+  ingredients: string[];
+  mayContain: string[];
+}
+
+// Why a recipe ingredient triggers one of the user's allergies
+export interface AllergenMatch {
+  ingredient: string;
+  allergy: string;
+  allergen: string | null;
+  via: string[];
+  certainty: 'contains' | 'may contain';
+}
+
+export const getAllergens = async () => {
+  const response = await api.get('/allergens');
+  return response.data;
+};
+
+export const getRecipeDetails = async (recipeId: string, servings?: number, units?: UnitSystem | 'original') => {
+  const response = await api.get(`/recipes/${recipeId}`, { params: { servings, units } });
+  return response.data;
+};
+
+export interface PantryDeduction {
+  name: string;
+  used: { quantity: number | null; unit: string | null };
+  remaining: number;
+  removed: boolean;
+}
+
+export const cookRecipe = async (recipeId: string, servings?: number) => {
+  const response = await api.post(`/recipes/${recipeId}/cook`, { servings });
+  return response.data;
+};
+
+export const undoCookRecipe = async (recipeId: string, cookId: string) => {
+  const response = await api.delete(`/recipes/${recipeId}/cook/${cookId}`);
+  return response.data;
+};
+
+export interface RecipeIngredientLine {
+  name: string;
+  amount?: string;
+  unit?: string;
+  note?: string;
+}
+
+export interface RecipeStep {
+  order?: number;
+  text: string;
+  durationMinutes?: number | null;
+  temperature?: number | null;
+  temperatureUnit?: 'C' | 'F' | null;
+  ingredients?: string[];
+}
+
+// A hand-entered dietary tag the recipe's ingredients break
+export interface TagContradiction {
+  tag: string;
+  ingredients: string[];
+}
+
+// Per 100 g values summed over a recipe; sodium in mg, the rest in g
+export interface NutritionFacts {
+  kcal: number;
+  protein: number;
+  carbs: number;
+  fat: number;
+  fibre: number;
+  sodium: number;
+}
+
+export interface RecipeNutrition {
+  perServing: NutritionFacts;
+  total: NutritionFacts;
+  servings: number;
+  // Ingredients left out because there is no data or no usable amount
+  missing: string[];
+}
+
+export interface RecipeInput {
   name: string;
   description?: string;
   prepTime?: number;
@@ -123,12 +370,27 @@ export const createRecipe = async (recipeData: {
   servings?: number;
   difficulty?: string;
   dietaryTags?: string[];
-  ingredients: string[];
-}) => {
+  ingredients: (string | RecipeIngredientLine)[];
+  steps?: RecipeStep[];
+}
+
+// Create a new recipe
+export const createRecipe = async (recipeData: RecipeInput) => {
   const response = await api.post('/recipes', recipeData);
   return response.data;
 };
 
+// Update a recipe the user created (or any recipe, for admins); only the fields sent change
+export const updateRecipe = async (recipeId: string, recipeData: Partial<RecipeInput>) => {
+  const response = await api.put(`/recipes/${recipeId}`, recipeData);
+  return response.data;
+};
+
+export const deleteRecipe = async (recipeId: string) => {
+  const response = await api.delete(`/recipes/${recipeId}`);
+  return response.data;
+};
+
 // Fetch recipes from web API
 export const fetchWebRecipes = async (options: {
   searchTerm?: string;
@@ -254,4 +516,158 @@ export const uploadProfilePicture = async (profilePicture: string) => {
   }
 
   return response.data;
-};
\ No newline at end of file
+};
+// Shopping list endpoints
+export interface ShoppingListItem {
+  name: string;
+  category: string | null;
+  quantity: number | null;
+  unit: string | null;
+  // Amounts in units that can't be converted into `unit`, e.g. 200 g next to 2 cups
+  extra: { quantity: number; unit: string | null }[];
+  note: string | null;
+  checked: boolean;
+  recipes: string[];
+}
+
+export interface ShoppingListItemInput {
+  name: string;
+  quantity?: number | null;
+  unit?: string | null;
+  note?: string | null;
+}
+
+export const getShoppingList = async (userId: string) => {
+  const response = await api.get(`/shopping-list/${userId}`);
+  return response.data;
+};
+
+export const addToShoppingList = async (userId: string, items: (string | ShoppingListItemInput)[]) => {
+  const response = await api.post(`/shopping-list/${userId}/items`, { items });
+  return response.data;
+};
+
+export const addRecipeToShoppingList = async (
+  userId: string,
+  recipeId: string,
+  options: { ingredients?: string[]; servings?: number } = {}
+) => {
+  const response = await api.post(`/shopping-list/${userId}/recipes/${recipeId}`, options);
+  return response.data;
+};
+
+export const checkShoppingListItem = async (
+  userId: string,
+  itemName: string,
+  checked: boolean,
+  options: { moveToPantry?: boolean; location?: StorageLocation } = {}
+) => {
+  const response = await api.patch(
+    `/shopping-list/${userId}/items/${encodeURIComponent(itemName)}`,
+    { checked, ...options }
+  );
+  return response.data;
+};
+
+export const removeFromShoppingList = async (userId: string, items: string[]) => {
+  const response = await api.delete(`/shopping-list/${userId}/items`, { data: { items } });
+  return response.data;
+};
+
+export const clearShoppingList = async (userId: string, checkedOnly = false) => {
+  const response = await api.delete(`/shopping-list/${userId}`, { params: { checkedOnly } });
+  return response.data;
+};
+
+// Meal plan endpoints
+export type MealSlot = 'breakfast' | 'lunch' | 'dinner' | 'snack';
+
+export interface PlannedMeal {
+  id: string;
+  day: string;
+  slot: MealSlot;
+  servings: number;
+  recipe: { id: string; name: string; servings: number; imageUrl: string | null };
+}
+
+export interface MealPlan {
+  weekStart: string;
+  days: string[];
+  meals: PlannedMeal[];
+}
+
+// A quantity plus amounts in units that can't be converted into it
+export interface CombinedQuantity {
+  quantity: number | null;
+  unit: string | null;
+  extra: { quantity: number; unit: string | null }[];
+}
+
+export interface IngredientDemand {
+  name: string;
+  required: CombinedQuantity;
+  available: CombinedQuantity | null;
+  // unknown when part of what is needed couldn't be compared with the pantry
+  shortfall: (CombinedQuantity & { unknown: boolean }) | null;
+  recipes: string[];
+}
+
+export const getMealPlan = async (userId: string, weekStart?: string) => {
+  const response = await api.get(`/meal-plans/${userId}`, { params: { weekStart } });
+  return response.data;
+};
+
+export const addPlannedMeal = async (
+  userId: string,
+  meal: { day: string; slot: MealSlot; recipeId: string; servings?: number }
+) => {
+  const response = await api.post(`/meal-plans/${userId}/meals`, meal);
+  return response.data;
+};
+
+export const updatePlannedMeal = async (
+  userId: string,
+  mealId: string,
+  updates: { day?: string; slot?: MealSlot; recipeId?: string; servings?: number }
+) => {
+  const response = await api.patch(`/meal-plans/${userId}/meals/${mealId}`, updates);
+  return response.data;
+};
+
+export const removePlannedMeal = async (userId: string, mealId: string) => {
+  const response = await api.delete(`/meal-plans/${userId}/meals/${mealId}`);
+  return response.data;
+};
+
+export const clearMealPlan = async (userId: string, weekStart: string) => {
+  const response = await api.delete(`/meal-plans/${userId}`, { params: { weekStart } });
+  return response.data;
+};
+
+export const getMealPlanDemand = async (userId: string, weekStart: string) => {
+  const response = await api.get(`/meal-plans/${userId}/demand`, { params: { weekStart } });
+  return response.data;
+};
+
+export const addMealPlanToShoppingList = async (userId: string, weekStart: string) => {
+  const response = await api.post(`/meal-plans/${userId}/shopping-list`, { weekStart });
+  return response.data;
+};
+
+// Cooking history endpoints
+export interface CookedEntry {
+  cookId: string;
+  cookedAt: string;
+  servings: number;
+  recipe: { id: string; name: string; imageUrl: string | null };
+}
+
+export const getCookingHistory = async (userId: string, limit?: number) => {
+  const response = await api.get(`/cooking-history/${userId}`, { params: { limit } });
+  return response.data;
+};
+
+export const getCookingInsights = async (userId: string) => {
+  const response = await api.get(`/cooking-history/${userId}/insights`);
+  return response.data;
+};
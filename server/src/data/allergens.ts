@@ -0,0 +1,52 @@
+// Major allergen groups. `members` are ingredients in the group; anything that
+// IS_A or is DERIVED_FROM a member belongs too (Cheddar -> Cheese -> Dairy). `aliases` are the
+// free-text allergy names that mean the group ("nuts" -> tree nuts).
+export interface AllergenGroupDefinition {
+  id: string;
+  name: string;
+  aliases: string[];
+  members: string[];
+}
+
+export const ALLERGEN_GROUPS: AllergenGroupDefinition[] = [
+  { id: 'milk', name: 'Milk', aliases: ['milk', 'dairy', 'lactose'], members: ['Dairy'] },
+  { id: 'egg', name: 'Eggs', aliases: ['egg', 'eggs'], members: ['Egg'] },
+  { id: 'fish', name: 'Fish', aliases: ['fish'], members: ['Fish'] },
+  { id: 'shellfish', name: 'Shellfish', aliases: ['shellfish', 'crustacean', 'mollusc', 'mollusk'], members: ['Shellfish', 'Squid', 'Octopus'] },
+  { id: 'tree-nut', name: 'Tree nuts', aliases: ['tree nut', 'tree nuts', 'nut', 'nuts'], members: ['Tree Nut'] },
+  { id: 'peanut', name: 'Peanuts', aliases: ['peanut', 'peanuts', 'groundnut'], members: ['Peanut'] },
+  { id: 'gluten', name: 'Wheat and gluten', aliases: ['gluten', 'wheat', 'coeliac', 'celiac'], members: ['Gluten Grain'] },
+  { id: 'soy', name: 'Soy', aliases: ['soy', 'soya', 'soybean'], members: ['Soybean', 'Tofu', 'Soy Sauce', 'Soy Milk', 'Edamame', 'Tempeh', 'Miso', 'Tamari'] },
+  { id: 'sesame', name: 'Sesame', aliases: ['sesame'], members: ['Sesame Seed', 'Sesame Oil', 'Tahini'] },
+  { id: 'mustard', name: 'Mustard', aliases: ['mustard'], members: ['Mustard', 'Mustard Seed', 'Dijon Mustard'] },
+  { id: 'celery', name: 'Celery', aliases: ['celery', 'celeriac'], members: ['Celery', 'Celeriac', 'Celery Salt'] },
+  { id: 'sulphites', name: 'Sulphites', aliases: ['sulphite', 'sulphites', 'sulfite', 'sulfites'], members: ['Wine', 'Dried Apricot'] },
+];
+
+// Prepared ingredients and what they are usually made with, as [ingredient, may contain].
+// An allergy to the second flags the first as "may contain".
+export const MAY_CONTAIN: [string, string][] = [
+  ['Pesto', 'Pine Nut'],
+  ['Pesto', 'Parmesan'],
+  ['Mayonnaise', 'Egg'],
+  ['Aioli', 'Egg'],
+  ['Caesar Dressing', 'Egg'],
+  ['Caesar Dressing', 'Anchovy'],
+  ['Caesar Dressing', 'Parmesan'],
+  ['Worcestershire Sauce', 'Anchovy'],
+  ['Oyster Sauce', 'Oyster'],
+  ['Hummus', 'Tahini'],
+  ['Marzipan', 'Almond'],
+  ['Praline', 'Hazelnut'],
+  ['Nougat', 'Almond'],
+  ['Satay Sauce', 'Peanut'],
+  ['Granola', 'Tree Nut'],
+  ['Soy Sauce', 'Wheat'],
+  ['Teriyaki Sauce', 'Soy Sauce'],
+  ['Hoisin Sauce', 'Soy Sauce'],
+  ['Miso', 'Barley'],
+  ['Milk Chocolate', 'Milk'],
+  ['Chocolate', 'Milk'],
+  ['Naan', 'Yogurt'],
+  ['Fresh Pasta', 'Egg'],
+];
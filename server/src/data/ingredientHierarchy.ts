@@ -0,0 +1,199 @@
+// Built-in IS_A links between ingredients as [child, parent] pairs: the child
+// is a kind of the parent, so holding it covers a recipe asking for the parent.
+// Names are resolved through the synonym table, so "Egg" links to the stored "Eggs".
+// Loaded into the graph on startup; links added through the API are kept.
+export const INGREDIENT_HIERARCHY: [string, string][] = [
+  // Meat
+  ['Poultry', 'Meat'],
+  ['Chicken', 'Poultry'],
+  ['Chicken Thigh', 'Chicken'],
+  ['Chicken Breast', 'Chicken'],
+  ['Chicken Wing', 'Chicken'],
+  ['Chicken Drumstick', 'Chicken'],
+  ['Turkey', 'Poultry'],
+  ['Duck', 'Poultry'],
+  ['Beef', 'Meat'],
+  ['Ground Beef', 'Beef'],
+  ['Steak', 'Beef'],
+  ['Pork', 'Meat'],
+  ['Bacon', 'Pork'],
+  ['Ham', 'Pork'],
+  ['Prosciutto', 'Ham'],
+  ['Pork Sausage', 'Pork'],
+  ['Chorizo', 'Pork'],
+  ['Pepperoni', 'Pork'],
+  ['Salami', 'Pork'],
+  ['Pancetta', 'Pork'],
+  ['Sausage', 'Meat'],
+  ['Lamb', 'Meat'],
+  ['Veal', 'Meat'],
+  ['Venison', 'Meat'],
+
+  // Fish and seafood
+  ['Fish', 'Seafood'],
+  ['Shellfish', 'Seafood'],
+  ['Salmon', 'Fish'],
+  ['Tuna', 'Fish'],
+  ['Cod', 'Fish'],
+  ['Haddock', 'Fish'],
+  ['Trout', 'Fish'],
+  ['Mackerel', 'Fish'],
+  ['Sardine', 'Fish'],
+  ['Anchovy', 'Fish'],
+  ['Tilapia', 'Fish'],
+  ['Shrimp', 'Shellfish'],
+  ['Crab', 'Shellfish'],
+  ['Lobster', 'Shellfish'],
+  ['Mussel', 'Shellfish'],
+  ['Clam', 'Shellfish'],
+  ['Oyster', 'Shellfish'],
+  ['Scallop', 'Shellfish'],
+  ['Squid', 'Seafood'],
+  ['Octopus', 'Seafood'],
+
+  // Alcohol
+  ['Wine', 'Alcohol'],
+  ['Red Wine', 'Wine'],
+  ['White Wine', 'Wine'],
+  ['Marsala', 'Wine'],
+  ['Sherry', 'Wine'],
+  ['Beer', 'Alcohol'],
+  ['Sake', 'Alcohol'],
+  ['Mirin', 'Alcohol'],
+  ['Rum', 'Alcohol'],
+  ['Brandy', 'Alcohol'],
+  ['Vodka', 'Alcohol'],
+  ['Whisky', 'Alcohol'],
+
+  // Dairy and eggs
+  ['Milk', 'Dairy'],
+  ['Whole Milk', 'Milk'],
+  ['Skim Milk', 'Milk'],
+  ['Cheese', 'Dairy'],
+  ['Cheddar', 'Cheese'],
+  ['Mozzarella', 'Cheese'],
+  ['Parmesan', 'Cheese'],
+  ['Feta', 'Cheese'],
+  ['Goat Cheese', 'Cheese'],
+  ['Brie', 'Cheese'],
+  ['Gouda', 'Cheese'],
+  ['Ricotta', 'Cheese'],
+  ['Cream Cheese', 'Cheese'],
+  ['Butter', 'Dairy'],
+  ['Cream', 'Dairy'],
+  ['Heavy Cream', 'Cream'],
+  ['Sour Cream', 'Cream'],
+  ['Yogurt', 'Dairy'],
+  ['Greek Yogurt', 'Yogurt'],
+  ['Whey', 'Dairy'],
+
+  // Grains and gluten
+  ['Wheat', 'Gluten Grain'],
+  ['Barley', 'Gluten Grain'],
+  ['Rye', 'Gluten Grain'],
+  ['All Purpose Flour', 'Flour'],
+  ['Bread Flour', 'Flour'],
+  ['Self Raising Flour', 'Flour'],
+  ['Spaghetti', 'Pasta'],
+  ['Penne', 'Pasta'],
+  ['Macaroni', 'Pasta'],
+  ['Lasagne', 'Pasta'],
+  ['Egg Noodle', 'Noodle'],
+  ['Brown Rice', 'Rice'],
+  ['Basmati Rice', 'Rice'],
+  ['Jasmine Rice', 'Rice'],
+  ['Arborio Rice', 'Rice'],
+
+  // Nuts
+  ['Almond', 'Tree Nut'],
+  ['Walnut', 'Tree Nut'],
+  ['Cashew', 'Tree Nut'],
+  ['Pecan', 'Tree Nut'],
+  ['Hazelnut', 'Tree Nut'],
+  ['Pistachio', 'Tree Nut'],
+  ['Macadamia', 'Tree Nut'],
+  ['Brazil Nut', 'Tree Nut'],
+  ['Pine Nut', 'Tree Nut'],
+
+  // Vegetables and oils
+  ['Cherry Tomato', 'Tomato'],
+  ['Plum Tomato', 'Tomato'],
+  ['Red Onion', 'Onion'],
+  ['White Onion', 'Onion'],
+  ['Shallot', 'Onion'],
+  ['Green Onion', 'Onion'],
+  ['Baby Spinach', 'Spinach'],
+  ['Button Mushroom', 'Mushroom'],
+  ['Shiitake Mushroom', 'Mushroom'],
+  ['Portobello Mushroom', 'Mushroom'],
+  ['Extra Virgin Olive Oil', 'Olive Oil'],
+  ['Black Pepper', 'Pepper'],
+  ['White Pepper', 'Pepper'],
+  ['Sea Salt', 'Salt'],
+  ['Kosher Salt', 'Salt'],
+];
+
+// Hierarchy nodes that group ingredients rather than being something you buy.
+// They are marked `abstract` and left out of the pantry's ingredient list.
+export const ABSTRACT_INGREDIENTS = ['Meat', 'Poultry', 'Seafood', 'Shellfish', 'Dairy', 'Gluten Grain', 'Tree Nut', 'Alcohol'];
+
+// Names that contain another ingredient's name without being or containing it,
+// as [name, ingredient]: Butter Beans aren't Butter and Oat Milk isn't dairy.
+// Diet checks that guess from the words in an unlinked name skip these.
+export const MISLEADING_NAMES: [string, string][] = [
+  ['Butter Bean', 'Butter'],
+  ['Cocoa Butter', 'Butter'],
+  ['Apple Butter', 'Butter'],
+  ['Vegan Butter', 'Butter'],
+  ['Cream of Tartar', 'Cream'],
+  ['Oat Cream', 'Cream'],
+  ['Oat Milk', 'Milk'],
+  ['Soy Milk', 'Milk'],
+  ['Rice Milk', 'Milk'],
+  ['Vegan Cheese', 'Cheese'],
+  ['Egg Replacer', 'Egg'],
+  ['Chicken of the Woods', 'Chicken'],
+  ['Gluten Free Flour', 'Flour'],
+  ['Gluten Free Pasta', 'Pasta'],
+  ['Rice Flour', 'Flour'],
+  ['Almond Flour', 'Flour'],
+  ['Coconut Flour', 'Flour'],
+  ['Chickpea Flour', 'Flour'],
+];
+
+// Built-in DERIVED_FROM links as [ingredient, source] pairs: the ingredient is
+// made from the source without being a kind of it. Only diet and allergen
+// checks follow these, so Almond Milk counts as a tree nut but holding it
+// doesn't cover a recipe's Almond.
+export const INGREDIENT_DERIVATIONS: [string, string][] = [
+  // Animal products
+  ['Lard', 'Pork'],
+  ['Fish Sauce', 'Anchovy'],
+  ['Marshmallow', 'Gelatin'],
+  ['Gummy Candy', 'Gelatin'],
+  ['Aspic', 'Gelatin'],
+
+  // Dairy and eggs
+  ['Buttermilk', 'Milk'],
+  ['Ghee', 'Butter'],
+  ['Egg Yolk', 'Egg'],
+  ['Egg White', 'Egg'],
+
+  // Grains and gluten
+  ['Flour', 'Wheat'],
+  ['Semolina', 'Wheat'],
+  ['Couscous', 'Wheat'],
+  ['Bread', 'Wheat'],
+  ['Breadcrumb', 'Bread'],
+  ['Pasta', 'Wheat'],
+  ['Noodle', 'Wheat'],
+  ['Egg Noodle', 'Egg'],
+  ['Rice Noodle', 'Rice'],
+
+  // Nuts
+  ['Almond Milk', 'Almond'],
+  ['Almond Butter', 'Almond'],
+  ['Peanut Butter', 'Peanut'],
+  ['Coconut Milk', 'Coconut'],
+  ['Coconut Cream', 'Coconut'],
+];
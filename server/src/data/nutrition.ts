@@ -0,0 +1,114 @@
+// Nutrition facts per 100 g (kcal; protein, carbs, fat and fibre in g; sodium
+// in mg), rounded from USDA FoodData Central. Grains, pasta and pulses are dry
+// unless noted. `gramsPerPiece` is what one piece, clove or slice weighs, for
+// recipes that count rather than weigh an ingredient.
+// Ingredients without an entry use their nearest parent's (Cherry Tomato -> Tomato).
+export interface NutritionEntry {
+  name: string;
+  kcal: number;
+  protein: number;
+  carbs: number;
+  fat: number;
+  fibre: number;
+  sodium: number;
+  gramsPerPiece?: number;
+}
+
+export const NUTRITION_DATA: NutritionEntry[] = [
+  // Vegetables
+  { name: 'Tomato', kcal: 18, protein: 0.9, carbs: 3.9, fat: 0.2, fibre: 1.2, sodium: 5, gramsPerPiece: 123 },
+  { name: 'Onion', kcal: 40, protein: 1.1, carbs: 9.3, fat: 0.1, fibre: 1.7, sodium: 4, gramsPerPiece: 110 },
+  { name: 'Green Onion', kcal: 32, protein: 1.8, carbs: 7.3, fat: 0.2, fibre: 2.6, sodium: 16, gramsPerPiece: 15 },
+  { name: 'Garlic', kcal: 149, protein: 6.4, carbs: 33, fat: 0.5, fibre: 2.1, sodium: 17, gramsPerPiece: 5 },
+  { name: 'Ginger', kcal: 80, protein: 1.8, carbs: 17.8, fat: 0.8, fibre: 2, sodium: 13 },
+  { name: 'Spinach', kcal: 23, protein: 2.9, carbs: 3.6, fat: 0.4, fibre: 2.2, sodium: 79 },
+  { name: 'Kale', kcal: 49, protein: 4.3, carbs: 8.8, fat: 0.9, fibre: 3.6, sodium: 38 },
+  { name: 'Lettuce', kcal: 15, protein: 1.4, carbs: 2.9, fat: 0.2, fibre: 1.3, sodium: 28 },
+  { name: 'Cabbage', kcal: 25, protein: 1.3, carbs: 5.8, fat: 0.1, fibre: 2.5, sodium: 18 },
+  { name: 'Broccoli', kcal: 34, protein: 2.8, carbs: 6.6, fat: 0.4, fibre: 2.6, sodium: 33 },
+  { name: 'Cauliflower', kcal: 25, protein: 1.9, carbs: 5, fat: 0.3, fibre: 2, sodium: 30 },
+  { name: 'Carrot', kcal: 41, protein: 0.9, carbs: 9.6, fat: 0.2, fibre: 2.8, sodium: 69, gramsPerPiece: 61 },
+  { name: 'Celery', kcal: 16, protein: 0.7, carbs: 3, fat: 0.2, fibre: 1.6, sodium: 80, gramsPerPiece: 40 },
+  { name: 'Bell Pepper', kcal: 31, protein: 1, carbs: 6, fat: 0.3, fibre: 2.1, sodium: 4, gramsPerPiece: 120 },
+  { name: 'Mushroom', kcal: 22, protein: 3.1, carbs: 3.3, fat: 0.3, fibre: 1, sodium: 5, gramsPerPiece: 18 },
+  { name: 'Zucchini', kcal: 17, protein: 1.2, carbs: 3.1, fat: 0.3, fibre: 1, sodium: 8, gramsPerPiece: 200 },
+  { name: 'Eggplant', kcal: 25, protein: 1, carbs: 5.9, fat: 0.2, fibre: 3, sodium: 2, gramsPerPiece: 450 },
+  { name: 'Cucumber', kcal: 15, protein: 0.7, carbs: 3.6, fat: 0.1, fibre: 0.5, sodium: 2, gramsPerPiece: 300 },
+  { name: 'Potato', kcal: 77, protein: 2, carbs: 17, fat: 0.1, fibre: 2.2, sodium: 6, gramsPerPiece: 170 },
+  { name: 'Sweet Potato', kcal: 86, protein: 1.6, carbs: 20, fat: 0.1, fibre: 3, sodium: 55, gramsPerPiece: 130 },
+  { name: 'Corn', kcal: 86, protein: 3.3, carbs: 19, fat: 1.4, fibre: 2.7, sodium: 15 },
+  { name: 'Peas', kcal: 81, protein: 5.4, carbs: 14.5, fat: 0.4, fibre: 5.7, sodium: 5 },
+  { name: 'Green Bean', kcal: 31, protein: 1.8, carbs: 7, fat: 0.2, fibre: 2.7, sodium: 6 },
+  { name: 'Avocado', kcal: 160, protein: 2, carbs: 8.5, fat: 14.7, fibre: 6.7, sodium: 7, gramsPerPiece: 150 },
+
+  // Fruit and herbs
+  { name: 'Lemon', kcal: 29, protein: 1.1, carbs: 9.3, fat: 0.3, fibre: 2.8, sodium: 2, gramsPerPiece: 60 },
+  { name: 'Lime', kcal: 30, protein: 0.7, carbs: 10.5, fat: 0.2, fibre: 2.8, sodium: 2, gramsPerPiece: 45 },
+  { name: 'Apple', kcal: 52, protein: 0.3, carbs: 13.8, fat: 0.2, fibre: 2.4, sodium: 1, gramsPerPiece: 180 },
+  { name: 'Banana', kcal: 89, protein: 1.1, carbs: 22.8, fat: 0.3, fibre: 2.6, sodium: 1, gramsPerPiece: 118 },
+  { name: 'Coriander', kcal: 23, protein: 2.1, carbs: 3.7, fat: 0.5, fibre: 2.8, sodium: 46 },
+  { name: 'Basil', kcal: 23, protein: 3.2, carbs: 2.6, fat: 0.6, fibre: 1.6, sodium: 4 },
+  { name: 'Parsley', kcal: 36, protein: 3, carbs: 6.3, fat: 0.8, fibre: 3.3, sodium: 56 },
+
+  // Grains, bread and pulses
+  { name: 'Flour', kcal: 364, protein: 10.3, carbs: 76, fat: 1, fibre: 2.7, sodium: 2 },
+  { name: 'Bread', kcal: 265, protein: 9, carbs: 49, fat: 3.2, fibre: 2.7, sodium: 491, gramsPerPiece: 30 },
+  { name: 'Pasta', kcal: 371, protein: 13, carbs: 75, fat: 1.5, fibre: 3.2, sodium: 6 },
+  { name: 'Rice', kcal: 365, protein: 7.1, carbs: 80, fat: 0.7, fibre: 1.3, sodium: 5 },
+  { name: 'Brown Rice', kcal: 370, protein: 7.9, carbs: 77, fat: 2.9, fibre: 3.5, sodium: 7 },
+  { name: 'Quinoa', kcal: 368, protein: 14, carbs: 64, fat: 6.1, fibre: 7, sodium: 5 },
+  { name: 'Oats', kcal: 389, protein: 16.9, carbs: 66, fat: 6.9, fibre: 10.6, sodium: 2 },
+  { name: 'Couscous', kcal: 376, protein: 12.8, carbs: 77, fat: 0.6, fibre: 5, sodium: 10 },
+  // Pulses as cooked or canned and drained
+  { name: 'Chickpea', kcal: 164, protein: 8.9, carbs: 27.4, fat: 2.6, fibre: 7.6, sodium: 7 },
+  { name: 'Black Bean', kcal: 132, protein: 8.9, carbs: 23.7, fat: 0.5, fibre: 8.7, sodium: 1 },
+  { name: 'Lentil', kcal: 116, protein: 9, carbs: 20, fat: 0.4, fibre: 7.9, sodium: 2 },
+  { name: 'Tofu', kcal: 76, protein: 8, carbs: 1.9, fat: 4.8, fibre: 0.3, sodium: 7 },
+
+  // Meat and fish, raw
+  { name: 'Chicken', kcal: 143, protein: 21, carbs: 0, fat: 6.5, fibre: 0, sodium: 84 },
+  { name: 'Chicken Breast', kcal: 120, protein: 22.5, carbs: 0, fat: 2.6, fibre: 0, sodium: 45, gramsPerPiece: 170 },
+  { name: 'Chicken Thigh', kcal: 177, protein: 19.7, carbs: 0, fat: 10.9, fibre: 0, sodium: 95, gramsPerPiece: 110 },
+  { name: 'Turkey', kcal: 135, protein: 27, carbs: 0, fat: 3, fibre: 0, sodium: 70 },
+  { name: 'Beef', kcal: 250, protein: 26, carbs: 0, fat: 15, fibre: 0, sodium: 72 },
+  { name: 'Ground Beef', kcal: 254, protein: 17, carbs: 0, fat: 20, fibre: 0, sodium: 66 },
+  { name: 'Pork', kcal: 242, protein: 27, carbs: 0, fat: 14, fibre: 0, sodium: 62 },
+  { name: 'Bacon', kcal: 417, protein: 13, carbs: 1.4, fat: 40, fibre: 0, sodium: 833, gramsPerPiece: 25 },
+  { name: 'Ham', kcal: 145, protein: 21, carbs: 1.5, fat: 6, fibre: 0, sodium: 1200, gramsPerPiece: 28 },
+  { name: 'Lamb', kcal: 282, protein: 17, carbs: 0, fat: 23, fibre: 0, sodium: 59 },
+  { name: 'Salmon', kcal: 208, protein: 20, carbs: 0, fat: 13, fibre: 0, sodium: 59, gramsPerPiece: 150 },
+  { name: 'Tuna', kcal: 130, protein: 28, carbs: 0, fat: 1, fibre: 0, sodium: 45 },
+  { name: 'Cod', kcal: 82, protein: 18, carbs: 0, fat: 0.7, fibre: 0, sodium: 54, gramsPerPiece: 150 },
+  { name: 'Shrimp', kcal: 85, protein: 20, carbs: 0, fat: 0.5, fibre: 0, sodium: 119 },
+
+  // Dairy and eggs
+  { name: 'Egg', kcal: 143, protein: 12.6, carbs: 0.7, fat: 9.5, fibre: 0, sodium: 142, gramsPerPiece: 50 },
+  { name: 'Milk', kcal: 61, protein: 3.2, carbs: 4.8, fat: 3.3, fibre: 0, sodium: 43 },
+  { name: 'Butter', kcal: 717, protein: 0.9, carbs: 0.1, fat: 81, fibre: 0, sodium: 11 },
+  { name: 'Cream', kcal: 340, protein: 2.8, carbs: 2.7, fat: 36, fibre: 0, sodium: 27 },
+  { name: 'Sour Cream', kcal: 198, protein: 2.4, carbs: 4.6, fat: 19, fibre: 0, sodium: 31 },
+  { name: 'Yogurt', kcal: 61, protein: 3.5, carbs: 4.7, fat: 3.3, fibre: 0, sodium: 46 },
+  { name: 'Greek Yogurt', kcal: 97, protein: 9, carbs: 3.9, fat: 5, fibre: 0, sodium: 36 },
+  { name: 'Cheese', kcal: 403, protein: 25, carbs: 1.3, fat: 33, fibre: 0, sodium: 621 },
+  { name: 'Mozzarella', kcal: 280, protein: 28, carbs: 3.1, fat: 17, fibre: 0, sodium: 627 },
+  { name: 'Parmesan', kcal: 431, protein: 38, carbs: 4.1, fat: 29, fibre: 0, sodium: 1529 },
+  { name: 'Feta', kcal: 264, protein: 14, carbs: 4.1, fat: 21, fibre: 0, sodium: 1116 },
+
+  // Nuts
+  { name: 'Almond', kcal: 579, protein: 21, carbs: 21.6, fat: 49.9, fibre: 12.5, sodium: 1 },
+  { name: 'Walnut', kcal: 654, protein: 15.2, carbs: 13.7, fat: 65.2, fibre: 6.7, sodium: 2 },
+  { name: 'Peanut', kcal: 567, protein: 25.8, carbs: 16.1, fat: 49.2, fibre: 8.5, sodium: 18 },
+  { name: 'Peanut Butter', kcal: 588, protein: 25, carbs: 20, fat: 50, fibre: 6, sodium: 459 },
+  { name: 'Coconut Milk', kcal: 230, protein: 2.3, carbs: 5.5, fat: 23.8, fibre: 2.2, sodium: 15 },
+
+  // Oils, seasonings and sweeteners
+  { name: 'Olive Oil', kcal: 884, protein: 0, carbs: 0, fat: 100, fibre: 0, sodium: 2 },
+  { name: 'Vegetable Oil', kcal: 884, protein: 0, carbs: 0, fat: 100, fibre: 0, sodium: 0 },
+  { name: 'Salt', kcal: 0, protein: 0, carbs: 0, fat: 0, fibre: 0, sodium: 38758 },
+  { name: 'Pepper', kcal: 251, protein: 10.4, carbs: 64, fat: 3.3, fibre: 25.3, sodium: 20 },
+  { name: 'Soy Sauce', kcal: 53, protein: 8.1, carbs: 4.9, fat: 0.6, fibre: 0.8, sodium: 5493 },
+  { name: 'Sugar', kcal: 387, protein: 0, carbs: 100, fat: 0, fibre: 0, sodium: 1 },
+  { name: 'Brown Sugar', kcal: 380, protein: 0.1, carbs: 98, fat: 0, fibre: 0, sodium: 28 },
+  { name: 'Honey', kcal: 304, protein: 0.3, carbs: 82, fat: 0, fibre: 0.2, sodium: 4 },
+  { name: 'Water', kcal: 0, protein: 0, carbs: 0, fat: 0, fibre: 0, sodium: 0 },
+];
@@ -0,0 +1,43 @@
+// Built-in substitutions: `substitute` can replace `ingredient` using `ratio`
+// times the amount (in the recipe's unit). Loaded into the graph on startup.
+export const INGREDIENT_SUBSTITUTIONS: { ingredient: string; substitute: string; ratio: number; notes: string }[] = [
+  { ingredient: 'Butter', substitute: 'Olive Oil', ratio: 0.75, notes: 'For sautéing and roasting; not for baking' },
+  { ingredient: 'Butter', substitute: 'Margarine', ratio: 1, notes: 'Works in baking and spreading' },
+  { ingredient: 'Butter', substitute: 'Coconut Oil', ratio: 1, notes: 'Solid coconut oil for baking; adds a light coconut flavour' },
+  { ingredient: 'Olive Oil', substitute: 'Vegetable Oil', ratio: 1, notes: 'Neutral flavour; fine for cooking, less so for dressings' },
+  { ingredient: 'Olive Oil', substitute: 'Butter', ratio: 1.25, notes: 'For sautéing over medium heat' },
+  { ingredient: 'Vegetable Oil', substitute: 'Olive Oil', ratio: 1, notes: 'Not for deep frying' },
+  { ingredient: 'Milk', substitute: 'Oat Milk', ratio: 1, notes: 'Use unsweetened for savoury dishes' },
+  { ingredient: 'Milk', substitute: 'Soy Milk', ratio: 1, notes: 'Use unsweetened for savoury dishes' },
+  { ingredient: 'Milk', substitute: 'Almond Milk', ratio: 1, notes: 'Thinner; use unsweetened for savoury dishes' },
+  { ingredient: 'Heavy Cream', substitute: 'Coconut Milk', ratio: 1, notes: 'Full-fat coconut milk; adds coconut flavour' },
+  { ingredient: 'Sour Cream', substitute: 'Greek Yogurt', ratio: 1, notes: 'Tangier; stir in off the heat' },
+  { ingredient: 'Greek Yogurt', substitute: 'Sour Cream', ratio: 1, notes: 'Richer and less tangy' },
+  { ingredient: 'Buttermilk', substitute: 'Milk', ratio: 1, notes: 'Add 1 tbsp lemon juice per cup and rest 5 minutes' },
+  { ingredient: 'Eggs', substitute: 'Flaxseed', ratio: 1, notes: '1 tbsp ground flaxseed + 3 tbsp water per egg; for baking only' },
+  { ingredient: 'Sugar', substitute: 'Honey', ratio: 0.75, notes: 'Reduce other liquids by a quarter' },
+  { ingredient: 'Sugar', substitute: 'Maple Syrup', ratio: 0.75, notes: 'Reduce other liquids by a quarter' },
+  { ingredient: 'Honey', substitute: 'Maple Syrup', ratio: 1, notes: 'Thinner and less sweet' },
+  { ingredient: 'Lemon Juice', substitute: 'Lime Juice', ratio: 1, notes: '' },
+  { ingredient: 'Lemon Juice', substitute: 'Vinegar', ratio: 0.5, notes: 'For acidity only; no citrus flavour' },
+  { ingredient: 'Soy Sauce', substitute: 'Tamari', ratio: 1, notes: 'Usually gluten-free' },
+  { ingredient: 'Flour', substitute: 'Cornstarch', ratio: 0.5, notes: 'For thickening sauces only' },
+  { ingredient: 'Baking Soda', substitute: 'Baking Powder', ratio: 3, notes: 'Triple the amount; may taste slightly bitter' },
+  { ingredient: 'Rice', substitute: 'Quinoa', ratio: 1, notes: 'Cooks in about 15 minutes' },
+  { ingredient: 'Quinoa', substitute: 'Couscous', ratio: 1, notes: 'Contains gluten' },
+  { ingredient: 'Quinoa', substitute: 'Rice', ratio: 1, notes: 'Takes longer to cook' },
+  { ingredient: 'Pasta', substitute: 'Rice Noodle', ratio: 1, notes: 'Gluten-free; soak or boil briefly' },
+  { ingredient: 'Chicken', substitute: 'Turkey', ratio: 1, notes: '' },
+  { ingredient: 'Chicken', substitute: 'Tofu', ratio: 1, notes: 'Press firm tofu before cooking' },
+  { ingredient: 'Turkey', substitute: 'Chicken', ratio: 1, notes: '' },
+  { ingredient: 'Ground Beef', substitute: 'Lentil', ratio: 1, notes: 'Cooked lentils; works in sauces and chilli' },
+  { ingredient: 'Chicken Stock', substitute: 'Vegetable Stock', ratio: 1, notes: 'Vegetarian' },
+  { ingredient: 'Beef Stock', substitute: 'Vegetable Stock', ratio: 1, notes: 'Vegetarian; add a dash of soy sauce for depth' },
+  { ingredient: 'Spinach', substitute: 'Kale', ratio: 1, notes: 'Remove stems; cooks a little longer' },
+  { ingredient: 'Kale', substitute: 'Spinach', ratio: 1, notes: 'Wilts much faster' },
+  { ingredient: 'Zucchini', substitute: 'Eggplant', ratio: 1, notes: '' },
+  { ingredient: 'Eggplant', substitute: 'Zucchini', ratio: 1, notes: '' },
+  { ingredient: 'Onion', substitute: 'Leek', ratio: 1, notes: 'Milder' },
+  { ingredient: 'Parmesan', substitute: 'Nutritional Yeast', ratio: 0.5, notes: 'Dairy-free, savoury flavour' },
+  { ingredient: 'Pine Nut', substitute: 'Sunflower Seed', ratio: 1, notes: 'Nut-free; toast first' },
+];
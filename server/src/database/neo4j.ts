@@ -1,4 +1,10 @@
 import neo4j, { Driver, Session } from 'neo4j-driver';
+import { backfillIngredientKeys } from '../utils/ingredientMerge.js';
+import { seedIngredientHierarchy } from '../utils/ingredientHierarchy.js';
+import { seedSubstitutions } from '../utils/substitutions.js';
+import { seedAllergens } from '../utils/allergens.js';
+import { seedNutrition } from '../utils/nutrition.js';
+import { updateDietaryTags } from '../utils/dietaryTags.js';
 
 let driver: Driver | null = null;
 
@@ -19,6 +25,16 @@ export const initDatabase = async (): Promise<void> => {
 
     // Seed initial data if needed
     await seedInitialData();
+
+    // Make sure every ingredient can be found by its canonical key
+    await updateIngredientKeys();
+
+    // Load the built-in ingredient hierarchy (Cheddar IS_A Cheese IS_A Dairy, ...)
+    // substitutions (Olive Oil SUBSTITUTES_FOR Butter, ...), allergen groups and nutrition facts
+    await seedIngredientGraph();
+
+    // Re-derive recipe dietary tags now the hierarchy is loaded
+    await backfillDietaryTags();
   } catch (error) {
     console.error('Failed to connect to Neo4j:', error);
     throw error;
@@ -46,6 +62,16 @@ const createConstraints = async (): Promise<void> => {
       FOR (i:Ingredient) REQUIRE i.name IS UNIQUE
     `).catch(() => {});
 
+    await session.run(`
+      CREATE INDEX ingredient_key IF NOT EXISTS
+      FOR (i:Ingredient) ON (i.key)
+    `).catch(() => {});
+
+    await session.run(`
+      CREATE CONSTRAINT allergen_id IF NOT EXISTS
+      FOR (a:Allergen) REQUIRE a.id IS UNIQUE
+    `).catch(() => {});
+
     await session.run(`
       CREATE CONSTRAINT recipe_id IF NOT EXISTS
       FOR (r:Recipe) REQUIRE r.id IS UNIQUE
@@ -236,6 +262,56 @@ const seedInitialData = async (): Promise<void> => {
   }
 };
 
+const updateIngredientKeys = async (): Promise<void> => {
+  if (!driver) return;
+
+  const session = driver.session();
+  try {
+    const updated = await backfillIngredientKeys(session);
+    if (updated > 0) {
+      console.log(`Updated canonical keys for ${updated} ingredients`);
+    }
+  } finally {
+    await session.close();
+  }
+};
+
+const seedIngredientGraph = async (): Promise<void> => {
+  if (!driver) return;
+
+  const session = driver.session();
+  try {
+    await seedIngredientHierarchy(session);
+    await seedSubstitutions(session);
+    await seedAllergens(session);
+    await seedNutrition(session);
+    console.log('Ingredient hierarchy, substitutions, allergens and nutrition loaded');
+  } catch (error) {
+    console.error('Error loading ingredient graph:', error);
+  } finally {
+    await session.close();
+  }
+};
+
+const backfillDietaryTags = async (): Promise<void> => {
+  if (!driver) return;
+
+  const session = driver.session();
+  try {
+    const recipes = await updateDietaryTags(session, null, true);
+    for (const recipe of recipes) {
+      for (const contradiction of recipe.contradictions) {
+        console.log(`⚠️ "${recipe.name}" is tagged ${contradiction.tag} but uses ${contradiction.ingredients.join(', ')}`);
+      }
+    }
+    console.log(`Dietary tags updated for ${recipes.length} recipes`);
+  } catch (error) {
+    console.error('Error updating dietary tags:', error);
+  } finally {
+    await session.close();
+  }
+};
+
 export const getDriver = (): Driver => {
   if (!driver) {
     throw new Error('Database not initialized. Call initDatabase() first.');
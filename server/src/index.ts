@@ -5,6 +5,12 @@ import { userRoutes } from './routes/userRoutes.js';
 import { pantryRoutes } from './routes/pantryRoutes.js';
 import { recipeRoutes } from './routes/recipeRoutes.js';
 import { authRoutes } from './routes/authRoutes.js';
+import { shoppingListRoutes } from './routes/shoppingListRoutes.js';
+import { mealPlanRoutes } from './routes/mealPlanRoutes.js';
+import { cookingHistoryRoutes } from './routes/cookingHistoryRoutes.js';
+import { ingredientRoutes } from './routes/ingredientRoutes.js';
+import { allergenRoutes } from './routes/allergenRoutes.js';
+import { customDietRoutes } from './routes/customDietRoutes.js';
 import { initDatabase } from './database/neo4j.js';
 
 dotenv.config();
@@ -23,6 +29,12 @@ app.use('/api/auth', authRoutes);
 app.use('/api/users', userRoutes);
 app.use('/api/pantry', pantryRoutes);
 app.use('/api/recipes', recipeRoutes);
+app.use('/api/shopping-list', shoppingListRoutes);
+app.use('/api/meal-plans', mealPlanRoutes);
+app.use('/api/cooking-history', cookingHistoryRoutes);
+app.use('/api/ingredients', ingredientRoutes);
+app.use('/api/allergens', allergenRoutes);
+app.use('/api/custom-diets', customDietRoutes);
 
 app.get('/api/health', (req, res) => {
   res.json({ status: 'ok', message: 'Pantry Recipes API is running' });
@@ -1,5 +1,6 @@
 import { Request, Response, NextFunction } from 'express';
 import jwt from 'jsonwebtoken';
+import { getSession } from '../database/neo4j.js';
 
 export interface AuthRequest extends Request {
   userId?: string;
@@ -17,7 +18,7 @@ export const authenticateToken = (req: AuthRequest, res: Response, next: NextFun
 
   jwt.verify(token, jwtSecret, (err: any, decoded: any) => {
     if (err) {
-      return res.status(403).json({ error: 'Invalid or expired token' });
+      return res.status(401).json({ error: 'Invalid or expired token' });
     }
 
     req.userId = decoded.userId;
@@ -25,6 +26,46 @@ export const authenticateToken = (req: AuthRequest, res: Response, next: NextFun
   });
 };
 
+// Only let the authenticated user act on their own :userId resources.
+// Must run after authenticateToken.
+export const requireSelf = (req: AuthRequest, res: Response, next: NextFunction) => {
+  if (!req.userId) {
+    return res.status(401).json({ error: 'Access token required' });
+  }
+
+  if (req.params.userId !== req.userId) {
+    return res.status(403).json({ error: 'You do not have access to this user' });
+  }
+
+  next();
+};
+
+// Only let users with role 'admin' through. Must run after authenticateToken.
+export const requireAdmin = async (req: AuthRequest, res: Response, next: NextFunction) => {
+  if (!req.userId) {
+    return res.status(401).json({ error: 'Access token required' });
+  }
+
+  const session = getSession();
+  try {
+    const result = await session.run(
+      'MATCH (u:User {id: $userId}) RETURN u.role as role',
+      { userId: req.userId }
+    );
+
+    if (result.records.length === 0 || result.records[0].get('role') !== 'admin') {
+      return res.status(403).json({ error: 'Admin access required' });
+    }
+  } catch (error) {
+    console.error('Error checking admin role:', error);
+    return res.status(500).json({ error: 'Failed to check permissions' });
+  } finally {
+    await session.close();
+  }
+
+  next();
+};
+
 export const optionalAuth = (req: AuthRequest, res: Response, next: NextFunction) => {
   const authHeader = req.headers['authorization'];
   const token = authHeader && authHeader.split(' ')[1];
@@ -0,0 +1,68 @@
+import express from 'express';
+import { getSession } from '../database/neo4j.js';
+import { findAllergenMatches } from '../utils/allergens.js';
+import { authenticateToken, AuthRequest } from '../middleware/auth.js';
+
+const router = express.Router();
+
+// List the allergen groups users can pick, with their member ingredients
+router.get('/', async (req, res) => {
+  const session = getSession();
+
+  try {
+    const result = await session.run(
+      `MATCH (a:Allergen)
+       OPTIONAL MATCH (m:Ingredient)-[:IN_ALLERGEN_GROUP]->(a)
+       OPTIONAL MATCH (d:Ingredient)-[:IS_A|DERIVED_FROM*1..]->(m)
+       WITH a, collect(DISTINCT m.name) + collect(DISTINCT d.name) as ingredients
+       OPTIONAL MATCH (p:Ingredient)-[:MAY_CONTAIN*1..]->(c:Ingredient)
+       WHERE c.name IN ingredients
+       RETURN a.id as id, a.name as name, a.aliases as aliases, ingredients, collect(DISTINCT p.name) as mayContain
+       ORDER BY a.name`
+    );
+
+    res.json({
+      allergens: result.records.map(record => ({
+        id: record.get('id'),
+        name: record.get('name'),
+        aliases: record.get('aliases') || [],
+        ingredients: record.get('ingredients').sort(),
+        mayContain: record.get('mayContain').sort()
+      }))
+    });
+  } catch (error) {
+    console.error('Error fetching allergens:', error);
+    res.status(500).json({ error: 'Failed to fetch allergens' });
+  } finally {
+    await session.close();
+  }
+});
+
+// Check ingredient names against the signed-in user's allergies and explain each hit
+router.post('/check', authenticateToken, async (req: AuthRequest, res) => {
+  const { ingredients } = req.body;
+
+  if (!Array.isArray(ingredients) || ingredients.some(name => typeof name !== 'string')) {
+    return res.status(400).json({ error: 'ingredients must be an array of names' });
+  }
+
+  const session = getSession();
+
+  try {
+    const userResult = await session.run(
+      'MATCH (u:User {id: $userId}) RETURN u.allergies as allergies',
+      { userId: req.userId }
+    );
+    const allergies: string[] = userResult.records[0]?.get('allergies') || [];
+    const matches = await findAllergenMatches(session, ingredients, allergies);
+
+    res.json({ matches: [...matches.values()] });
+  } catch (error) {
+    console.error('Error checking allergens:', error);
+    res.status(500).json({ error: 'Failed to check allergens' });
+  } finally {
+    await session.close();
+  }
+});
+
+export { router as allergenRoutes };
@@ -2,6 +2,7 @@ import express from 'express';
 import bcrypt from 'bcryptjs';
 import jwt from 'jsonwebtoken';
 import { getSession } from '../database/neo4j.js';
+import { fromGoalProperties } from '../utils/nutritionGoals.js';
 
 const router = express.Router();
 
@@ -78,7 +79,10 @@ router.post('/signup', async (req, res) => {
         age: createdUser.age,
         profilePicture: createdUser.profilePicture,
         dietaryPreferences: createdUser.dietaryPreferences || [],
-        allergies: createdUser.allergies || []
+        allergies: createdUser.allergies || [],
+        unitSystem: createdUser.unitSystem || null,
+        role: createdUser.role || null,
+        nutritionGoals: fromGoalProperties(createdUser)
       }
     });
   } catch (error) {
@@ -155,7 +159,10 @@ router.post('/login', async (req, res) => {
         age: user.age,
         profilePicture: user.profilePicture,
         dietaryPreferences: user.dietaryPreferences || [],
-        allergies: user.allergies || []
+        allergies: user.allergies || [],
+        unitSystem: user.unitSystem || null,
+        role: user.role || null,
+        nutritionGoals: fromGoalProperties(user)
       }
     });
   } catch (error: any) {
@@ -436,7 +443,10 @@ router.get('/me', async (req, res) => {
         age: user.age,
         profilePicture: user.profilePicture,
         dietaryPreferences: user.dietaryPreferences || [],
-        allergies: user.allergies || []
+        allergies: user.allergies || [],
+        unitSystem: user.unitSystem || null,
+        role: user.role || null,
+        nutritionGoals: fromGoalProperties(user)
       }
     });
   } catch (error) {
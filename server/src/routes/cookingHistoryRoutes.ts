@@ -0,0 +1,101 @@
+import express from 'express';
+import neo4j from 'neo4j-driver';
+import { getSession } from '../database/neo4j.js';
+import { toNumber } from '../utils/neo4jHelpers.js';
+import { authenticateToken, requireSelf, AuthRequest } from '../middleware/auth.js';
+
+const router = express.Router();
+
+const DEFAULT_HISTORY_LIMIT = 50;
+const MOST_COOKED_LIMIT = 10;
+
+// List what the user cooked, most recent first (?limit=N, default 50)
+router.get('/:userId', authenticateToken, requireSelf, async (req: AuthRequest, res) => {
+  const { userId } = req.params;
+  const limit = req.query.limit !== undefined ? Number(req.query.limit) : DEFAULT_HISTORY_LIMIT;
+
+  if (isNaN(limit) || limit <= 0) {
+    return res.status(400).json({ error: 'limit must be a positive number' });
+  }
+
+  const session = getSession();
+
+  try {
+    const result = await session.run(
+      `MATCH (:User {id: $userId})-[c:COOKED]->(r:Recipe)
+       RETURN c.id as cookId, toString(c.cookedAt) as cookedAt, c.servings as servings,
+              r.id as recipeId, r.name as recipeName, r.imageUrl as imageUrl
+       ORDER BY c.cookedAt DESC
+       LIMIT $limit`,
+      { userId, limit: neo4j.int(Math.floor(limit)) }
+    );
+
+    const history = result.records.map(record => ({
+      cookId: record.get('cookId'),
+      cookedAt: record.get('cookedAt'),
+      servings: toNumber(record.get('servings')),
+      recipe: {
+        id: record.get('recipeId'),
+        name: record.get('recipeName'),
+        imageUrl: record.get('imageUrl') || null
+      }
+    }));
+
+    res.json({ history });
+  } catch (error) {
+    console.error('Error fetching cooking history:', error);
+    res.status(500).json({ error: 'Failed to fetch cooking history' });
+  } finally {
+    await session.close();
+  }
+});
+
+// Most-cooked recipes and liked recipes that were never cooked
+router.get('/:userId/insights', authenticateToken, requireSelf, async (req: AuthRequest, res) => {
+  const { userId } = req.params;
+  const session = getSession();
+
+  try {
+    const mostCookedResult = await session.run(
+      `MATCH (:User {id: $userId})-[c:COOKED]->(r:Recipe)
+       WITH r, count(c) as timesCooked, max(c.cookedAt) as lastCookedAt
+       RETURN r.id as id, r.name as name, r.imageUrl as imageUrl, timesCooked, toString(lastCookedAt) as lastCookedAt
+       ORDER BY timesCooked DESC, lastCookedAt DESC
+       LIMIT $limit`,
+      { userId, limit: neo4j.int(MOST_COOKED_LIMIT) }
+    );
+
+    const likedResult = await session.run(
+      `MATCH (u:User {id: $userId})-[l:LIKES]->(r:Recipe)
+       WHERE NOT (u)-[:COOKED]->(r)
+       RETURN r.id as id, r.name as name, r.imageUrl as imageUrl, r.description as description,
+              toString(l.likedAt) as likedAt
+       ORDER BY l.likedAt DESC`,
+      { userId }
+    );
+
+    res.json({
+      mostCooked: mostCookedResult.records.map(record => ({
+        id: record.get('id'),
+        name: record.get('name'),
+        imageUrl: record.get('imageUrl') || null,
+        timesCooked: toNumber(record.get('timesCooked')),
+        lastCookedAt: record.get('lastCookedAt')
+      })),
+      likedNeverCooked: likedResult.records.map(record => ({
+        id: record.get('id'),
+        name: record.get('name'),
+        imageUrl: record.get('imageUrl') || null,
+        description: record.get('description') || '',
+        likedAt: record.get('likedAt') || null
+      }))
+    });
+  } catch (error) {
+    console.error('Error fetching cooking insights:', error);
+    res.status(500).json({ error: 'Failed to fetch cooking insights' });
+  } finally {
+    await session.close();
+  }
+});
+
+export { router as cookingHistoryRoutes };
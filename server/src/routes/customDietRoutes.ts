@@ -0,0 +1,127 @@
+import express from 'express';
+import { Session } from 'neo4j-driver';
+import { getSession } from '../database/neo4j.js';
+import { authenticateToken, requireSelf, AuthRequest } from '../middleware/auth.js';
+import { CustomDietInput, fetchCustomDiets, parseCustomDiet } from '../utils/customDiets.js';
+import { lookupIngredientNames } from '../utils/ingredientNames.js';
+
+const router = express.Router();
+
+// Store forbidden ingredients under their canonical names ("cilantro" -> Coriander)
+const canonicalDiet = async (session: Session, diet: CustomDietInput): Promise<CustomDietInput> => {
+  const names = await lookupIngredientNames(session, diet.forbiddenIngredients);
+  return {
+    ...diet,
+    forbiddenIngredients: [...new Set(diet.forbiddenIngredients.map(name => names.get(name) || name))]
+  };
+};
+
+// List the user's custom diets
+router.get('/:userId', authenticateToken, requireSelf, async (req: AuthRequest, res) => {
+  const session = getSession();
+
+  try {
+    const diets = await fetchCustomDiets(session, req.params.userId);
+    res.json({ diets });
+  } catch (error) {
+    console.error('Error fetching custom diets:', error);
+    res.status(500).json({ error: 'Failed to fetch custom diets' });
+  } finally {
+    await session.close();
+  }
+});
+
+// Create a diet from {name, forbiddenIngredients, forbiddenCategories, requiredTags, active}
+router.post('/:userId', authenticateToken, requireSelf, async (req: AuthRequest, res) => {
+  const { userId } = req.params;
+  const parsed = parseCustomDiet(req.body);
+  if (typeof parsed === 'string') {
+    return res.status(400).json({ error: parsed });
+  }
+
+  const session = getSession();
+
+  try {
+    const diet = await canonicalDiet(session, parsed);
+    const dietId = `diet-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`;
+    const result = await session.run(
+      `MATCH (u:User {id: $userId})
+       CREATE (u)-[:HAS_CUSTOM_DIET]->(d:CustomDiet {id: $dietId, createdAt: datetime(), updatedAt: datetime()})
+       SET d += $diet
+       RETURN d.id as id`,
+      { userId, dietId, diet }
+    );
+
+    if (result.records.length === 0) {
+      return res.status(404).json({ error: 'User not found' });
+    }
+
+    res.status(201).json({ diet: { id: dietId, ...diet } });
+  } catch (error) {
+    console.error('Error creating custom diet:', error);
+    res.status(500).json({ error: 'Failed to create custom diet' });
+  } finally {
+    await session.close();
+  }
+});
+
+// Replace a diet's name and rules
+router.put('/:userId/:dietId', authenticateToken, requireSelf, async (req: AuthRequest, res) => {
+  const { userId, dietId } = req.params;
+  const parsed = parseCustomDiet(req.body);
+  if (typeof parsed === 'string') {
+    return res.status(400).json({ error: parsed });
+  }
+
+  const session = getSession();
+
+  try {
+    const diet = await canonicalDiet(session, parsed);
+    const result = await session.run(
+      `MATCH (:User {id: $userId})-[:HAS_CUSTOM_DIET]->(d:CustomDiet {id: $dietId})
+       SET d += $diet, d.updatedAt = datetime()
+       RETURN d.id as id`,
+      { userId, dietId, diet }
+    );
+
+    if (result.records.length === 0) {
+      return res.status(404).json({ error: 'Diet not found' });
+    }
+
+    res.json({ diet: { id: dietId, ...diet } });
+  } catch (error) {
+    console.error('Error updating custom diet:', error);
+    res.status(500).json({ error: 'Failed to update custom diet' });
+  } finally {
+    await session.close();
+  }
+});
+
+// Delete a diet
+router.delete('/:userId/:dietId', authenticateToken, requireSelf, async (req: AuthRequest, res) => {
+  const { userId, dietId } = req.params;
+  const session = getSession();
+
+  try {
+    const result = await session.run(
+      `MATCH (:User {id: $userId})-[:HAS_CUSTOM_DIET]->(d:CustomDiet {id: $dietId})
+       WITH d, d.name as name
+       DETACH DELETE d
+       RETURN name`,
+      { userId, dietId }
+    );
+
+    if (result.records.length === 0) {
+      return res.status(404).json({ error: 'Diet not found' });
+    }
+
+    res.json({ message: 'Diet deleted' });
+  } catch (error) {
+    console.error('Error deleting custom diet:', error);
+    res.status(500).json({ error: 'Failed to delete custom diet' });
+  } finally {
+    await session.close();
+  }
+});
+
+export { router as customDietRoutes };
@@ -0,0 +1,324 @@
+import express from 'express';
+import { getSession } from '../database/neo4j.js';
+import { ingredientKey, lookupIngredientName, lookupIngredientNames } from '../utils/ingredientNames.js';
+import { findDuplicateIngredients, mergeIngredient } from '../utils/ingredientMerge.js';
+import { addIngredientParent, fetchAncestors } from '../utils/ingredientHierarchy.js';
+import { addSubstitute, fetchSubstitutes, findBrokenCustomDiets } from '../utils/substitutions.js';
+import { isIngredientAllowed } from '../utils/dietaryFilters.js';
+import { findAllergenMatches } from '../utils/allergens.js';
+import { CustomDiet, fetchCustomDiets, fetchIngredientCategories } from '../utils/customDiets.js';
+import { authenticateToken, optionalAuth, requireAdmin, AuthRequest } from '../middleware/auth.js';
+
+const router = express.Router();
+
+// Show which stored ingredient each name resolves to (?names=a,b,c)
+router.get('/resolve', async (req, res) => {
+  const names = String(req.query.names || '')
+    .split(',')
+    .map(name => name.trim())
+    .filter(Boolean);
+
+  if (names.length === 0) {
+    return res.status(400).json({ error: 'names is required' });
+  }
+
+  const session = getSession();
+
+  try {
+    const resolved = await lookupIngredientNames(session, names);
+    res.json({
+      ingredients: names.map(name => ({
+        name,
+        key: ingredientKey(name),
+        canonical: resolved.get(name) || name
+      }))
+    });
+  } catch (error) {
+    console.error('Error resolving ingredient names:', error);
+    res.status(500).json({ error: 'Failed to resolve ingredient names' });
+  } finally {
+    await session.close();
+  }
+});
+
+// Admin: list ingredients that are stored more than once under different spellings
+router.get('/duplicates', authenticateToken, requireAdmin, async (req: AuthRequest, res) => {
+  const session = getSession();
+
+  try {
+    const groups = await findDuplicateIngredients(session);
+    res.json({ groups });
+  } catch (error) {
+    console.error('Error finding duplicate ingredients:', error);
+    res.status(500).json({ error: 'Failed to find duplicate ingredients' });
+  } finally {
+    await session.close();
+  }
+});
+
+// Admin: merge every group of duplicates into its canonical ingredient
+router.post('/merge-duplicates', authenticateToken, requireAdmin, async (req: AuthRequest, res) => {
+  const session = getSession();
+
+  try {
+    const groups = await findDuplicateIngredients(session);
+    for (const group of groups) {
+      for (const duplicate of group.duplicates) {
+        await mergeIngredient(session, duplicate, group.target);
+      }
+    }
+
+    res.json({ merged: groups });
+  } catch (error) {
+    console.error('Error merging duplicate ingredients:', error);
+    res.status(500).json({ error: 'Failed to merge duplicate ingredients' });
+  } finally {
+    await session.close();
+  }
+});
+
+// Admin: merge one ingredient into another, e.g. a synonym the table doesn't know about
+router.post('/merge', authenticateToken, requireAdmin, async (req: AuthRequest, res) => {
+  const { source, target } = req.body;
+
+  if (typeof source !== 'string' || typeof target !== 'string' || !source.trim() || !target.trim()) {
+    return res.status(400).json({ error: 'source and target ingredient names are required' });
+  }
+
+  if (source === target) {
+    return res.status(400).json({ error: 'source and target must be different ingredients' });
+  }
+
+  const session = getSession();
+
+  try {
+    const existing = await session.run(
+      `MATCH (i:Ingredient) WHERE i.name IN [$source, $target]
+       RETURN collect(i.name) as names`,
+      { source, target }
+    );
+    const names: string[] = existing.records[0].get('names');
+    const missing = [source, target].filter(name => !names.includes(name));
+    if (missing.length > 0) {
+      return res.status(404).json({ error: `Ingredient not found: ${missing.join(', ')}` });
+    }
+
+    await mergeIngredient(session, source, target);
+    res.json({ merged: { target, duplicates: [source] } });
+  } catch (error) {
+    console.error('Error merging ingredients:', error);
+    res.status(500).json({ error: 'Failed to merge ingredients' });
+  } finally {
+    await session.close();
+  }
+});
+
+// What an ingredient IS_A (parents, all the way up), what IS_A it (children,
+// all the way down) and what it is directly DERIVED_FROM
+router.get('/:name/hierarchy', async (req, res) => {
+  const session = getSession();
+
+  try {
+    const name = await lookupIngredientName(session, req.params.name);
+    const result = await session.run(
+      `MATCH (i:Ingredient {name: $name})
+       OPTIONAL MATCH (i)-[:IS_A*1..]->(a:Ingredient)
+       WITH i, collect(DISTINCT a.name) as ancestors
+       OPTIONAL MATCH (d:Ingredient)-[:IS_A*1..]->(i)
+       WITH i, ancestors, collect(DISTINCT d.name) as descendants
+       OPTIONAL MATCH (i)-[:DERIVED_FROM]->(s:Ingredient)
+       RETURN i.name as name, ancestors, descendants, collect(DISTINCT s.name) as derivedFrom`,
+      { name }
+    );
+
+    if (result.records.length === 0) {
+      return res.status(404).json({ error: 'Ingredient not found' });
+    }
+
+    const record = result.records[0];
+    res.json({
+      name: record.get('name'),
+      ancestors: record.get('ancestors'),
+      descendants: record.get('descendants').sort(),
+      derivedFrom: record.get('derivedFrom').sort()
+    });
+  } catch (error) {
+    console.error('Error fetching ingredient hierarchy:', error);
+    res.status(500).json({ error: 'Failed to fetch ingredient hierarchy' });
+  } finally {
+    await session.close();
+  }
+});
+
+// Admin: record that one ingredient IS_A another, e.g. {child: 'Stilton', parent: 'Cheese'}
+router.post('/is-a', authenticateToken, requireAdmin, async (req: AuthRequest, res) => {
+  const { child, parent } = req.body;
+
+  if (typeof child !== 'string' || typeof parent !== 'string' || !child.trim() || !parent.trim()) {
+    return res.status(400).json({ error: 'child and parent ingredient names are required' });
+  }
+
+  const session = getSession();
+
+  try {
+    const added = await addIngredientParent(session, child.trim(), parent.trim());
+    if (!added) {
+      return res.status(400).json({ error: 'That link would make an ingredient its own parent' });
+    }
+
+    res.status(201).json({ child: await lookupIngredientName(session, child.trim()), parent: await lookupIngredientName(session, parent.trim()) });
+  } catch (error) {
+    console.error('Error linking ingredients:', error);
+    res.status(500).json({ error: 'Failed to link ingredients' });
+  } finally {
+    await session.close();
+  }
+});
+
+// Admin: remove an IS_A link
+router.delete('/is-a', authenticateToken, requireAdmin, async (req: AuthRequest, res) => {
+  const { child, parent } = req.body;
+
+  if (typeof child !== 'string' || typeof parent !== 'string') {
+    return res.status(400).json({ error: 'child and parent ingredient names are required' });
+  }
+
+  const session = getSession();
+
+  try {
+    const names = await lookupIngredientNames(session, [child, parent]);
+    await session.run(
+      `MATCH (:Ingredient {name: $child})-[l:IS_A]->(:Ingredient {name: $parent})
+       DELETE l`,
+      { child: names.get(child), parent: names.get(parent) }
+    );
+    res.json({ message: 'Link removed' });
+  } catch (error) {
+    console.error('Error unlinking ingredients:', error);
+    res.status(500).json({ error: 'Failed to unlink ingredients' });
+  } finally {
+    await session.close();
+  }
+});
+
+// Substitutes for an ingredient with their ratio and notes. For a signed-in
+// user, substitutes that break their diets (built-in or custom) or allergies
+// are listed separately.
+router.get('/:name/substitutes', optionalAuth, async (req: AuthRequest, res) => {
+  const session = getSession();
+
+  try {
+    const name = await lookupIngredientName(session, req.params.name);
+    const exists = await session.run('MATCH (i:Ingredient {name: $name}) RETURN i.name as name', { name });
+    if (exists.records.length === 0) {
+      return res.status(404).json({ error: 'Ingredient not found' });
+    }
+
+    const substitutes = await fetchSubstitutes(session, name);
+
+    let preferences: string[] = [];
+    let allergies: string[] = [];
+    let customDiets: CustomDiet[] = [];
+    if (req.userId) {
+      const userResult = await session.run(
+        'MATCH (u:User {id: $userId}) RETURN u.dietaryPreferences as preferences, u.allergies as allergies',
+        { userId: req.userId }
+      );
+      if (userResult.records.length > 0) {
+        preferences = userResult.records[0].get('preferences') || [];
+        allergies = userResult.records[0].get('allergies') || [];
+        customDiets = await fetchCustomDiets(session, req.userId, true);
+      }
+    }
+
+    const substituteNames = substitutes.map(substitute => substitute.name);
+    const ancestors = await fetchAncestors(session, substituteNames, true);
+    const categories = customDiets.length > 0
+      ? await fetchIngredientCategories(session, substituteNames)
+      : new Map<string, string[]>();
+    const allergens = await findAllergenMatches(session, substituteNames, allergies);
+    const brokenDiets = (substitute: { name: string }) => findBrokenCustomDiets(substitute.name, customDiets, ancestors, categories);
+    const allowed = (substitute: { name: string }) =>
+      isIngredientAllowed(substitute.name, preferences, ancestors, allergens) && brokenDiets(substitute).length === 0;
+
+    res.json({
+      name,
+      substitutes: substitutes.filter(allowed),
+      excluded: substitutes
+        .filter(substitute => !allowed(substitute))
+        .map(substitute => ({
+          ...substitute,
+          allergen: allergens.get(substitute.name) || null,
+          customDiets: [...new Set(brokenDiets(substitute))]
+        }))
+    });
+  } catch (error) {
+    console.error('Error fetching substitutes:', error);
+    res.status(500).json({ error: 'Failed to fetch substitutes' });
+  } finally {
+    await session.close();
+  }
+});
+
+// Admin: record that `substitute` can replace `ingredient` at `ratio` (default 1)
+router.post('/substitutes', authenticateToken, requireAdmin, async (req: AuthRequest, res) => {
+  const { ingredient, substitute, notes } = req.body;
+  const ratio = req.body.ratio === undefined ? 1 : Number(req.body.ratio);
+
+  if (typeof ingredient !== 'string' || typeof substitute !== 'string' || !ingredient.trim() || !substitute.trim()) {
+    return res.status(400).json({ error: 'ingredient and substitute names are required' });
+  }
+  if (isNaN(ratio) || ratio <= 0) {
+    return res.status(400).json({ error: 'ratio must be a positive number' });
+  }
+
+  const session = getSession();
+
+  try {
+    const names = await addSubstitute(
+      session,
+      ingredient.trim(),
+      substitute.trim(),
+      ratio,
+      typeof notes === 'string' && notes.trim() ? notes.trim() : null
+    );
+    if (!names) {
+      return res.status(400).json({ error: 'An ingredient cannot substitute for itself' });
+    }
+
+    res.status(201).json({ ...names, ratio });
+  } catch (error) {
+    console.error('Error adding substitute:', error);
+    res.status(500).json({ error: 'Failed to add substitute' });
+  } finally {
+    await session.close();
+  }
+});
+
+// Admin: remove a substitution
+router.delete('/substitutes', authenticateToken, requireAdmin, async (req: AuthRequest, res) => {
+  const { ingredient, substitute } = req.body;
+
+  if (typeof ingredient !== 'string' || typeof substitute !== 'string') {
+    return res.status(400).json({ error: 'ingredient and substitute names are required' });
+  }
+
+  const session = getSession();
+
+  try {
+    const names = await lookupIngredientNames(session, [ingredient, substitute]);
+    await session.run(
+      `MATCH (:Ingredient {name: $substitute})-[sub:SUBSTITUTES_FOR]->(:Ingredient {name: $ingredient})
+       DELETE sub`,
+      { ingredient: names.get(ingredient), substitute: names.get(substitute) }
+    );
+    res.json({ message: 'Substitute removed' });
+  } catch (error) {
+    console.error('Error removing substitute:', error);
+    res.status(500).json({ error: 'Failed to remove substitute' });
+  } finally {
+    await session.close();
+  }
+});
+
+export { router as ingredientRoutes };
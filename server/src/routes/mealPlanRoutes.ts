@@ -0,0 +1,373 @@
+import express from 'express';
+import { Session } from 'neo4j-driver';
+import { getSession } from '../database/neo4j.js';
+import { toNumber } from '../utils/neo4jHelpers.js';
+import { authenticateToken, requireSelf, AuthRequest } from '../middleware/auth.js';
+import { isValidDateString } from '../utils/expiry.js';
+import { addShoppingListItems, fromRecipeAmount } from '../utils/shoppingList.js';
+import { fromExtraProperties } from '../utils/units.js';
+import {
+  IngredientDemand,
+  MEAL_SLOTS,
+  aggregateDemand,
+  formatDemand,
+  getShortfall,
+  getWeekDays,
+  getWeekStart,
+  isMealSlot
+} from '../utils/mealPlans.js';
+
+const router = express.Router();
+
+// Parse the optional ?weekStart= (any day of the week); null means invalid
+const parseWeekStart = (value: unknown): string | null => {
+  if (value === undefined || value === '') return getWeekStart();
+  return isValidDateString(value) ? getWeekStart(value) : null;
+};
+
+const parseServings = (value: unknown): number | null | false => {
+  if (value === undefined || value === null || value === '') return null;
+  const servings = Number(value);
+  return isNaN(servings) || servings <= 0 ? false : servings;
+};
+
+// Load the meals planned for a week, ordered by day and slot
+const fetchMealPlan = async (session: Session, userId: string, weekStart: string) => {
+  const result = await session.run(
+    `MATCH (:User {id: $userId})-[:HAS_MEAL_PLAN]->(:MealPlan {weekStart: date($weekStart)})-[:HAS_MEAL]->(m:PlannedMeal)-[:OF_RECIPE]->(r:Recipe)
+     RETURN m.id as id, toString(m.day) as day, m.slot as slot, m.servings as servings,
+            r.id as recipeId, r.name as recipeName, r.servings as recipeServings, r.imageUrl as imageUrl
+     ORDER BY m.day`,
+    { userId, weekStart }
+  );
+
+  const meals = result.records
+    .map(record => ({
+      id: record.get('id'),
+      day: record.get('day'),
+      slot: record.get('slot'),
+      servings: toNumber(record.get('servings')) || toNumber(record.get('recipeServings')) || 1,
+      recipe: {
+        id: record.get('recipeId'),
+        name: record.get('recipeName'),
+        servings: toNumber(record.get('recipeServings')),
+        imageUrl: record.get('imageUrl') || null
+      }
+    }))
+    .sort((a, b) => a.day.localeCompare(b.day) || MEAL_SLOTS.indexOf(a.slot) - MEAL_SLOTS.indexOf(b.slot));
+
+  return { weekStart, days: getWeekDays(weekStart), meals };
+};
+
+// Add up the ingredients a week's meals need and compare them with the pantry
+const fetchDemand = async (session: Session, userId: string, weekStart: string): Promise<IngredientDemand[]> => {
+  const result = await session.run(
+    `MATCH (u:User {id: $userId})-[:HAS_MEAL_PLAN]->(:MealPlan {weekStart: date($weekStart)})-[:HAS_MEAL]->(m:PlannedMeal)-[:OF_RECIPE]->(r:Recipe)
+     MATCH (r)-[uses:USES]->(i:Ingredient)
+     RETURN i.name as name, uses.amount as amount, uses.unit as unit, r.name as recipeName,
+            coalesce(m.servings, r.servings, 1) as servings, coalesce(r.servings, 1) as recipeServings`,
+    { userId, weekStart }
+  );
+
+  const demand = aggregateDemand(result.records.map(record => {
+    const factor = toNumber(record.get('servings')) / (toNumber(record.get('recipeServings')) || 1);
+    const line = fromRecipeAmount(record.get('name'), record.get('amount'), record.get('unit'), factor);
+    return { name: line.name, quantity: line.quantity, unit: line.unit, recipeName: record.get('recipeName') };
+  }));
+
+  const pantryResult = await session.run(
+    `MATCH (:User {id: $userId})-[p:HAS_IN_PANTRY]->(i:Ingredient)
+     WHERE i.name IN $names
+     RETURN i.name as name, p.quantity as quantity, p.unit as unit,
+            p.extraQuantities as extraQuantities, p.extraUnits as extraUnits`,
+    { userId, names: [...demand.keys()] }
+  );
+  const pantry = new Map(pantryResult.records.map(record => [record.get('name'), {
+    quantity: record.get('quantity') === null || record.get('quantity') === undefined ? null : toNumber(record.get('quantity')),
+    unit: record.get('unit') || null,
+    extra: fromExtraProperties(record.get('extraQuantities'), record.get('extraUnits'))
+  }]));
+
+  return [...demand.entries()]
+    .map(([name, { required, recipes }]) => {
+      const available = pantry.get(name) ?? null;
+      return { name, required, available, shortfall: getShortfall(name, required, available), recipes };
+    })
+    .sort((a, b) => a.name.localeCompare(b.name));
+};
+
+// Get the meal plan for a week (?weekStart=YYYY-MM-DD, defaults to this week)
+router.get('/:userId', authenticateToken, requireSelf, async (req: AuthRequest, res) => {
+  const { userId } = req.params;
+  const weekStart = parseWeekStart(req.query.weekStart);
+
+  if (!weekStart) {
+    return res.status(400).json({ error: 'weekStart must be a date in YYYY-MM-DD format' });
+  }
+
+  const session = getSession();
+
+  try {
+    const plan = await fetchMealPlan(session, userId, weekStart);
+    res.json({ plan });
+  } catch (error) {
+    console.error('Error fetching meal plan:', error);
+    res.status(500).json({ error: 'Failed to fetch meal plan' });
+  } finally {
+    await session.close();
+  }
+});
+
+// Plan a recipe for a day and slot
+router.post('/:userId/meals', authenticateToken, requireSelf, async (req: AuthRequest, res) => {
+  const { userId } = req.params;
+  const { day, slot, recipeId } = req.body;
+  const servings = parseServings(req.body.servings);
+
+  if (!isValidDateString(day)) {
+    return res.status(400).json({ error: 'day must be a date in YYYY-MM-DD format' });
+  }
+  if (!isMealSlot(slot)) {
+    return res.status(400).json({ error: `slot must be one of: ${MEAL_SLOTS.join(', ')}` });
+  }
+  if (typeof recipeId !== 'string' || !recipeId) {
+    return res.status(400).json({ error: 'recipeId is required' });
+  }
+  if (servings === false) {
+    return res.status(400).json({ error: 'servings must be a positive number' });
+  }
+
+  const session = getSession();
+
+  try {
+    const weekStart = getWeekStart(day);
+    const mealId = `meal-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`;
+
+    const result = await session.run(
+      `MATCH (u:User {id: $userId})
+       MATCH (r:Recipe {id: $recipeId})
+       MERGE (u)-[:HAS_MEAL_PLAN]->(p:MealPlan {weekStart: date($weekStart)})
+       ON CREATE SET p.createdAt = datetime()
+       CREATE (p)-[:HAS_MEAL]->(m:PlannedMeal {
+         id: $mealId,
+         day: date($day),
+         slot: $slot,
+         servings: $servings,
+         createdAt: datetime()
+       })-[:OF_RECIPE]->(r)
+       RETURN m.id as id`,
+      { userId, recipeId, weekStart, mealId, day, slot, servings }
+    );
+
+    if (result.records.length === 0) {
+      return res.status(404).json({ error: 'User or recipe not found' });
+    }
+
+    const plan = await fetchMealPlan(session, userId, weekStart);
+    res.status(201).json({ plan });
+  } catch (error) {
+    console.error('Error adding planned meal:', error);
+    res.status(500).json({ error: 'Failed to add meal to plan' });
+  } finally {
+    await session.close();
+  }
+});
+
+// Move a planned meal to another day or slot, change its servings or swap the recipe
+router.patch('/:userId/meals/:mealId', authenticateToken, requireSelf, async (req: AuthRequest, res) => {
+  const { userId, mealId } = req.params;
+  const { day, slot, recipeId } = req.body;
+  const servings = parseServings(req.body.servings);
+
+  if (day !== undefined && !isValidDateString(day)) {
+    return res.status(400).json({ error: 'day must be a date in YYYY-MM-DD format' });
+  }
+  if (slot !== undefined && !isMealSlot(slot)) {
+    return res.status(400).json({ error: `slot must be one of: ${MEAL_SLOTS.join(', ')}` });
+  }
+  if (servings === false) {
+    return res.status(400).json({ error: 'servings must be a positive number' });
+  }
+
+  const session = getSession();
+
+  try {
+    const existing = await session.run(
+      `MATCH (:User {id: $userId})-[:HAS_MEAL_PLAN]->(:MealPlan)-[:HAS_MEAL]->(m:PlannedMeal {id: $mealId})
+       RETURN toString(m.day) as day`,
+      { userId, mealId }
+    );
+
+    if (existing.records.length === 0) {
+      return res.status(404).json({ error: 'Planned meal not found' });
+    }
+
+    if (recipeId !== undefined) {
+      const recipeCheck = await session.run('MATCH (r:Recipe {id: $recipeId}) RETURN r.id as id', { recipeId });
+      if (recipeCheck.records.length === 0) {
+        return res.status(404).json({ error: 'Recipe not found' });
+      }
+    }
+
+    const newDay = day ?? existing.records[0].get('day');
+    const weekStart = getWeekStart(newDay);
+
+    // Moving to another week re-attaches the meal to that week's plan
+    await session.run(
+      `MATCH (u:User {id: $userId})-[:HAS_MEAL_PLAN]->(:MealPlan)-[old:HAS_MEAL]->(m:PlannedMeal {id: $mealId})
+       MERGE (u)-[:HAS_MEAL_PLAN]->(p:MealPlan {weekStart: date($weekStart)})
+       ON CREATE SET p.createdAt = datetime()
+       SET m.day = date($day),
+           m.slot = coalesce($slot, m.slot),
+           m.servings = CASE WHEN $updateServings THEN $servings ELSE m.servings END
+       WITH old, p, m
+       WHERE NOT (p)-[:HAS_MEAL]->(m)
+       DELETE old
+       CREATE (p)-[:HAS_MEAL]->(m)`,
+      {
+        userId,
+        mealId,
+        weekStart,
+        day: newDay,
+        slot: slot ?? null,
+        updateServings: req.body.servings !== undefined,
+        servings
+      }
+    );
+
+    if (recipeId !== undefined) {
+      await session.run(
+        `MATCH (m:PlannedMeal {id: $mealId})-[old:OF_RECIPE]->(:Recipe)
+         MATCH (r:Recipe {id: $recipeId})
+         DELETE old
+         CREATE (m)-[:OF_RECIPE]->(r)`,
+        { mealId, recipeId }
+      );
+    }
+
+    const plan = await fetchMealPlan(session, userId, weekStart);
+    res.json({ plan });
+  } catch (error) {
+    console.error('Error updating planned meal:', error);
+    res.status(500).json({ error: 'Failed to update planned meal' });
+  } finally {
+    await session.close();
+  }
+});
+
+// Remove a planned meal
+router.delete('/:userId/meals/:mealId', authenticateToken, requireSelf, async (req: AuthRequest, res) => {
+  const { userId, mealId } = req.params;
+  const session = getSession();
+
+  try {
+    const result = await session.run(
+      `MATCH (:User {id: $userId})-[:HAS_MEAL_PLAN]->(:MealPlan)-[:HAS_MEAL]->(m:PlannedMeal {id: $mealId})
+       WITH m, toString(m.day) as day
+       DETACH DELETE m
+       RETURN day`,
+      { userId, mealId }
+    );
+
+    if (result.records.length === 0) {
+      return res.status(404).json({ error: 'Planned meal not found' });
+    }
+
+    const plan = await fetchMealPlan(session, userId, getWeekStart(result.records[0].get('day')));
+    res.json({ plan });
+  } catch (error) {
+    console.error('Error removing planned meal:', error);
+    res.status(500).json({ error: 'Failed to remove planned meal' });
+  } finally {
+    await session.close();
+  }
+});
+
+// Clear every meal planned for a week
+router.delete('/:userId', authenticateToken, requireSelf, async (req: AuthRequest, res) => {
+  const { userId } = req.params;
+  const weekStart = parseWeekStart(req.query.weekStart);
+
+  if (!weekStart) {
+    return res.status(400).json({ error: 'weekStart must be a date in YYYY-MM-DD format' });
+  }
+
+  const session = getSession();
+
+  try {
+    await session.run(
+      `MATCH (:User {id: $userId})-[:HAS_MEAL_PLAN]->(p:MealPlan {weekStart: date($weekStart)})
+       OPTIONAL MATCH (p)-[:HAS_MEAL]->(m:PlannedMeal)
+       DETACH DELETE m, p`,
+      { userId, weekStart }
+    );
+
+    const plan = await fetchMealPlan(session, userId, weekStart);
+    res.json({ plan });
+  } catch (error) {
+    console.error('Error clearing meal plan:', error);
+    res.status(500).json({ error: 'Failed to clear meal plan' });
+  } finally {
+    await session.close();
+  }
+});
+
+// Total ingredients needed for a week's meals against what's in the pantry
+router.get('/:userId/demand', authenticateToken, requireSelf, async (req: AuthRequest, res) => {
+  const { userId } = req.params;
+  const weekStart = parseWeekStart(req.query.weekStart);
+
+  if (!weekStart) {
+    return res.status(400).json({ error: 'weekStart must be a date in YYYY-MM-DD format' });
+  }
+
+  const session = getSession();
+
+  try {
+    const ingredients = await fetchDemand(session, userId, weekStart);
+    res.json({ weekStart, ingredients });
+  } catch (error) {
+    console.error('Error calculating meal plan demand:', error);
+    res.status(500).json({ error: 'Failed to calculate ingredient demand' });
+  } finally {
+    await session.close();
+  }
+});
+
+// Put everything the week's plan is short of on the shopping list. Gaps of
+// unknown size go on with a note so they can be checked before shopping.
+router.post('/:userId/shopping-list', authenticateToken, requireSelf, async (req: AuthRequest, res) => {
+  const { userId } = req.params;
+  const weekStart = parseWeekStart(req.body.weekStart ?? req.query.weekStart);
+
+  if (!weekStart) {
+    return res.status(400).json({ error: 'weekStart must be a date in YYYY-MM-DD format' });
+  }
+
+  const session = getSession();
+
+  try {
+    // Gaps of unknown size (the pantry item has no usable quantity) are shown by
+    // /demand but only added when asked for with includeUnknown
+    const includeUnknown = req.body.includeUnknown === true;
+    const gaps = (await fetchDemand(session, userId, weekStart))
+      .filter(item => item.shortfall !== null && (item.shortfall.quantity !== null || includeUnknown))
+      .map(item => ({
+        name: item.name,
+        quantity: item.shortfall?.quantity ?? null,
+        unit: item.shortfall?.unit ?? null,
+        extra: item.shortfall?.extra ?? [],
+        note: item.shortfall?.unknown && includeUnknown ? `Check pantry: the plan needs ${formatDemand(item.required)}` : null
+      }));
+
+    await addShoppingListItems(session, userId, gaps);
+    res.json({ added: gaps });
+  } catch (error) {
+    console.error('Error adding meal plan gaps to shopping list:', error);
+    res.status(500).json({ error: 'Failed to add meal plan to shopping list' });
+  } finally {
+    await session.close();
+  }
+});
+
+export { router as mealPlanRoutes };
@@ -1,26 +1,110 @@
 import express from 'express';
+import neo4j, { Session } from 'neo4j-driver';
 import { getSession } from '../database/neo4j.js';
+import { toNumber } from '../utils/neo4jHelpers.js';
+import { authenticateToken, requireSelf, AuthRequest } from '../middleware/auth.js';
+import { DEFAULT_EXPIRY_WINDOW_DAYS, ExpiryUrgency, getExpiryUrgency, isValidDateString } from '../utils/expiry.js';
+import { STORAGE_LOCATIONS, StorageLocation, getFreezerShelfLifeDays, isStorageLocation } from '../utils/storage.js';
+import { convertToSystem, fromExtraProperties, isUnitSystem } from '../utils/units.js';
+import { lookupIngredientName, lookupIngredientNames, resolveIngredientName } from '../utils/ingredientNames.js';
 
 const router = express.Router();
 
+interface PantryItemInput {
+  name: string;
+  quantity?: number | null;
+  unit?: string | null;
+  note?: string | null;
+  purchasedOn?: string | null;
+  expiresOn?: string | null;
+  location?: StorageLocation | null;
+}
+
+// Accept either a bare ingredient name or a pantry item object
+const normalizePantryItem = (item: any): PantryItemInput | null => {
+  if (typeof item === 'string') {
+    const name = item.trim();
+    return name ? { name } : null;
+  }
+
+  if (!item || typeof item.name !== 'string' || !item.name.trim()) {
+    return null;
+  }
+
+  const quantity = item.quantity === undefined || item.quantity === null || item.quantity === ''
+    ? null
+    : Number(item.quantity);
+
+  return {
+    name: item.name.trim(),
+    quantity,
+    unit: typeof item.unit === 'string' && item.unit.trim() ? item.unit.trim() : null,
+    note: typeof item.note === 'string' && item.note.trim() ? item.note.trim() : null,
+    purchasedOn: isValidDateString(item.purchasedOn) ? item.purchasedOn : null,
+    expiresOn: isValidDateString(item.expiresOn) ? item.expiresOn : null,
+    location: isStorageLocation(item.location) ? item.location : null
+  };
+};
+
+// Load a user's pantry, including the amounts, dates and location stored on HAS_IN_PANTRY.
+// Pass a location to only return items kept there. Quantities are also given
+// in the user's preferred unit system as `converted` when it is set.
+const fetchPantry = async (session: Session, userId: string, location?: StorageLocation) => {
+  const result = await session.run(
+    `MATCH (u:User {id: $userId})-[p:HAS_IN_PANTRY]->(i:Ingredient)
+     WHERE $location IS NULL OR p.location = $location
+     RETURN i.name as name, i.category as category, u.unitSystem as unitSystem,
+            p.quantity as quantity, p.unit as unit, p.extraQuantities as extraQuantities, p.extraUnits as extraUnits,
+            p.note as note, p.location as location, toString(p.purchasedOn) as purchasedOn, toString(p.expiresOn) as expiresOn,
+            CASE WHEN p.expiresOn IS NULL THEN null
+                 ELSE duration.inDays(date(), p.expiresOn).days END as daysUntilExpiry
+     ORDER BY i.name`,
+    { userId, location: location ?? null }
+  );
+
+  return result.records.map(record => {
+    const rawQuantity = record.get('quantity');
+    const quantity = rawQuantity === null || rawQuantity === undefined ? null : toNumber(rawQuantity);
+    const unit = record.get('unit') || null;
+    const unitSystem = record.get('unitSystem');
+    const converted = quantity !== null && isUnitSystem(unitSystem) ? convertToSystem(quantity, unit, unitSystem) : null;
+    const daysUntilExpiry = record.get('daysUntilExpiry');
+    return {
+      name: record.get('name'),
+      category: record.get('category'),
+      quantity,
+      unit,
+      converted: converted ? { quantity: converted.value, unit: converted.unit } : null,
+      extra: fromExtraProperties(record.get('extraQuantities'), record.get('extraUnits')),
+      note: record.get('note') || null,
+      location: record.get('location') || null,
+      purchasedOn: record.get('purchasedOn') || null,
+      expiresOn: record.get('expiresOn') || null,
+      daysUntilExpiry: daysUntilExpiry === null ? null : toNumber(daysUntilExpiry),
+      urgency: daysUntilExpiry === null ? null : getExpiryUrgency(toNumber(daysUntilExpiry))
+    };
+  });
+};
+
+// Parse the optional ?location= filter; undefined means "all locations"
+const parseLocationFilter = (value: unknown): StorageLocation | undefined | false => {
+  if (value === undefined || value === '') return undefined;
+  return isStorageLocation(value) ? value : false;
+};
+
 // Get user's pantry items
-router.get('/:userId', async (req, res) => {
+router.get('/:userId', authenticateToken, requireSelf, async (req: AuthRequest, res) => {
   const { userId } = req.params;
-  const session = getSession();
+  const location = parseLocationFilter(req.query.location);
 
-  try {
-    const result = await session.run(
-      `MATCH (u:User {id: $userId})-[:HAS_IN_PANTRY]->(i:Ingredient)
-       RETURN i.name as name, i.category as category
-       ORDER BY i.name`,
-      { userId }
-    );
+  if (location === false) {
+    return res.status(400).json({ error: `location must be one of: ${STORAGE_LOCATIONS.join(', ')}` });
+  }
 
-    const pantry = result.records.map(record => ({
-      name: record.get('name'),
-      category: record.get('category')
-    }));
+  const session = getSession();
 
+  try {
+    const pantry = await fetchPantry(session, userId, location);
     res.json({ pantry });
   } catch (error) {
     console.error('Error fetching pantry:', error);
@@ -30,80 +114,253 @@ router.get('/:userId', async (req, res) => {
   }
 });
 
+// List pantry items expiring within N days (including already expired ones), grouped by urgency
+router.get('/:userId/expiring', authenticateToken, requireSelf, async (req: AuthRequest, res) => {
+  const { userId } = req.params;
+  const days = req.query.days !== undefined ? Number(req.query.days) : DEFAULT_EXPIRY_WINDOW_DAYS;
+  const location = parseLocationFilter(req.query.location);
+
+  if (isNaN(days) || days < 0) {
+    return res.status(400).json({ error: 'days must be a non-negative number' });
+  }
+  if (location === false) {
+    return res.status(400).json({ error: `location must be one of: ${STORAGE_LOCATIONS.join(', ')}` });
+  }
+
+  const session = getSession();
+
+  try {
+    const pantry = await fetchPantry(session, userId, location);
+    const expiring = pantry
+      .filter(item => item.daysUntilExpiry !== null && item.daysUntilExpiry <= days)
+      .sort((a, b) => (a.daysUntilExpiry as number) - (b.daysUntilExpiry as number));
+
+    const groups: Record<ExpiryUrgency, typeof expiring> = {
+      expired: [],
+      critical: [],
+      soon: [],
+      upcoming: []
+    };
+    for (const item of expiring) {
+      groups[item.urgency as ExpiryUrgency].push(item);
+    }
+
+    res.json({ days, count: expiring.length, groups });
+  } catch (error) {
+    console.error('Error fetching expiring items:', error);
+    res.status(500).json({ error: 'Failed to fetch expiring items' });
+  } finally {
+    await session.close();
+  }
+});
+
 // Add items to pantry
-router.post('/:userId/items', async (req, res) => {
+router.post('/:userId/items', authenticateToken, requireSelf, async (req: AuthRequest, res) => {
   const { userId } = req.params;
-  const { items } = req.body; // Array of ingredient names
+  const { items } = req.body; // Array of ingredient names or pantry item objects
+
+  const pantryItems = (Array.isArray(items) ? items : [])
+    .map(normalizePantryItem)
+    .filter((item): item is PantryItemInput => item !== null);
+
+  if (pantryItems.some(item => item.quantity !== undefined && item.quantity !== null && (isNaN(item.quantity) || item.quantity < 0))) {
+    return res.status(400).json({ error: 'Quantity must be a non-negative number' });
+  }
+
   const session = getSession();
 
   try {
-    // First, ensure user exists
-    await session.run(
-      `MERGE (u:User {id: $userId})
-       ON CREATE SET u.createdAt = datetime()`,
+    // Users are created at signup - never implicitly here
+    const userCheck = await session.run(
+      'MATCH (u:User {id: $userId}) RETURN u.id as id',
       { userId }
     );
 
-    // Add each ingredient to pantry
-    for (const itemName of items) {
+    if (userCheck.records.length === 0) {
+      return res.status(404).json({ error: 'User not found' });
+    }
+
+    // Add each ingredient to pantry. Amounts are only overwritten when provided,
+    // so re-adding an existing item by name keeps what was recorded before.
+    // "Tomatoes" and "tomato" both land on the existing Tomato ingredient.
+    for (const item of pantryItems) {
+      const name = await resolveIngredientName(session, item.name);
       await session.run(
         `MATCH (u:User {id: $userId})
-         MERGE (i:Ingredient {name: $itemName})
-         MERGE (u)-[:HAS_IN_PANTRY]->(i)`,
-        { userId, itemName }
+         MATCH (i:Ingredient {name: $name})
+         MERGE (u)-[p:HAS_IN_PANTRY]->(i)
+         ON CREATE SET p.addedAt = datetime()
+         SET p.quantity = coalesce($quantity, p.quantity),
+             p.unit = coalesce($unit, p.unit),
+             p.note = coalesce($note, p.note),
+             p.purchasedOn = coalesce(date($purchasedOn), p.purchasedOn),
+             p.expiresOn = coalesce(date($expiresOn), p.expiresOn),
+             p.location = coalesce($location, p.location)`,
+        {
+          userId,
+          name,
+          quantity: item.quantity ?? null,
+          unit: item.unit ?? null,
+          note: item.note ?? null,
+          purchasedOn: item.purchasedOn ?? null,
+          expiresOn: item.expiresOn ?? null,
+          location: item.location ?? null
+        }
       );
     }
 
     // Return updated pantry
+    const pantry = await fetchPantry(session, userId);
+    res.json({ pantry });
+  } catch (error) {
+    console.error('Error adding to pantry:', error);
+    res.status(500).json({ error: 'Failed to add items to pantry' });
+  } finally {
+    await session.close();
+  }
+});
+
+// Update quantity, unit, note or dates of a single pantry item
+router.patch('/:userId/items/:itemName', authenticateToken, requireSelf, async (req: AuthRequest, res) => {
+  const { userId } = req.params;
+  const session = getSession();
+
+  try {
+    const itemName = await lookupIngredientName(session, req.params.itemName);
+    const updates: string[] = [];
+    const params: any = { userId, itemName };
+
+    if (req.body.quantity !== undefined) {
+      const quantity = req.body.quantity === null || req.body.quantity === '' ? null : Number(req.body.quantity);
+      if (quantity !== null && (isNaN(quantity) || quantity < 0)) {
+        return res.status(400).json({ error: 'Quantity must be a non-negative number' });
+      }
+      updates.push('p.quantity = $quantity');
+      params.quantity = quantity;
+    }
+    if (req.body.unit !== undefined) {
+      updates.push('p.unit = $unit');
+      params.unit = typeof req.body.unit === 'string' && req.body.unit.trim() ? req.body.unit.trim() : null;
+    }
+    if (req.body.note !== undefined) {
+      updates.push('p.note = $note');
+      params.note = typeof req.body.note === 'string' && req.body.note.trim() ? req.body.note.trim() : null;
+    }
+
+    for (const field of ['purchasedOn', 'expiresOn']) {
+      const value = req.body[field];
+      if (value === undefined) continue;
+      if (value !== null && value !== '' && !isValidDateString(value)) {
+        return res.status(400).json({ error: `${field} must be a date in YYYY-MM-DD format` });
+      }
+      updates.push(`p.${field} = date($${field})`);
+      params[field] = value || null;
+    }
+
+    if (updates.length === 0) {
+      return res.status(400).json({ error: 'No fields to update' });
+    }
+
+    updates.push('p.updatedAt = datetime()');
+
     const result = await session.run(
-      `MATCH (u:User {id: $userId})-[:HAS_IN_PANTRY]->(i:Ingredient)
-       RETURN i.name as name, i.category as category
-       ORDER BY i.name`,
-      { userId }
+      `MATCH (u:User {id: $userId})-[p:HAS_IN_PANTRY]->(i:Ingredient {name: $itemName})
+       SET ${updates.join(', ')}
+       RETURN i.name as name`,
+      params
     );
 
-    const pantry = result.records.map(record => ({
-      name: record.get('name'),
-      category: record.get('category')
-    }));
+    if (result.records.length === 0) {
+      return res.status(404).json({ error: 'Item not found in pantry' });
+    }
 
+    const pantry = await fetchPantry(session, userId);
     res.json({ pantry });
   } catch (error) {
-    console.error('Error adding to pantry:', error);
-    res.status(500).json({ error: 'Failed to add items to pantry' });
+    console.error('Error updating pantry item:', error);
+    res.status(500).json({ error: 'Failed to update pantry item' });
+  } finally {
+    await session.close();
+  }
+});
+
+// Move a pantry item to another storage location. Moving into the freezer
+// extends the expiry date by the freezer shelf life for the ingredient's
+// category, unless extendExpiry is false. shelfLifeDays overrides the rule.
+router.post('/:userId/items/:itemName/move', authenticateToken, requireSelf, async (req: AuthRequest, res) => {
+  const { userId } = req.params;
+  const { location, extendExpiry = true, shelfLifeDays } = req.body;
+
+  if (!isStorageLocation(location)) {
+    return res.status(400).json({ error: `location must be one of: ${STORAGE_LOCATIONS.join(', ')}` });
+  }
+  if (shelfLifeDays !== undefined && (isNaN(Number(shelfLifeDays)) || Number(shelfLifeDays) <= 0)) {
+    return res.status(400).json({ error: 'shelfLifeDays must be a positive number' });
+  }
+
+  const session = getSession();
+
+  try {
+    const itemName = await lookupIngredientName(session, req.params.itemName);
+    const existing = await session.run(
+      `MATCH (u:User {id: $userId})-[p:HAS_IN_PANTRY]->(i:Ingredient {name: $itemName})
+       RETURN i.category as category`,
+      { userId, itemName }
+    );
+
+    if (existing.records.length === 0) {
+      return res.status(404).json({ error: 'Item not found in pantry' });
+    }
+
+    const freezing = location === 'freezer' && extendExpiry !== false;
+    const extensionDays = freezing
+      ? Math.floor(shelfLifeDays !== undefined ? Number(shelfLifeDays) : getFreezerShelfLifeDays(existing.records[0].get('category')))
+      : 0;
+
+    // Only ever push the expiry date later - never shorten it by freezing
+    await session.run(
+      `MATCH (u:User {id: $userId})-[p:HAS_IN_PANTRY]->(i:Ingredient {name: $itemName})
+       WITH p, date() + duration({days: $extensionDays}) as frozenExpiry
+       SET p.location = $location,
+           p.frozenOn = CASE WHEN $location = 'freezer' THEN coalesce(p.frozenOn, date()) ELSE null END,
+           p.expiresOn = CASE
+             WHEN NOT $freezing THEN p.expiresOn
+             WHEN p.expiresOn IS NULL OR p.expiresOn < frozenExpiry THEN frozenExpiry
+             ELSE p.expiresOn
+           END,
+           p.updatedAt = datetime()`,
+      { userId, itemName, location, freezing, extensionDays: neo4j.int(extensionDays) }
+    );
+
+    const pantry = await fetchPantry(session, userId);
+    res.json({ pantry });
+  } catch (error) {
+    console.error('Error moving pantry item:', error);
+    res.status(500).json({ error: 'Failed to move pantry item' });
   } finally {
     await session.close();
   }
 });
 
 // Remove items from pantry
-router.delete('/:userId/items', async (req, res) => {
+router.delete('/:userId/items', authenticateToken, requireSelf, async (req: AuthRequest, res) => {
   const { userId } = req.params;
   const { items } = req.body; // Array of ingredient names
   const session = getSession();
 
   try {
-    for (const itemName of items) {
+    const names: string[] = Array.isArray(items) ? items.filter((name: any) => typeof name === 'string') : [];
+    const canonical = await lookupIngredientNames(session, names);
+    for (const itemName of names) {
       await session.run(
         `MATCH (u:User {id: $userId})-[r:HAS_IN_PANTRY]->(i:Ingredient {name: $itemName})
          DELETE r`,
-        { userId, itemName }
+        { userId, itemName: canonical.get(itemName) || itemName }
       );
     }
 
     // Return updated pantry
-    const result = await session.run(
-      `MATCH (u:User {id: $userId})-[:HAS_IN_PANTRY]->(i:Ingredient)
-       RETURN i.name as name, i.category as category
-       ORDER BY i.name`,
-      { userId }
-    );
-
-    const pantry = result.records.map(record => ({
-      name: record.get('name'),
-      category: record.get('category')
-    }));
-
+    const pantry = await fetchPantry(session, userId);
     res.json({ pantry });
   } catch (error) {
     console.error('Error removing from pantry:', error);
@@ -119,7 +376,9 @@ router.get('/ingredients/all', async (req, res) => {
 
   try {
     const result = await session.run(
-      'MATCH (i:Ingredient) RETURN i.name as name, i.category as category ORDER BY i.name'
+      `MATCH (i:Ingredient)
+       WHERE NOT coalesce(i.abstract, false)
+       RETURN i.name as name, i.category as category ORDER BY i.name`
     );
 
     const ingredients = result.records.map(record => ({
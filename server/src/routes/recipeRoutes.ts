@@ -1,4 +1,5 @@
 import express from 'express';
+import neo4j, { Session } from 'neo4j-driver';
 import { getSession } from '../database/neo4j.js';
 
 // Conditionally import axios (optional for web recipe fetching)
@@ -15,15 +16,88 @@ const loadAxios = async () => {
   }
 };
 import { toNumber } from '../utils/neo4jHelpers.js';
-import { authenticateToken, optionalAuth, AuthRequest } from '../middleware/auth.js';
-import { violatesDietaryPreference, matchesAllergy } from '../utils/dietaryFilters.js';
+import { authenticateToken, optionalAuth, requireAdmin, AuthRequest } from '../middleware/auth.js';
+import { ExclusionReason, findExclusionReasons } from '../utils/dietaryFilters.js';
+import { AllergenMatch, findAllergenMatches } from '../utils/allergens.js';
+import { updateDietaryTags } from '../utils/dietaryTags.js';
+import { CustomDiet, fetchCustomDiets, fetchIngredientCategories, findCustomDietReasons } from '../utils/customDiets.js';
+import { DEFAULT_EXPIRY_WINDOW_DAYS } from '../utils/expiry.js';
+import { normalizeSteps, splitInstructions, saveRecipeSteps, fetchRecipeSteps } from '../utils/recipeSteps.js';
+import { IngredientLine, findRepeatedIngredients, normalizeIngredientLine, parseMeasure, saveIngredientLines } from '../utils/ingredientLines.js';
+import { lookupIngredientNames, resolveIngredientName } from '../utils/ingredientNames.js';
+import { fetchAncestors, findGeneralisations } from '../utils/ingredientHierarchy.js';
+import { Substitution, findSubstitutions } from '../utils/substitutions.js';
+import { scaleAmount } from '../utils/quantities.js';
+import { computeRecipeNutrition, fetchIngredientNutrition } from '../utils/nutrition.js';
+import {
+  NutritionBudget,
+  NutritionGoals,
+  fetchEatenToday,
+  fromGoalProperties,
+  getGoalFit,
+  getNutritionBudget,
+  hasNutritionGoals,
+  isTimeZone
+} from '../utils/nutritionGoals.js';
+import { UnitSystem, isUnitSystem, convertAmountToSystem, addQuantities, fromExtraProperties, toExtraProperties } from '../utils/units.js';
+import { IngredientCoverage, PantryQuantity, getIngredientCoverage, getCoverageRatio } from '../utils/ingredientCoverage.js';
+import { fromRecipeAmount } from '../utils/shoppingList.js';
+import { PantryDeduction, PantrySnapshot, planDeductions } from '../utils/cooking.js';
 
 const router = express.Router();
 
+// Score added per recipe ingredient that is about to expire in the user's pantry
+const EXPIRY_BOOST_PER_INGREDIENT = 0.15;
+const SUGGESTION_LIMIT = 20;
+// Quantity matching re-ranks in JS, so fetch a wider pool of candidates first
+const QUANTITY_MATCH_CANDIDATES = 100;
+const LIKED_BOOST = 0.3;
+// Pushes recently cooked recipes below similar matches when avoidCookedWithinDays is set
+const RECENTLY_COOKED_PENALTY = 0.5;
+
 // Get recipe suggestions based on pantry items and dietary preferences
-// Uses optionalAuth to support both authenticated and unauthenticated users
+// Uses optionalAuth to support both authenticated and unauthenticated users.
+// matchMode 'quantity' compares pantry quantities against recipe amounts and
+// scores by coverage; the default 'names' only counts matching ingredients.
+// maxMissing limits how many ingredients may be missing; cookableNow is
+// shorthand for none missing (and, when matching quantities, none short).
+// avoidCookedWithinDays down-ranks recipes the user cooked in the last N days.
+// allowSubstitutes counts an ingredient as covered when the pantry holds a
+// substitute for it that suits the user's diets and allergies.
+// The user's active custom diets are applied alongside the built-in ones.
+// explain (or debug) also returns the recipes hidden by the user's diets and
+// allergies as `excluded`, each with structured `exclusionReasons`.
+// goalMode 'rank' orders recipes by how well a serving fits what is left of the
+// user's nutrition goals today (meals logged as cooked count as eaten); 'filter'
+// drops those that don't fit. Both add `nutrition` and `goalFit` to each recipe.
+// timeZone sets which day counts as today (UTC by default).
 router.post('/suggestions', optionalAuth, async (req: AuthRequest, res) => {
-  const { pantryItems } = req.body;
+  const {
+    pantryItems, prioritizeExpiring, expiringWithinDays, matchMode = 'names', cookableNow, avoidCookedWithinDays, allowSubstitutes
+  } = req.body;
+  const explain = !!(req.body.explain || req.body.debug);
+  const goalMode = req.body.goalMode ?? null;
+
+  const timeZone = req.body.timeZone ?? 'Z';
+
+  if (goalMode !== null && goalMode !== 'rank' && goalMode !== 'filter') {
+    return res.status(400).json({ error: 'goalMode must be rank or filter' });
+  }
+  if (!isTimeZone(timeZone)) {
+    return res.status(400).json({ error: 'timeZone must be a time zone name or an offset such as +02:00' });
+  }
+  if (matchMode !== 'names' && matchMode !== 'quantity') {
+    return res.status(400).json({ error: 'matchMode must be names or quantity' });
+  }
+  const maxMissing = cookableNow ? 0 : req.body.maxMissing === undefined || req.body.maxMissing === null ? null : Number(req.body.maxMissing);
+  if (maxMissing !== null && (isNaN(maxMissing) || maxMissing < 0)) {
+    return res.status(400).json({ error: 'maxMissing must be a non-negative number' });
+  }
+  const recentDays = avoidCookedWithinDays === undefined || avoidCookedWithinDays === null ? null : Number(avoidCookedWithinDays);
+  if (recentDays !== null && (isNaN(recentDays) || recentDays <= 0)) {
+    return res.status(400).json({ error: 'avoidCookedWithinDays must be a positive number' });
+  }
+  const quantityMode = matchMode === 'quantity';
   // Get userId from authenticated token (req.userId is set by optionalAuth middleware if token is valid)
   const userId = req.userId;
   const authHeader = req.headers['authorization'];
@@ -37,21 +111,52 @@ router.post('/suggestions', optionalAuth, async (req: AuthRequest, res) => {
   const session = getSession();
 
   try {
-    // Validate input
-    const validPantryItems = Array.isArray(pantryItems) ? pantryItems.filter(Boolean) : [];
+    // Validate input. Items may be names or {name, quantity, unit} objects.
+    const requestedQuantities = new Map<string, PantryQuantity>();
+    const requestedItems: string[] = (Array.isArray(pantryItems) ? pantryItems : [])
+      .map((item: any) => {
+        if (typeof item === 'string') return item;
+        if (!item || typeof item.name !== 'string') return '';
+        const quantity = Number(item.quantity);
+        requestedQuantities.set(item.name, {
+          quantity: item.quantity === undefined || item.quantity === null || isNaN(quantity) ? null : quantity,
+          unit: typeof item.unit === 'string' ? item.unit : null
+        });
+        return item.name;
+      })
+      .filter(Boolean);
 
-    if (validPantryItems.length === 0) {
+    if (requestedItems.length === 0) {
       return res.json({ recipes: [] });
     }
 
+    // Match "tomatoes" or "scallions" against the stored Tomato and Green Onion
+    const canonicalNames = await lookupIngredientNames(session, requestedItems);
+    const pantryQuantities = new Map<string, PantryQuantity>();
+    for (const [name, quantity] of requestedQuantities) {
+      pantryQuantities.set(canonicalNames.get(name) || name, quantity);
+    }
+    const validPantryItems = [...new Set(requestedItems.map(name => canonicalNames.get(name) || name))];
+
+    // Pantry items also cover the more general ingredients they belong to:
+    // holding Cheddar means a recipe that asks for Cheese is covered
+    const generalisations = await findGeneralisations(session, validPantryItems);
+    const matchableItems = [...validPantryItems, ...generalisations.keys()];
+    const pantryQuantityFor = (name: string): PantryQuantity | undefined => {
+      const item = validPantryItems.includes(name) ? name : generalisations.get(name);
+      return item ? pantryQuantities.get(item) ?? { quantity: null, unit: null } : undefined;
+    };
+
     // Get user preferences (only if userId is available from authenticated token)
     let dietaryPreferences: string[] = [];
     let allergies: string[] = [];
+    let customDiets: CustomDiet[] = [];
+    let nutritionGoals: NutritionGoals | null = null;
 
     if (userId) {
       try {
         const userResult = await session.run(
-          'MATCH (u:User {id: $userId}) RETURN u.dietaryPreferences as preferences, u.allergies as allergies, u.email as email',
+          'MATCH (u:User {id: $userId}) RETURN u.dietaryPreferences as preferences, u.allergies as allergies, u.email as email, u',
           { userId }
         );
 
@@ -70,6 +175,12 @@ router.post('/suggestions', optionalAuth, async (req: AuthRequest, res) => {
 
           console.log('Processed dietaryPreferences:', dietaryPreferences);
           console.log('Processed allergies:', allergies);
+
+          customDiets = await fetchCustomDiets(session, userId, true);
+          console.log('Active custom diets:', customDiets.map(diet => diet.name));
+          if (goalMode) {
+            nutritionGoals = fromGoalProperties(user.get('u').properties);
+          }
           console.log('=== End preference loading ===\n');
         } else {
           console.log(`User ${userId} not found in database`);
@@ -81,6 +192,53 @@ router.post('/suggestions', optionalAuth, async (req: AuthRequest, res) => {
       console.log('No userId available - user preferences will not be applied');
     }
 
+    // Ingredients the pantry can stand in for, e.g. olive oil for butter
+    const substitutions = allowSubstitutes
+      ? await findSubstitutions(
+        session,
+        new Map([...validPantryItems.map((name): [string, string] => [name, name]), ...generalisations]),
+        dietaryPreferences,
+        allergies,
+        customDiets
+      )
+      : new Map<string, Substitution>();
+    matchableItems.push(...substitutions.keys());
+
+    // Load ingredients that are about to expire so recipes using them can be boosted
+    let expiringItems: string[] = [];
+    if (userId && prioritizeExpiring) {
+      const windowDays = Number(expiringWithinDays);
+      const expiringResult = await session.run(
+        `MATCH (u:User {id: $userId})-[p:HAS_IN_PANTRY]->(i:Ingredient)
+         WHERE p.expiresOn IS NOT NULL AND p.expiresOn <= date() + duration({days: $days})
+         RETURN i.name as name`,
+        { userId, days: neo4j.int(isNaN(windowDays) || windowDays < 0 ? DEFAULT_EXPIRY_WINDOW_DAYS : Math.floor(windowDays)) }
+      );
+      expiringItems = expiringResult.records.map(record => record.get('name'));
+      expiringItems.push(...[...generalisations].filter(([, item]) => expiringItems.includes(item)).map(([general]) => general));
+      console.log('Boosting recipes that use expiring items:', expiringItems);
+    }
+
+    // Quantities the client didn't send come from the user's stored pantry
+    if (quantityMode && userId) {
+      const quantityResult = await session.run(
+        `MATCH (u:User {id: $userId})-[p:HAS_IN_PANTRY]->(i:Ingredient)
+         WHERE i.name IN $pantryItems
+         RETURN i.name as name, p.quantity as quantity, p.unit as unit`,
+        { userId, pantryItems: validPantryItems }
+      );
+      for (const record of quantityResult.records) {
+        const name = record.get('name');
+        const quantity = record.get('quantity');
+        if (!pantryQuantities.has(name)) {
+          pantryQuantities.set(name, {
+            quantity: quantity === null || quantity === undefined ? null : toNumber(quantity),
+            unit: record.get('unit') || null
+          });
+        }
+      }
+    }
+
     // Build query to find recipes that use pantry items
     // Score recipes by how many pantry ingredients they use
     // Boost score if user has liked the recipe (only if authenticated)
@@ -90,46 +248,69 @@ router.post('/suggestions', optionalAuth, async (req: AuthRequest, res) => {
       OPTIONAL MATCH (user:User {id: $userId})-[l:LIKES]->(r)
       WITH r, count(i) as matchingIngredients, collect(i.name) as usedIngredients,
            CASE WHEN l IS NOT NULL THEN 1 ELSE 0 END as isLiked
-      MATCH (r)-[:USES]->(allIngredients:Ingredient)
+      MATCH (r)-[allUses:USES]->(allIngredients:Ingredient)
       WITH r, matchingIngredients, usedIngredients, count(allIngredients) as totalIngredients,
-           collect(DISTINCT allIngredients.name) as allIngredientNames, isLiked
-      WHERE matchingIngredients > 0
+           collect(DISTINCT allIngredients.name) as allIngredientNames,
+           collect({name: allIngredients.name, amount: allUses.amount, unit: allUses.unit}) as ingredientLines, isLiked
+      WHERE matchingIngredients > 0 AND ($maxMissing IS NULL OR totalIngredients - matchingIngredients <= $maxMissing)
       WITH r, matchingIngredients, totalIngredients,
            toFloat(matchingIngredients) / toFloat(totalIngredients) as matchRatio,
-           usedIngredients, allIngredientNames, isLiked,
-           (toFloat(matchingIngredients) / toFloat(totalIngredients) + (isLiked * 0.3)) as finalScore
+           usedIngredients, allIngredientNames, ingredientLines, isLiked,
+           [name IN usedIngredients WHERE name IN $expiringItems] as expiringIngredients,
+           CASE WHEN $recentDays IS NULL THEN 0
+                ELSE size([(:User {id: $userId})-[c:COOKED]->(r) WHERE c.cookedAt >= datetime() - duration({days: $recentDays}) | c])
+           END as recentCooks
+      WITH r, matchingIngredients, totalIngredients, matchRatio, allIngredientNames, ingredientLines, isLiked, expiringIngredients,
+           CASE WHEN recentCooks > 0 THEN 1 ELSE 0 END as recentlyCooked
+      WITH r, matchingIngredients, totalIngredients, matchRatio, allIngredientNames, ingredientLines, isLiked, expiringIngredients, recentlyCooked,
+           (matchRatio + (isLiked * $likedBoost) + (size(expiringIngredients) * $expiryBoost) - (recentlyCooked * $recentPenalty)) as finalScore
       ORDER BY finalScore DESC, matchRatio DESC, matchingIngredients DESC
-      LIMIT 20
+      LIMIT $limit
       RETURN r.id as id, r.name as name, r.description as description,
              r.prepTime as prepTime, r.cookTime as cookTime, r.servings as servings,
-             r.difficulty as difficulty, r.dietaryTags as dietaryTags,
+             r.difficulty as difficulty, r.dietaryTags as dietaryTags, r.createdBy as createdBy,
              CASE WHEN r.sourceUrl IS NOT NULL THEN r.sourceUrl ELSE null END as sourceUrl,
              CASE WHEN r.imageUrl IS NOT NULL THEN r.imageUrl ELSE null END as imageUrl,
-             matchingIngredients, totalIngredients, matchRatio, allIngredientNames, isLiked
+             matchingIngredients, totalIngredients, matchRatio, allIngredientNames, ingredientLines, isLiked,
+             expiringIngredients, recentlyCooked
     ` : `
       MATCH (r:Recipe)-[rel:USES]->(i:Ingredient)
       WHERE i.name IN $pantryItems
       WITH r, count(i) as matchingIngredients, collect(i.name) as usedIngredients
-      MATCH (r)-[:USES]->(allIngredients:Ingredient)
+      MATCH (r)-[allUses:USES]->(allIngredients:Ingredient)
       WITH r, matchingIngredients, usedIngredients, count(allIngredients) as totalIngredients,
-           collect(DISTINCT allIngredients.name) as allIngredientNames
-      WHERE matchingIngredients > 0
+           collect(DISTINCT allIngredients.name) as allIngredientNames,
+           collect({name: allIngredients.name, amount: allUses.amount, unit: allUses.unit}) as ingredientLines
+      WHERE matchingIngredients > 0 AND ($maxMissing IS NULL OR totalIngredients - matchingIngredients <= $maxMissing)
       WITH r, matchingIngredients, totalIngredients,
            toFloat(matchingIngredients) / toFloat(totalIngredients) as matchRatio,
-           usedIngredients, allIngredientNames
+           usedIngredients, allIngredientNames, ingredientLines
       ORDER BY matchRatio DESC, matchingIngredients DESC
-      LIMIT 20
+      LIMIT $limit
       RETURN r.id as id, r.name as name, r.description as description,
              r.prepTime as prepTime, r.cookTime as cookTime, r.servings as servings,
-             r.difficulty as difficulty, r.dietaryTags as dietaryTags,
+             r.difficulty as difficulty, r.dietaryTags as dietaryTags, r.createdBy as createdBy,
              CASE WHEN r.sourceUrl IS NOT NULL THEN r.sourceUrl ELSE null END as sourceUrl,
              CASE WHEN r.imageUrl IS NOT NULL THEN r.imageUrl ELSE null END as imageUrl,
-             matchingIngredients, totalIngredients, matchRatio, allIngredientNames, 0 as isLiked
+             matchingIngredients, totalIngredients, matchRatio, allIngredientNames, ingredientLines, 0 as isLiked,
+             [] as expiringIngredients, 0 as recentlyCooked
     `;
 
+    const limit = neo4j.int(quantityMode ? QUANTITY_MATCH_CANDIDATES : SUGGESTION_LIMIT);
+    const missingLimit = maxMissing === null ? null : neo4j.int(Math.floor(maxMissing));
     const result = await session.run(query, userId
-      ? { pantryItems: validPantryItems, userId }
-      : { pantryItems: validPantryItems });
+      ? {
+        pantryItems: matchableItems,
+        userId,
+        expiringItems,
+        expiryBoost: EXPIRY_BOOST_PER_INGREDIENT,
+        likedBoost: LIKED_BOOST,
+        recentDays: recentDays === null ? null : neo4j.int(Math.floor(recentDays)),
+        recentPenalty: RECENTLY_COOKED_PENALTY,
+        limit,
+        maxMissing: missingLimit
+      }
+      : { pantryItems: matchableItems, limit, maxMissing: missingLimit });
 
     let recipes = result.records.map(record => {
       const dietaryTags = record.get('dietaryTags') || [];
@@ -139,6 +320,22 @@ router.post('/suggestions', optionalAuth, async (req: AuthRequest, res) => {
       const matchRatio = record.get('matchRatio');
 
       const isLiked = record.get('isLiked');
+      const expiringIngredients = record.get('expiringIngredients') || [];
+      const ingredientLines = record.get('ingredientLines') || [];
+      const coverage = quantityMode
+        ? ingredientLines.map((line: any) => {
+          // A substitute has to cover the recipe amount times its ratio
+          const substitution = substitutions.get(line.name);
+          return substitution
+            ? getIngredientCoverage(
+              line.name,
+              scaleAmount(line.amount, substitution.ratio, line.unit || ''),
+              line.unit,
+              pantryQuantities.get(substitution.pantryItem) ?? { quantity: null, unit: null }
+            )
+            : getIngredientCoverage(line.name, line.amount, line.unit, pantryQuantityFor(line.name));
+        })
+        : null;
 
       return {
         id: record.get('id') || '',
@@ -149,11 +346,24 @@ router.post('/suggestions', optionalAuth, async (req: AuthRequest, res) => {
         servings: toNumber(record.get('servings')),
         difficulty: record.get('difficulty') || 'Unknown',
         dietaryTags: Array.isArray(dietaryTags) ? dietaryTags : [],
+        createdBy: record.get('createdBy') || null,
         matchingIngredients: toNumber(matchingIngredients),
         totalIngredients: toNumber(totalIngredients),
         matchRatio: toNumber(matchRatio),
         allIngredients: Array.isArray(allIngredientNames) ? allIngredientNames : [],
+        haveIngredients: allIngredientNames.filter((name: string) => matchableItems.includes(name)),
+        missingIngredients: allIngredientNames.filter((name: string) => !matchableItems.includes(name)),
+        generalisedMatches: allIngredientNames
+          .filter((name: string) => generalisations.has(name))
+          .map((name: string) => ({ ingredient: name, pantryItem: generalisations.get(name)! })),
+        substitutions: allIngredientNames
+          .filter((name: string) => substitutions.has(name))
+          .map((name: string) => substitutions.get(name)!),
         isLiked: toNumber(isLiked) === 1,
+        recentlyCooked: toNumber(record.get('recentlyCooked')) === 1,
+        expiringIngredients: Array.isArray(expiringIngredients) ? expiringIngredients : [],
+        coverage,
+        coverageRatio: coverage ? getCoverageRatio(coverage) : null,
         sourceUrl: (() => {
           try {
             const val = record.get('sourceUrl');
@@ -173,29 +383,60 @@ router.post('/suggestions', optionalAuth, async (req: AuthRequest, res) => {
       };
     });
 
+    // Rank by how much of each ingredient is actually on hand
+    if (quantityMode) {
+      // Amounts that can't be checked don't rule a recipe out, only known gaps do
+      if (cookableNow) {
+        recipes = recipes.filter(recipe => (recipe.coverage || []).every((item: IngredientCoverage) => item.status === 'full' || item.status === 'unknown'));
+      }
+      const score = (recipe: typeof recipes[number]) =>
+        (recipe.coverageRatio ?? 0) + (recipe.isLiked ? LIKED_BOOST : 0) + recipe.expiringIngredients.length * EXPIRY_BOOST_PER_INGREDIENT
+        - (recipe.recentlyCooked ? RECENTLY_COOKED_PENALTY : 0);
+      recipes = recipes
+        .sort((a, b) => score(b) - score(a) || (b.coverageRatio ?? 0) - (a.coverageRatio ?? 0))
+        .slice(0, SUGGESTION_LIMIT);
+    }
+
     const beforeFiltering = recipes.length;
     console.log(`\n=== Filtering ${beforeFiltering} recipes ===`);
     console.log('Dietary preferences to apply:', dietaryPreferences);
     console.log('Allergies to apply:', allergies);
 
-    // Filter by dietary preferences - exclude recipes with forbidden ingredients
-    // This filtering is CRITICAL - it must always run if user has preferences
-    if (dietaryPreferences.length > 0) {
-      const beforeDietary = recipes.length;
-      recipes = recipes.filter(recipe => {
-        // Always exclude recipes that contain forbidden ingredients
-        const containsForbiddenIngredient = recipe.allIngredients.some((ing: string) => {
-          const violates = violatesDietaryPreference(ing, dietaryPreferences);
-          if (violates) {
-            console.log(`  ❌ Filtering "${recipe.name}" - ingredient "${ing}" violates preferences: ${dietaryPreferences.join(', ')}`);
-          }
-          return violates;
-        });
+    // Filter by dietary preferences, custom diets and allergies - exclude recipes with forbidden ingredients.
+    // This filtering is CRITICAL - it must always run if user has preferences or allergies.
+    // Every reason is collected so explain mode can tell the user why a recipe is hidden.
+    const ancestors = dietaryPreferences.length > 0 || customDiets.length > 0
+      ? await fetchAncestors(session, recipes.flatMap(recipe => recipe.allIngredients), true)
+      : new Map<string, string[]>();
+    const categories = customDiets.some(diet => diet.forbiddenCategories.length > 0)
+      ? await fetchIngredientCategories(session, recipes.flatMap(recipe => recipe.allIngredients))
+      : new Map<string, string[]>();
+    const allergenMatches = allergies.length > 0
+      ? await findAllergenMatches(session, recipes.flatMap(recipe => recipe.allIngredients), allergies)
+      : new Map<string, AllergenMatch>();
+    if (dietaryPreferences.length === 0 && customDiets.length === 0) {
+      console.log('No dietary preferences - skipping dietary filter');
+    }
+    if (allergies.length === 0) {
+      console.log('No allergies - skipping allergy filter');
+    }
 
-        return !containsForbiddenIngredient;
-      });
-      console.log(`Dietary filtering: ${beforeDietary} -> ${recipes.length} recipes (removed ${beforeDietary - recipes.length})`);
+    const excluded: (typeof recipes[number] & { exclusionReasons: ExclusionReason[] })[] = [];
+    recipes = recipes.filter(recipe => {
+      const exclusionReasons = [
+        ...findExclusionReasons(recipe.allIngredients, dietaryPreferences, ancestors, allergenMatches),
+        ...findCustomDietReasons(recipe, customDiets, ancestors, categories)
+      ];
+      for (const reason of exclusionReasons) {
+        console.log(`  ❌ Filtering "${recipe.name}" - ${reason.detail}`);
+      }
+      if (exclusionReasons.length > 0) {
+        excluded.push({ ...recipe, exclusionReasons });
+      }
+      return exclusionReasons.length === 0;
+    });
 
+    if (dietaryPreferences.length > 0) {
       // Sort recipes to prioritize those with matching dietary tags
       recipes.sort((a, b) => {
         const aHasMatchingTag = dietaryPreferences.some(pref =>
@@ -209,34 +450,58 @@ router.post('/suggestions', optionalAuth, async (req: AuthRequest, res) => {
         if (!aHasMatchingTag && bHasMatchingTag) return 1;
         return 0; // Keep original order if both have or don't have matching tags
       });
-    } else {
-      console.log('No dietary preferences - skipping dietary filter');
     }
 
-    // Filter out recipes with allergens
-    // This filtering is CRITICAL - it must always run if user has allergies
-    if (allergies.length > 0) {
-      const beforeAllergy = recipes.length;
-      recipes = recipes.filter(recipe => {
-        // Check if any recipe ingredient matches an allergy
-        const containsAllergen = recipe.allIngredients.some((ing: string) => {
-          const matches = matchesAllergy(ing, allergies);
-          if (matches) {
-            console.log(`  ❌ Filtering "${recipe.name}" - ingredient "${ing}" matches allergy: ${allergies.join(', ')}`);
-          }
-          return matches;
-        });
-        return !containsAllergen;
+    // Rank or filter by how well a serving fits the rest of today's nutrition goals
+    let nutritionBudget: NutritionBudget | null = null;
+    if (userId && nutritionGoals && hasNutritionGoals(nutritionGoals)) {
+      const budget = getNutritionBudget(nutritionGoals, await fetchEatenToday(session, userId, timeZone));
+      console.log('Nutrition budget for this meal:', budget);
+      const linesById = new Map<string, any[]>(result.records.map(record => [record.get('id'), record.get('ingredientLines') || []]));
+      const nutrition = await fetchIngredientNutrition(session, recipes.flatMap(recipe => recipe.allIngredients));
+
+      let scored = recipes.map(recipe => {
+        const lines = linesById.get(recipe.id) || [];
+        const { perServing, missing } = computeRecipeNutrition(lines, nutrition, recipe.servings || 1);
+        // No figures at all when none of the ingredients could be counted; partial
+        // figures are shown but flagged and never count as fitting
+        const known = missing.length < lines.length ? perServing : null;
+        return { ...recipe, nutrition: known, nutritionMissing: missing, goalFit: getGoalFit(known, budget, missing) };
       });
-      console.log(`Allergy filtering: ${beforeAllergy} -> ${recipes.length} recipes (removed ${beforeAllergy - recipes.length})`);
-    } else {
-      console.log('No allergies - skipping allergy filter');
+
+      if (goalMode === 'filter') {
+        for (const recipe of scored.filter(recipe => !recipe.goalFit.fits)) {
+          console.log(`  ❌ Filtering "${recipe.name}" - ${recipe.goalFit.problems.join('; ')}`);
+          excluded.push({
+            ...recipe,
+            exclusionReasons: recipe.goalFit.problems.map(problem => ({
+              rule: 'nutrition-goal',
+              ingredient: null,
+              preference: null,
+              allergy: null,
+              detail: problem
+            }))
+          });
+        }
+        scored = scored.filter(recipe => recipe.goalFit.fits);
+      } else {
+        scored.sort((a, b) => b.goalFit.score - a.goalFit.score);
+      }
+
+      recipes = scored;
+      nutritionBudget = budget;
+    } else if (goalMode) {
+      console.log('No nutrition goals set - skipping goal ranking');
     }
 
     console.log(`Final result: ${beforeFiltering} -> ${recipes.length} recipes (filtered out ${beforeFiltering - recipes.length})`);
     console.log('=== End filtering ===\n');
 
-    res.json({ recipes });
+    res.json({
+      recipes,
+      ...(explain ? { excluded } : {}),
+      ...(nutritionBudget ? { nutritionBudget } : {})
+    });
   } catch (error: any) {
     console.error('Error getting recipe suggestions:', error);
     console.error('Error details:', {
@@ -288,18 +553,78 @@ router.get('/', async (req, res) => {
   }
 });
 
-// Create a new recipe (requires authentication)
+// A recipe with its ingredient lines, as returned after creating or updating it
+const fetchSavedRecipe = async (session: Session, recipeId: string) => {
+  const result = await session.run(
+    `MATCH (r:Recipe {id: $recipeId})
+     OPTIONAL MATCH (r)-[u:USES]->(i:Ingredient)
+     WITH r, collect({name: i.name, amount: u.amount, unit: u.unit, note: u.note}) as ingredients
+     RETURN r, ingredients`,
+    { recipeId }
+  );
+
+  if (result.records.length === 0) return null;
+
+  const record = result.records[0];
+  const recipe = record.get('r').properties;
+  return {
+    id: recipe.id,
+    name: recipe.name,
+    description: recipe.description || '',
+    prepTime: toNumber(recipe.prepTime),
+    cookTime: toNumber(recipe.cookTime),
+    servings: toNumber(recipe.servings),
+    difficulty: recipe.difficulty || 'Easy',
+    dietaryTags: recipe.dietaryTags || [],
+    ingredients: record.get('ingredients') || [],
+    createdBy: recipe.createdBy
+  };
+};
+
+// Only the user who created a recipe, or an admin, may change or delete it.
+// Returns the error to reject the request with, or null when allowed.
+const checkRecipeOwner = async (session: Session, recipeId: string, userId: string) => {
+  const result = await session.run(
+    `MATCH (r:Recipe {id: $recipeId})
+     OPTIONAL MATCH (u:User {id: $userId})
+     RETURN r.createdBy as createdBy, u.role as role`,
+    { recipeId, userId }
+  );
+
+  if (result.records.length === 0) {
+    return { status: 404, error: 'Recipe not found' };
+  }
+  const record = result.records[0];
+  if (record.get('createdBy') !== userId && record.get('role') !== 'admin') {
+    return { status: 403, error: 'Only the recipe\'s creator or an admin can change it' };
+  }
+  return null;
+};
+
+// Create a new recipe (requires authentication). Dietary tags are inferred from the
+// ingredients; hand-entered tags the ingredients break are dropped and returned
+// as tagContradictions.
 router.post('/', authenticateToken, async (req: AuthRequest, res) => {
   const userId = req.userId!;
-  const { name, description, prepTime, cookTime, servings, difficulty, dietaryTags, ingredients } = req.body;
+  const { name, description, prepTime, cookTime, servings, difficulty, dietaryTags, ingredients, steps } = req.body;
   const session = getSession();
 
   try {
+    // Ingredients may be plain names or {name, amount, unit, note} lines
+    const ingredientLines = (Array.isArray(ingredients) ? ingredients : [])
+      .map(normalizeIngredientLine)
+      .filter((line): line is IngredientLine => line !== null);
+
     // Validate required fields
-    if (!name || !ingredients || !Array.isArray(ingredients) || ingredients.length === 0) {
+    if (!name || ingredientLines.length === 0) {
       return res.status(400).json({ error: 'Recipe name and at least one ingredient are required' });
     }
 
+    const repeated = await findRepeatedIngredients(session, ingredientLines);
+    if (repeated.length > 0) {
+      return res.status(400).json({ error: `Ingredients listed more than once: ${repeated.join(', ')}` });
+    }
+
     // Generate recipe ID
     const recipeId = `recipe-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`;
 
@@ -314,6 +639,7 @@ router.post('/', authenticateToken, async (req: AuthRequest, res) => {
         servings: $servings || 1,
         difficulty: $difficulty || 'Easy',
         dietaryTags: $dietaryTags || [],
+        manualTags: $dietaryTags || [],
         createdAt: datetime(),
         createdBy: $userId
       }) RETURN r`,
@@ -331,69 +657,228 @@ router.post('/', authenticateToken, async (req: AuthRequest, res) => {
     );
 
     // Create or link ingredients
-    for (const ingredientName of ingredients) {
-      if (!ingredientName || typeof ingredientName !== 'string') continue;
+    await saveIngredientLines(session, recipeId, ingredientLines);
 
-      await session.run(
+    // Store ordered instruction steps
+    await saveRecipeSteps(session, recipeId, normalizeSteps(steps));
+
+    // Work out dietary tags from the ingredients and check the hand-entered ones
+    const [tags] = await updateDietaryTags(session, [recipeId]);
+
+    // Get the created recipe with all ingredients
+    const recipe = await fetchSavedRecipe(session, recipeId);
+    if (!recipe) {
+      return res.status(500).json({ error: 'Failed to create recipe' });
+    }
+
+    res.status(201).json({ recipe, tagContradictions: tags?.contradictions || [] });
+  } catch (error) {
+    console.error('Error creating recipe:', error);
+    res.status(500).json({ error: 'Failed to create recipe' });
+  } finally {
+    await session.close();
+  }
+});
+
+// Update a recipe (creator or admin only). Only the fields sent are changed.
+// Sending ingredients replaces the recipe's USES relationships and sending steps
+// replaces its steps. Dietary tags are inferred again afterwards, with any
+// dietaryTags sent becoming the new hand-entered tags.
+router.put('/:recipeId', authenticateToken, async (req: AuthRequest, res) => {
+  const { recipeId } = req.params;
+  const userId = req.userId!;
+  const { name, description, prepTime, cookTime, servings, difficulty, dietaryTags, ingredients, steps } = req.body;
+
+  const ingredientLines = ingredients === undefined
+    ? null
+    : (Array.isArray(ingredients) ? ingredients : [])
+      .map(normalizeIngredientLine)
+      .filter((line): line is IngredientLine => line !== null);
+
+  if (name !== undefined && (typeof name !== 'string' || !name.trim())) {
+    return res.status(400).json({ error: 'Recipe name cannot be empty' });
+  }
+  if (ingredientLines !== null && ingredientLines.length === 0) {
+    return res.status(400).json({ error: 'A recipe needs at least one ingredient' });
+  }
+  for (const [field, value] of [['prepTime', prepTime], ['cookTime', cookTime]]) {
+    if (value !== undefined && value !== null && value !== '' && (isNaN(Number(value)) || Number(value) < 0)) {
+      return res.status(400).json({ error: `${field} must be a non-negative number` });
+    }
+  }
+  if (servings !== undefined && servings !== null && servings !== '' && (isNaN(Number(servings)) || Number(servings) < 1)) {
+    return res.status(400).json({ error: 'servings must be at least 1' });
+  }
+
+  const session = getSession();
+
+  try {
+    const denied = await checkRecipeOwner(session, recipeId, userId);
+    if (denied) {
+      return res.status(denied.status).json({ error: denied.error });
+    }
+
+    const repeated = ingredientLines ? await findRepeatedIngredients(session, ingredientLines) : [];
+    if (repeated.length > 0) {
+      return res.status(400).json({ error: `Ingredients listed more than once: ${repeated.join(', ')}` });
+    }
+
+    const updates: string[] = ['r.updatedAt = datetime()'];
+    const params: any = { recipeId };
+
+    if (name !== undefined) {
+      updates.push('r.name = $name');
+      params.name = name.trim();
+    }
+    if (description !== undefined) {
+      updates.push('r.description = $description');
+      params.description = description?.trim() || '';
+    }
+    if (prepTime !== undefined) {
+      updates.push('r.prepTime = $prepTime');
+      params.prepTime = Number(prepTime) || 0;
+    }
+    if (cookTime !== undefined) {
+      updates.push('r.cookTime = $cookTime');
+      params.cookTime = Number(cookTime) || 0;
+    }
+    if (servings !== undefined) {
+      updates.push('r.servings = $servings');
+      params.servings = Number(servings) || 1;
+    }
+    if (difficulty !== undefined) {
+      updates.push('r.difficulty = $difficulty');
+      params.difficulty = difficulty || 'Easy';
+    }
+    if (dietaryTags !== undefined) {
+      updates.push('r.manualTags = $dietaryTags');
+      params.dietaryTags = Array.isArray(dietaryTags) ? dietaryTags : [];
+    }
+    if (steps !== undefined) {
+      // Edited steps replace the instructions text imported recipes fall back to
+      updates.push('r.instructions = null');
+    }
+
+    // All or nothing, so a failed write never leaves the recipe half edited
+    await session.executeWrite(async tx => {
+      await tx.run(
         `MATCH (r:Recipe {id: $recipeId})
-         MERGE (i:Ingredient {name: $ingredientName})
-         MERGE (r)-[:USES {amount: '', unit: ''}]->(i)`,
-        { recipeId, ingredientName: ingredientName.trim() }
+         SET ${updates.join(', ')}`,
+        params
       );
+
+      if (ingredientLines !== null) {
+        await saveIngredientLines(tx, recipeId, ingredientLines);
+      }
+      if (steps !== undefined) {
+        await saveRecipeSteps(tx, recipeId, normalizeSteps(steps));
+      }
+    });
+
+    const [tags] = await updateDietaryTags(session, [recipeId]);
+
+    const recipe = await fetchSavedRecipe(session, recipeId);
+    if (!recipe) {
+      return res.status(404).json({ error: 'Recipe not found' });
     }
 
-    // Get the created recipe with all ingredients
+    res.json({ recipe, tagContradictions: tags?.contradictions || [] });
+  } catch (error) {
+    console.error('Error updating recipe:', error);
+    res.status(500).json({ error: 'Failed to update recipe' });
+  } finally {
+    await session.close();
+  }
+});
+
+// Delete a recipe (creator or admin only), along with its steps and the meal
+// plan entries that use it. Likes, cooking history and ingredient links go with
+// the recipe, and it is taken off shopping list lines that were added for it.
+router.delete('/:recipeId', authenticateToken, async (req: AuthRequest, res) => {
+  const { recipeId } = req.params;
+  const userId = req.userId!;
+  const session = getSession();
+
+  try {
+    const denied = await checkRecipeOwner(session, recipeId, userId);
+    if (denied) {
+      return res.status(denied.status).json({ error: denied.error });
+    }
+
+    await session.run(
+      `MATCH (:ShoppingList)-[s:INCLUDES]->(:Ingredient)
+       WHERE $recipeId IN s.recipes
+       SET s.recipes = [id IN s.recipes WHERE id <> $recipeId]`,
+      { recipeId }
+    );
+
     const result = await session.run(
       `MATCH (r:Recipe {id: $recipeId})
-       OPTIONAL MATCH (r)-[:USES]->(i:Ingredient)
-       WITH r, collect(i.name) as ingredients
-       RETURN r, ingredients`,
+       OPTIONAL MATCH (r)-[:HAS_STEP]->(s:Step)
+       WITH r, collect(s) as steps
+       OPTIONAL MATCH (m:PlannedMeal)-[:OF_RECIPE]->(r)
+       WITH r, r.name as name, steps, collect(m) as meals
+       FOREACH (node IN steps + meals | DETACH DELETE node)
+       DETACH DELETE r
+       RETURN name, size(meals) as removedMeals`,
       { recipeId }
     );
 
     if (result.records.length === 0) {
-      return res.status(500).json({ error: 'Failed to create recipe' });
+      return res.status(404).json({ error: 'Recipe not found' });
     }
 
-    const record = result.records[0];
-    const recipe = record.get('r').properties;
-    const recipeIngredients = record.get('ingredients') || [];
-
-    res.status(201).json({
-      recipe: {
-        id: recipe.id,
-        name: recipe.name,
-        description: recipe.description || '',
-        prepTime: toNumber(recipe.prepTime),
-        cookTime: toNumber(recipe.cookTime),
-        servings: toNumber(recipe.servings),
-        difficulty: recipe.difficulty || 'Easy',
-        dietaryTags: recipe.dietaryTags || [],
-        ingredients: recipeIngredients,
-        createdBy: recipe.createdBy
-      }
-    });
+    res.json({ message: 'Recipe deleted', removedMeals: toNumber(result.records[0].get('removedMeals')) });
   } catch (error) {
-    console.error('Error creating recipe:', error);
-    res.status(500).json({ error: 'Failed to create recipe' });
+    console.error('Error deleting recipe:', error);
+    res.status(500).json({ error: 'Failed to delete recipe' });
   } finally {
     await session.close();
   }
 });
 
-// Get recipe details
-router.get('/:recipeId', async (req, res) => {
+// Get recipe details. Pass ?servings=N to scale ingredient amounts and
+// ?units=metric|imperial|original to convert them. Without ?units the
+// signed-in user's preferred unit system is used.
+// allergenWarnings lists ingredients that trigger the signed-in user's allergies.
+// nutrition gives per-serving and total kcal, protein, carbs, fat, fibre and sodium.
+router.get('/:recipeId', optionalAuth, async (req: AuthRequest, res) => {
   const { recipeId } = req.params;
+  const requestedServings = req.query.servings !== undefined ? Number(req.query.servings) : null;
+  const requestedUnits = req.query.units;
+
+  if (requestedServings !== null && (isNaN(requestedServings) || requestedServings <= 0)) {
+    return res.status(400).json({ error: 'servings must be a positive number' });
+  }
+  if (requestedUnits !== undefined && requestedUnits !== 'original' && !isUnitSystem(requestedUnits)) {
+    return res.status(400).json({ error: 'units must be metric, imperial or original' });
+  }
+
   const session = getSession();
 
   try {
+    let unitSystem: UnitSystem | null = isUnitSystem(requestedUnits) ? requestedUnits : null;
+    let allergies: string[] = [];
+    if (req.userId) {
+      const userResult = await session.run(
+        'MATCH (u:User {id: $userId}) RETURN u.unitSystem as unitSystem, u.allergies as allergies',
+        { userId: req.userId }
+      );
+      const preferred = userResult.records[0]?.get('unitSystem');
+      if (requestedUnits === undefined) {
+        unitSystem = isUnitSystem(preferred) ? preferred : null;
+      }
+      allergies = userResult.records[0]?.get('allergies') || [];
+    }
+
     const result = await session.run(`
       MATCH (r:Recipe {id: $recipeId})-[u:USES]->(i:Ingredient)
       RETURN r, collect({
         name: i.name,
         category: i.category,
         amount: u.amount,
-        unit: u.unit
+        unit: u.unit,
+        note: u.note
       }) as ingredients
     `, { recipeId });
 
@@ -403,7 +888,41 @@ router.get('/:recipeId', async (req, res) => {
 
     const record = result.records[0];
     const recipe = record.get('r').properties;
-    const ingredients = record.get('ingredients');
+    const baseServings = toNumber(recipe.servings) || 1;
+    const scaleFactor = requestedServings !== null ? requestedServings / baseServings : 1;
+    const ingredients = record.get('ingredients').map((ing: any) => {
+      let line = scaleFactor === 1 ? ing : {
+        ...ing,
+        amount: scaleAmount(ing.amount, scaleFactor, ing.unit || ''),
+        originalAmount: ing.amount
+      };
+      if (unitSystem) {
+        const converted = convertAmountToSystem(line.amount || '', line.unit || '', unitSystem);
+        if (converted.amount !== line.amount || converted.unit !== line.unit) {
+          line = {
+            ...line,
+            ...converted,
+            originalAmount: ing.amount,
+            originalUnit: ing.unit
+          };
+        }
+      }
+      return line;
+    });
+
+    // Recipes imported before steps existed only have an instructions blob
+    let steps = await fetchRecipeSteps(session, recipeId);
+    if (steps.length === 0 && recipe.instructions) {
+      steps = splitInstructions(recipe.instructions, ingredients.map((ing: any) => ing.name));
+    }
+
+    // Tell a signed-in user which ingredients trigger their allergies, and why
+    const allergenMatches = await findAllergenMatches(session, ingredients.map((ing: any) => ing.name), allergies);
+
+    // Nutrition from the recipe's own amounts, so it doesn't change with ?servings or ?units
+    const recipeLines = record.get('ingredients');
+    const ingredientNutrition = await fetchIngredientNutrition(session, recipeLines.map((ing: any) => ing.name));
+    const nutrition = computeRecipeNutrition(recipeLines, ingredientNutrition, baseServings);
 
     // Convert all numeric properties from Neo4j Integer objects to JavaScript numbers
     const convertedRecipe = {
@@ -411,7 +930,13 @@ router.get('/:recipeId', async (req, res) => {
       prepTime: toNumber(recipe.prepTime),
       cookTime: toNumber(recipe.cookTime),
       servings: toNumber(recipe.servings),
-      ingredients
+      scaledServings: requestedServings ?? baseServings,
+      scaleFactor,
+      unitSystem: unitSystem ?? 'original',
+      ingredients,
+      steps,
+      allergenWarnings: [...allergenMatches.values()],
+      nutrition
     };
 
     res.json(convertedRecipe);
@@ -423,6 +948,182 @@ router.get('/:recipeId', async (req, res) => {
   }
 });
 
+// Mark a recipe as cooked: take the ingredients it used out of the pantry
+// (removing items that run out) and record a COOKED relationship. The
+// deductions are stored on COOKED so the cook can be undone.
+router.post('/:recipeId/cook', authenticateToken, async (req: AuthRequest, res) => {
+  const { recipeId } = req.params;
+  const userId = req.userId!;
+  const requestedServings = req.body.servings !== undefined ? Number(req.body.servings) : null;
+
+  if (requestedServings !== null && (isNaN(requestedServings) || requestedServings <= 0)) {
+    return res.status(400).json({ error: 'servings must be a positive number' });
+  }
+
+  const session = getSession();
+
+  try {
+    const userCheck = await session.run('MATCH (u:User {id: $userId}) RETURN u.id as id', { userId });
+    if (userCheck.records.length === 0) {
+      return res.status(404).json({ error: 'User not found' });
+    }
+
+    const recipeResult = await session.run(
+      `MATCH (r:Recipe {id: $recipeId})
+       OPTIONAL MATCH (r)-[u:USES]->(i:Ingredient)
+       RETURN r.servings as servings, i.name as name, u.amount as amount, u.unit as unit`,
+      { recipeId }
+    );
+
+    if (recipeResult.records.length === 0) {
+      return res.status(404).json({ error: 'Recipe not found' });
+    }
+
+    const baseServings = toNumber(recipeResult.records[0].get('servings')) || 1;
+    const servings = requestedServings ?? baseServings;
+    const needed = recipeResult.records
+      .filter(record => record.get('name'))
+      .map(record => fromRecipeAmount(record.get('name'), record.get('amount'), record.get('unit'), servings / baseServings));
+
+    // Read the pantry, deduct and record the cook in one transaction so the
+    // pantry never changes without a COOKED record to undo it
+    const cookId = `cook-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`;
+    const { deductions, skipped, cookedAt } = await session.executeWrite(async tx => {
+      const pantryResult = await tx.run(
+        `MATCH (:User {id: $userId})-[p:HAS_IN_PANTRY]->(i:Ingredient)
+         WHERE i.name IN $names
+         RETURN i.name as name, p.quantity as quantity, p.unit as unit, p.note as note, p.location as location,
+                toString(p.purchasedOn) as purchasedOn, toString(p.expiresOn) as expiresOn`,
+        { userId, names: needed.map(line => line.name) }
+      );
+      const pantry = new Map<string, PantrySnapshot>(pantryResult.records.map(record => [record.get('name'), {
+        quantity: record.get('quantity') === null || record.get('quantity') === undefined ? null : toNumber(record.get('quantity')),
+        unit: record.get('unit') || null,
+        note: record.get('note') || null,
+        location: record.get('location') || null,
+        purchasedOn: record.get('purchasedOn') || null,
+        expiresOn: record.get('expiresOn') || null
+      }]));
+
+      const plan = planDeductions(needed, pantry);
+
+      for (const deduction of plan.deductions) {
+        await tx.run(
+          deduction.removed
+            ? `MATCH (:User {id: $userId})-[p:HAS_IN_PANTRY]->(:Ingredient {name: $name})
+               DELETE p`
+            : `MATCH (:User {id: $userId})-[p:HAS_IN_PANTRY]->(:Ingredient {name: $name})
+               SET p.quantity = $remaining`,
+          { userId, name: deduction.name, remaining: deduction.remaining }
+        );
+      }
+
+      const cookResult = await tx.run(
+        `MATCH (u:User {id: $userId}), (r:Recipe {id: $recipeId})
+         CREATE (u)-[c:COOKED {id: $cookId, cookedAt: datetime(), servings: $servings, deductions: $deductions}]->(r)
+         RETURN toString(c.cookedAt) as cookedAt`,
+        { userId, recipeId, cookId, servings, deductions: JSON.stringify(plan.deductions) }
+      );
+
+      return { ...plan, cookedAt: cookResult.records[0]?.get('cookedAt') ?? null };
+    });
+
+    res.status(201).json({
+      cookId,
+      cookedAt,
+      servings,
+      deductions: deductions.map(({ name, used, remaining, removed }) => ({ name, used, remaining, removed })),
+      skipped
+    });
+  } catch (error) {
+    console.error('Error recording cooked recipe:', error);
+    res.status(500).json({ error: 'Failed to record cooked recipe' });
+  } finally {
+    await session.close();
+  }
+});
+
+// Undo a cook: put the deducted quantities back in the pantry (restoring
+// items that were used up) and remove the COOKED record
+router.delete('/:recipeId/cook/:cookId', authenticateToken, async (req: AuthRequest, res) => {
+  const { recipeId, cookId } = req.params;
+  const userId = req.userId!;
+  const session = getSession();
+
+  try {
+    // Delete the COOKED record before restoring, in the same transaction, so a
+    // repeated or concurrent undo finds nothing and can't restore twice
+    const deductions = await session.executeWrite(async tx => {
+      const cookResult = await tx.run(
+        `MATCH (:User {id: $userId})-[c:COOKED {id: $cookId}]->(:Recipe {id: $recipeId})
+         WITH c, c.deductions as deductions
+         DELETE c
+         RETURN deductions`,
+        { userId, cookId, recipeId }
+      );
+      if (cookResult.records.length === 0) return null;
+
+      const cooked: PantryDeduction[] = JSON.parse(cookResult.records[0].get('deductions') || '[]');
+
+      for (const deduction of cooked) {
+        // The ingredient may have been renamed or merged since it was cooked
+        const name = await resolveIngredientName(tx, deduction.name);
+        const currentResult = await tx.run(
+          `MATCH (:User {id: $userId})-[p:HAS_IN_PANTRY]->(:Ingredient {name: $name})
+           RETURN p.quantity as quantity, p.unit as unit, p.extraQuantities as extraQuantities, p.extraUnits as extraUnits`,
+          { userId, name }
+        );
+        const current = currentResult.records[0];
+
+        if (current) {
+          const restored = addQuantities(
+            {
+              quantity: current.get('quantity') === null ? null : toNumber(current.get('quantity')),
+              unit: current.get('unit') || null,
+              extra: fromExtraProperties(current.get('extraQuantities'), current.get('extraUnits'))
+            },
+            deduction.used,
+            name
+          );
+          await tx.run(
+            `MATCH (:User {id: $userId})-[p:HAS_IN_PANTRY]->(:Ingredient {name: $name})
+             SET p.quantity = $quantity, p.unit = $unit,
+                 p.extraQuantities = $extraQuantities, p.extraUnits = $extraUnits`,
+            { userId, name, quantity: restored.quantity, unit: restored.unit, ...toExtraProperties(restored.extra) }
+          );
+        } else {
+          const { previous } = deduction;
+          await tx.run(
+            `MATCH (u:User {id: $userId})
+             MATCH (i:Ingredient {name: $name})
+             MERGE (u)-[p:HAS_IN_PANTRY]->(i)
+             ON CREATE SET p.addedAt = datetime()
+             SET p.quantity = $quantity,
+                 p.unit = $unit,
+                 p.note = $note,
+                 p.location = $location,
+                 p.purchasedOn = date($purchasedOn),
+                 p.expiresOn = date($expiresOn)`,
+            { userId, name, ...previous, quantity: deduction.used.quantity }
+          );
+        }
+      }
+      return cooked;
+    });
+
+    if (!deductions) {
+      return res.status(404).json({ error: 'Cooked record not found' });
+    }
+
+    res.json({ restored: deductions.map(deduction => deduction.name) });
+  } catch (error) {
+    console.error('Error undoing cooked recipe:', error);
+    res.status(500).json({ error: 'Failed to undo cooked recipe' });
+  } finally {
+    await session.close();
+  }
+});
+
 // Like a recipe
 router.post('/:recipeId/like', authenticateToken, async (req: AuthRequest, res) => {
   const { recipeId } = req.params;
@@ -526,6 +1227,27 @@ router.get('/liked', authenticateToken, async (req: AuthRequest, res) => {
   }
 });
 
+// Admin: recompute every recipe's dietary tags from its ingredients and report
+// hand-entered tags the ingredients contradict (they are kept, not removed)
+router.post('/dietary-tags/backfill', authenticateToken, requireAdmin, async (req: AuthRequest, res) => {
+  const session = getSession();
+
+  try {
+    const recipes = await updateDietaryTags(session, null, true);
+    res.json({
+      updated: recipes.length,
+      contradictions: recipes
+        .filter(recipe => recipe.contradictions.length > 0)
+        .map(recipe => ({ id: recipe.id, name: recipe.name, contradictions: recipe.contradictions }))
+    });
+  } catch (error) {
+    console.error('Error backfilling dietary tags:', error);
+    res.status(500).json({ error: 'Failed to backfill dietary tags' });
+  } finally {
+    await session.close();
+  }
+});
+
 // Fetch recipes from TheMealDB API and store them
 router.post('/fetch-web', authenticateToken, async (req: AuthRequest, res) => {
   const axiosInstance = await loadAxios();
@@ -571,24 +1293,15 @@ router.post('/fetch-web', authenticateToken, async (req: AuthRequest, res) => {
         continue; // Skip if already exists
       }
 
-      // Extract ingredients from meal object
-      const ingredients: string[] = [];
+      // Extract ingredients and their measures from meal object
+      const ingredientLines: IngredientLine[] = [];
       for (let i = 1; i <= 20; i++) {
         const ingredient = meal[`strIngredient${i}`];
         if (ingredient && ingredient.trim()) {
-          ingredients.push(ingredient.trim());
+          ingredientLines.push({ name: ingredient.trim(), ...parseMeasure(meal[`strMeasure${i}`] || '') });
         }
       }
-
-      // Determine dietary tags (basic detection)
-      const dietaryTags: string[] = [];
-      const mealStr = JSON.stringify(meal).toLowerCase();
-      if (!mealStr.match(/\b(chicken|beef|pork|lamb|turkey|duck|fish|seafood|meat|bacon|sausage|ham|pepperoni|salami)\b/)) {
-        dietaryTags.push('vegetarian');
-      }
-      if (!mealStr.match(/\b(eggs|egg|milk|cheese|butter|yogurt|cream|dairy)\b/) && dietaryTags.includes('vegetarian')) {
-        dietaryTags.push('vegan');
-      }
+      const ingredients = ingredientLines.map(line => line.name);
 
       const recipeId = `web-recipe-${meal.idMeal}-${Date.now()}`;
       const sourceUrl = meal.strSource || `https://www.themealdb.com/meal.php?c=${meal.idMeal}`;
@@ -603,7 +1316,8 @@ router.post('/fetch-web', authenticateToken, async (req: AuthRequest, res) => {
           cookTime: 0,
           servings: $servings,
           difficulty: 'Medium',
-          dietaryTags: $dietaryTags,
+          dietaryTags: [],
+          manualTags: [],
           sourceUrl: $sourceUrl,
           imageUrl: $imageUrl,
           instructions: $instructions,
@@ -615,7 +1329,6 @@ router.post('/fetch-web', authenticateToken, async (req: AuthRequest, res) => {
           name: meal.strMeal || 'Untitled Recipe',
           description: meal.strInstructions?.substring(0, 200) || '',
           servings: 4,
-          dietaryTags,
           sourceUrl,
           imageUrl: meal.strMealThumb || '',
           instructions: meal.strInstructions || ''
@@ -623,14 +1336,13 @@ router.post('/fetch-web', authenticateToken, async (req: AuthRequest, res) => {
       );
 
       // Link ingredients
-      for (const ingredientName of ingredients) {
-        await session.run(
-          `MATCH (r:Recipe {id: $recipeId})
-           MERGE (i:Ingredient {name: $ingredientName})
-           MERGE (r)-[:USES {amount: '', unit: ''}]->(i)`,
-          { recipeId, ingredientName }
-        );
-      }
+      await saveIngredientLines(session, recipeId, ingredientLines);
+
+      // Split the instructions blob into steps
+      await saveRecipeSteps(session, recipeId, splitInstructions(meal.strInstructions || '', ingredients));
+
+      // Tag from the linked ingredients, not the meal's text
+      await updateDietaryTags(session, [recipeId]);
 
       createdRecipes.push({
         id: recipeId,
@@ -0,0 +1,252 @@
+import express from 'express';
+import { getSession } from '../database/neo4j.js';
+import { toNumber } from '../utils/neo4jHelpers.js';
+import { authenticateToken, requireSelf, AuthRequest } from '../middleware/auth.js';
+import { STORAGE_LOCATIONS, isStorageLocation } from '../utils/storage.js';
+import { addQuantities, fromExtraProperties, toExtraProperties } from '../utils/units.js';
+import { lookupIngredientName, lookupIngredientNames } from '../utils/ingredientNames.js';
+import {
+  ShoppingListItemInput,
+  addShoppingListItems,
+  fetchShoppingList,
+  fromRecipeAmount,
+  normalizeShoppingListItem
+} from '../utils/shoppingList.js';
+
+const router = express.Router();
+
+// Get user's shopping list
+router.get('/:userId', authenticateToken, requireSelf, async (req: AuthRequest, res) => {
+  const { userId } = req.params;
+  const session = getSession();
+
+  try {
+    const items = await fetchShoppingList(session, userId);
+    res.json({ items });
+  } catch (error) {
+    console.error('Error fetching shopping list:', error);
+    res.status(500).json({ error: 'Failed to fetch shopping list' });
+  } finally {
+    await session.close();
+  }
+});
+
+// Add items to the shopping list (names or {name, quantity, unit, note})
+router.post('/:userId/items', authenticateToken, requireSelf, async (req: AuthRequest, res) => {
+  const { userId } = req.params;
+  const { items } = req.body;
+
+  const listItems = (Array.isArray(items) ? items : [])
+    .map(normalizeShoppingListItem)
+    .filter((item): item is ShoppingListItemInput => item !== null);
+
+  if (listItems.length === 0) {
+    return res.status(400).json({ error: 'items must contain at least one ingredient' });
+  }
+
+  const session = getSession();
+
+  try {
+    const userCheck = await session.run('MATCH (u:User {id: $userId}) RETURN u.id as id', { userId });
+    if (userCheck.records.length === 0) {
+      return res.status(404).json({ error: 'User not found' });
+    }
+
+    await addShoppingListItems(session, userId, listItems);
+
+    const list = await fetchShoppingList(session, userId);
+    res.json({ items: list });
+  } catch (error) {
+    console.error('Error adding to shopping list:', error);
+    res.status(500).json({ error: 'Failed to add items to shopping list' });
+  } finally {
+    await session.close();
+  }
+});
+
+// Add a recipe's missing ingredients (those not in the pantry) with the amounts
+// the recipe needs. Pass `ingredients` to only add some of them and `servings`
+// to scale the amounts.
+router.post('/:userId/recipes/:recipeId', authenticateToken, requireSelf, async (req: AuthRequest, res) => {
+  const { userId, recipeId } = req.params;
+  const { ingredients } = req.body;
+  const servings = req.body.servings !== undefined ? Number(req.body.servings) : null;
+
+  if (servings !== null && (isNaN(servings) || servings <= 0)) {
+    return res.status(400).json({ error: 'servings must be a positive number' });
+  }
+
+  const session = getSession();
+
+  try {
+    const result = await session.run(
+      `MATCH (r:Recipe {id: $recipeId})-[u:USES]->(i:Ingredient)
+       OPTIONAL MATCH (:User {id: $userId})-[p:HAS_IN_PANTRY]->(i)
+       RETURN r.servings as servings, i.name as name, u.amount as amount, u.unit as unit, p IS NOT NULL as inPantry`,
+      { recipeId, userId }
+    );
+
+    if (result.records.length === 0) {
+      return res.status(404).json({ error: 'Recipe not found' });
+    }
+
+    const baseServings = toNumber(result.records[0].get('servings')) || 1;
+    const factor = servings !== null ? servings / baseServings : 1;
+    const only = Array.isArray(ingredients) ? ingredients : null;
+
+    const listItems = result.records
+      .filter(record => only ? only.includes(record.get('name')) : !record.get('inPantry'))
+      .map(record => ({
+        ...fromRecipeAmount(record.get('name'), record.get('amount'), record.get('unit'), factor),
+        recipeId
+      }));
+
+    await addShoppingListItems(session, userId, listItems);
+
+    const list = await fetchShoppingList(session, userId);
+    res.json({ items: list, added: listItems.map(item => item.name) });
+  } catch (error) {
+    console.error('Error adding recipe to shopping list:', error);
+    res.status(500).json({ error: 'Failed to add recipe to shopping list' });
+  } finally {
+    await session.close();
+  }
+});
+
+// Check an item off (or back on). With moveToPantry the item is taken off the
+// list and its quantity is added to the pantry, optionally in a given location.
+router.patch('/:userId/items/:itemName', authenticateToken, requireSelf, async (req: AuthRequest, res) => {
+  const { userId } = req.params;
+  const { checked, moveToPantry, location } = req.body;
+
+  if (typeof checked !== 'boolean') {
+    return res.status(400).json({ error: 'checked must be true or false' });
+  }
+  if (location !== undefined && location !== null && !isStorageLocation(location)) {
+    return res.status(400).json({ error: `location must be one of: ${STORAGE_LOCATIONS.join(', ')}` });
+  }
+
+  const session = getSession();
+
+  try {
+    const itemName = await lookupIngredientName(session, req.params.itemName);
+    const itemResult = await session.run(
+      `MATCH (:User {id: $userId})-[:HAS_SHOPPING_LIST]->(:ShoppingList)-[s:INCLUDES]->(:Ingredient {name: $itemName})
+       SET s.checked = $checked,
+           s.checkedAt = CASE WHEN $checked THEN datetime() ELSE null END
+       RETURN s.quantity as quantity, s.unit as unit, s.extraQuantities as extraQuantities, s.extraUnits as extraUnits`,
+      { userId, itemName, checked }
+    );
+
+    if (itemResult.records.length === 0) {
+      return res.status(404).json({ error: 'Shopping list item not found' });
+    }
+
+    if (checked && moveToPantry) {
+      const bought = {
+        quantity: itemResult.records[0].get('quantity') === null ? null : toNumber(itemResult.records[0].get('quantity')),
+        unit: itemResult.records[0].get('unit') || null,
+        extra: fromExtraProperties(itemResult.records[0].get('extraQuantities'), itemResult.records[0].get('extraUnits'))
+      };
+
+      const pantryResult = await session.run(
+        `MATCH (:User {id: $userId})-[p:HAS_IN_PANTRY]->(:Ingredient {name: $itemName})
+         RETURN p.quantity as quantity, p.unit as unit, p.extraQuantities as extraQuantities, p.extraUnits as extraUnits`,
+        { userId, itemName }
+      );
+      const existing = pantryResult.records[0];
+      const merged = existing
+        ? addQuantities(
+          {
+            quantity: existing.get('quantity') === null ? null : toNumber(existing.get('quantity')),
+            unit: existing.get('unit') || null,
+            extra: fromExtraProperties(existing.get('extraQuantities'), existing.get('extraUnits'))
+          },
+          bought,
+          itemName
+        )
+        : bought;
+
+      await session.run(
+        `MATCH (u:User {id: $userId})-[:HAS_SHOPPING_LIST]->(:ShoppingList)-[s:INCLUDES]->(i:Ingredient {name: $itemName})
+         MERGE (u)-[p:HAS_IN_PANTRY]->(i)
+         ON CREATE SET p.addedAt = datetime()
+         SET p.quantity = $quantity,
+             p.unit = $unit,
+             p.extraQuantities = $extraQuantities,
+             p.extraUnits = $extraUnits,
+             p.purchasedOn = date(),
+             p.location = coalesce($location, p.location)
+         DELETE s`,
+        {
+          userId,
+          itemName,
+          quantity: merged.quantity,
+          unit: merged.unit,
+          ...toExtraProperties(merged.extra),
+          location: location ?? null
+        }
+      );
+    }
+
+    const items = await fetchShoppingList(session, userId);
+    res.json({ items });
+  } catch (error) {
+    console.error('Error updating shopping list item:', error);
+    res.status(500).json({ error: 'Failed to update shopping list item' });
+  } finally {
+    await session.close();
+  }
+});
+
+// Remove items from the shopping list
+router.delete('/:userId/items', authenticateToken, requireSelf, async (req: AuthRequest, res) => {
+  const { userId } = req.params;
+  const { items } = req.body; // Array of ingredient names
+  const session = getSession();
+
+  try {
+    const names: string[] = Array.isArray(items) ? items.filter((name: any) => typeof name === 'string') : [];
+    const canonical = await lookupIngredientNames(session, names);
+    await session.run(
+      `MATCH (:User {id: $userId})-[:HAS_SHOPPING_LIST]->(:ShoppingList)-[s:INCLUDES]->(i:Ingredient)
+       WHERE i.name IN $items
+       DELETE s`,
+      { userId, items: names.map(name => canonical.get(name) || name) }
+    );
+
+    const list = await fetchShoppingList(session, userId);
+    res.json({ items: list });
+  } catch (error) {
+    console.error('Error removing from shopping list:', error);
+    res.status(500).json({ error: 'Failed to remove items from shopping list' });
+  } finally {
+    await session.close();
+  }
+});
+
+// Clear the shopping list. Pass ?checkedOnly=true to only clear checked items.
+router.delete('/:userId', authenticateToken, requireSelf, async (req: AuthRequest, res) => {
+  const { userId } = req.params;
+  const checkedOnly = req.query.checkedOnly === 'true';
+  const session = getSession();
+
+  try {
+    await session.run(
+      `MATCH (:User {id: $userId})-[:HAS_SHOPPING_LIST]->(:ShoppingList)-[s:INCLUDES]->(:Ingredient)
+       WHERE NOT $checkedOnly OR s.checked = true
+       DELETE s`,
+      { userId, checkedOnly }
+    );
+
+    const items = await fetchShoppingList(session, userId);
+    res.json({ items });
+  } catch (error) {
+    console.error('Error clearing shopping list:', error);
+    res.status(500).json({ error: 'Failed to clear shopping list' });
+  } finally {
+    await session.close();
+  }
+});
+
+export { router as shoppingListRoutes };
@@ -1,11 +1,32 @@
 import express from 'express';
 import { getSession } from '../database/neo4j.js';
-import { authenticateToken, AuthRequest } from '../middleware/auth.js';
+import { authenticateToken, requireSelf, AuthRequest } from '../middleware/auth.js';
+import { isUnitSystem } from '../utils/units.js';
+import { normalizeAllergies } from '../utils/allergens.js';
+import {
+  GOAL_PROPERTIES,
+  fetchEatenToday,
+  fromGoalProperties,
+  getNutritionBudget,
+  isTimeZone,
+  parseNutritionGoals,
+  toGoalProperties
+} from '../utils/nutritionGoals.js';
 
 const router = express.Router();
 
-// Get or create user profile
-router.get('/:userId', async (req, res) => {
+// Strip credentials before sending a user node to the client, and group the
+// flat goal properties into nutritionGoals
+const toPublicUser = (properties: Record<string, any>) => {
+  const { password, resetToken, resetTokenExpiry, ...user } = properties;
+  for (const property of GOAL_PROPERTIES) {
+    delete user[property];
+  }
+  return { ...user, nutritionGoals: fromGoalProperties(properties) };
+};
+
+// Get user profile. Users are only created through signup, never here.
+router.get('/:userId', authenticateToken, requireSelf, async (req: AuthRequest, res) => {
   const { userId } = req.params;
   const session = getSession();
 
@@ -16,28 +37,11 @@ router.get('/:userId', async (req, res) => {
     );
 
     if (result.records.length === 0) {
-      // Create new user
-      await session.run(
-        `CREATE (u:User {
-          id: $userId,
-          dietaryPreferences: [],
-          allergies: [],
-          createdAt: datetime()
-        }) RETURN u`,
-        { userId }
-      );
-
-      const newResult = await session.run(
-        'MATCH (u:User {id: $userId}) RETURN u',
-        { userId }
-      );
-
-      const user = newResult.records[0].get('u').properties;
-      res.json({ user });
-    } else {
-      const user = result.records[0].get('u').properties;
-      res.json({ user });
+      return res.status(404).json({ error: 'User not found' });
     }
+
+    const user = toPublicUser(result.records[0].get('u').properties);
+    res.json({ user });
   } catch (error) {
     console.error('Error fetching user:', error);
     res.status(500).json({ error: 'Failed to fetch user' });
@@ -46,16 +50,23 @@ router.get('/:userId', async (req, res) => {
   }
 });
 
-// Update user dietary preferences and allergies
-router.put('/:userId/preferences', async (req, res) => {
+// Update user dietary preferences, allergies and preferred unit system.
+// Allergies naming an allergen group ("nuts", "tree-nut") are stored as the group id.
+// unitSystem is optional; send null to go back to showing recipes' own units.
+router.put('/:userId/preferences', authenticateToken, requireSelf, async (req: AuthRequest, res) => {
   const { userId } = req.params;
-  const { dietaryPreferences, allergies } = req.body;
+  const { dietaryPreferences, allergies, unitSystem } = req.body;
+
+  if (unitSystem !== undefined && unitSystem !== null && !isUnitSystem(unitSystem)) {
+    return res.status(400).json({ error: 'unitSystem must be metric, imperial or null' });
+  }
+
   const session = getSession();
 
   try {
     // Ensure arrays are properly formatted
     const prefs = Array.isArray(dietaryPreferences) ? dietaryPreferences : [];
-    const alls = Array.isArray(allergies) ? allergies : [];
+    const alls = normalizeAllergies(Array.isArray(allergies) ? allergies : []);
 
     console.log(`\n=== SAVING preferences for user ${userId} ===`);
     console.log('Received dietaryPreferences:', dietaryPreferences, 'Type:', typeof dietaryPreferences, 'IsArray:', Array.isArray(dietaryPreferences));
@@ -63,15 +74,26 @@ router.put('/:userId/preferences', async (req, res) => {
     console.log('Processed prefs:', prefs);
     console.log('Processed alls:', alls);
 
-    await session.run(
+    const updateResult = await session.run(
       `MATCH (u:User {id: $userId})
        SET u.dietaryPreferences = $dietaryPreferences,
            u.allergies = $allergies,
+           u.unitSystem = CASE WHEN $updateUnitSystem THEN $unitSystem ELSE u.unitSystem END,
            u.updatedAt = datetime()
        RETURN u`,
-      { userId, dietaryPreferences: prefs, allergies: alls }
+      {
+        userId,
+        dietaryPreferences: prefs,
+        allergies: alls,
+        updateUnitSystem: unitSystem !== undefined,
+        unitSystem: unitSystem ?? null
+      }
     );
 
+    if (updateResult.records.length === 0) {
+      return res.status(404).json({ error: 'User not found' });
+    }
+
     // Verify the update by reading it back
     const verifyResult = await session.run(
       'MATCH (u:User {id: $userId}) RETURN u.dietaryPreferences as prefs, u.allergies as alls, u.email as email',
@@ -96,7 +118,7 @@ router.put('/:userId/preferences', async (req, res) => {
       { userId }
     );
 
-    const user = userResult.records[0].get('u').properties;
+    const user = toPublicUser(userResult.records[0].get('u').properties);
     res.json({ user });
   } catch (error) {
     console.error('Error updating preferences:', error);
@@ -106,8 +128,75 @@ router.put('/:userId/preferences', async (req, res) => {
   }
 });
 
+// Set daily and per-meal nutrition targets: { daily: { kcal, minProtein, maxSodium }, perMeal: {...} }.
+// Leave a target out or send null to clear it.
+router.put('/:userId/nutrition-goals', authenticateToken, requireSelf, async (req: AuthRequest, res) => {
+  const { userId } = req.params;
+
+  const goals = parseNutritionGoals(req.body);
+  if (typeof goals === 'string') {
+    return res.status(400).json({ error: goals });
+  }
+
+  const session = getSession();
+
+  try {
+    const result = await session.run(
+      `MATCH (u:User {id: $userId})
+       SET u += $goals, u.updatedAt = datetime()
+       RETURN u`,
+      { userId, goals: toGoalProperties(goals) }
+    );
+
+    if (result.records.length === 0) {
+      return res.status(404).json({ error: 'User not found' });
+    }
+
+    const user = toPublicUser(result.records[0].get('u').properties);
+    res.json({ user });
+  } catch (error) {
+    console.error('Error updating nutrition goals:', error);
+    res.status(500).json({ error: 'Failed to update nutrition goals' });
+  } finally {
+    await session.close();
+  }
+});
+
+// What the user has eaten today (every serving logged as cooked) and what is
+// left of their nutrition goals. Pass ?timeZone= so "today" is the user's day.
+router.get('/:userId/nutrition-budget', authenticateToken, requireSelf, async (req: AuthRequest, res) => {
+  const { userId } = req.params;
+  const timeZone = req.query.timeZone ?? 'Z';
+
+  if (!isTimeZone(timeZone)) {
+    return res.status(400).json({ error: 'timeZone must be a time zone name or an offset such as +02:00' });
+  }
+
+  const session = getSession();
+
+  try {
+    const result = await session.run(
+      'MATCH (u:User {id: $userId}) RETURN u',
+      { userId }
+    );
+
+    if (result.records.length === 0) {
+      return res.status(404).json({ error: 'User not found' });
+    }
+
+    const goals = fromGoalProperties(result.records[0].get('u').properties);
+    const budget = getNutritionBudget(goals, await fetchEatenToday(session, userId, timeZone));
+    res.json({ goals, budget });
+  } catch (error) {
+    console.error('Error fetching nutrition budget:', error);
+    res.status(500).json({ error: 'Failed to fetch nutrition budget' });
+  } finally {
+    await session.close();
+  }
+});
+
 // Update user profile (name, age, etc.)
-router.put('/:userId/profile', async (req, res) => {
+router.put('/:userId/profile', authenticateToken, requireSelf, async (req: AuthRequest, res) => {
   const { userId } = req.params;
   const { name, age } = req.body;
   const session = getSession();
@@ -131,19 +220,18 @@ router.put('/:userId/profile', async (req, res) => {
 
     updates.push('u.updatedAt = datetime()');
 
-    await session.run(
+    const result = await session.run(
       `MATCH (u:User {id: $userId})
        SET ${updates.join(', ')}
        RETURN u`,
       params
     );
 
-    const result = await session.run(
-      'MATCH (u:User {id: $userId}) RETURN u',
-      { userId }
-    );
+    if (result.records.length === 0) {
+      return res.status(404).json({ error: 'User not found' });
+    }
 
-    const user = result.records[0].get('u').properties;
+    const user = toPublicUser(result.records[0].get('u').properties);
     res.json({ user });
   } catch (error) {
     console.error('Error updating profile:', error);
@@ -154,13 +242,13 @@ router.put('/:userId/profile', async (req, res) => {
 });
 
 // Update profile picture
-router.put('/:userId/profile-picture', async (req, res) => {
+router.put('/:userId/profile-picture', authenticateToken, requireSelf, async (req: AuthRequest, res) => {
   const { userId } = req.params;
   const { profilePicture } = req.body;
   const session = getSession();
 
   try {
-    await session.run(
+    const result = await session.run(
       `MATCH (u:User {id: $userId})
        SET u.profilePicture = $profilePicture,
            u.updatedAt = datetime()
@@ -168,12 +256,11 @@ router.put('/:userId/profile-picture', async (req, res) => {
       { userId, profilePicture: profilePicture || null }
     );
 
-    const result = await session.run(
-      'MATCH (u:User {id: $userId}) RETURN u',
-      { userId }
-    );
+    if (result.records.length === 0) {
+      return res.status(404).json({ error: 'User not found' });
+    }
 
-    const user = result.records[0].get('u').properties;
+    const user = toPublicUser(result.records[0].get('u').properties);
     res.json({ user });
   } catch (error) {
     console.error('Error updating profile picture:', error);
@@ -184,15 +271,8 @@ router.put('/:userId/profile-picture', async (req, res) => {
 });
 
 // Debug endpoint to check user preferences (requires authentication)
-router.get('/:userId/debug', authenticateToken, async (req: AuthRequest, res) => {
+router.get('/:userId/debug', authenticateToken, requireSelf, async (req: AuthRequest, res) => {
   const { userId } = req.params;
-  const authenticatedUserId = req.userId;
-
-  // Only allow users to check their own data
-  if (userId !== authenticatedUserId) {
-    return res.status(403).json({ error: 'Unauthorized' });
-  }
-
   const session = getSession();
 
   try {
@@ -217,7 +297,7 @@ router.get('/:userId/debug', authenticateToken, async (req: AuthRequest, res) =>
       allergiesType: typeof user.allergies,
       preferencesIsArray: Array.isArray(user.dietaryPreferences),
       allergiesIsArray: Array.isArray(user.allergies),
-      rawUser: user
+      rawUser: toPublicUser(user)
     });
   } catch (error) {
     console.error('Error fetching user debug info:', error);
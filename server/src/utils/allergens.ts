@@ -0,0 +1,139 @@
+import { Session } from 'neo4j-driver';
+import { ALLERGEN_GROUPS, AllergenGroupDefinition, MAY_CONTAIN } from '../data/allergens.js';
+import { ingredientKey, lookupIngredientNames, resolveIngredientName } from './ingredientNames.js';
+import { findNamedIngredients } from './ingredientHierarchy.js';
+
+export type AllergenCertainty = 'contains' | 'may contain';
+
+// Why an ingredient was flagged for one of the user's allergies
+export interface AllergenMatch {
+  ingredient: string;
+  // The allergy as the user listed it
+  allergy: string;
+  // Allergen group name, or null when the allergy is to a single ingredient
+  allergen: string | null;
+  // From the ingredient to the allergen, e.g. ["Pesto", "Pine Nut", "Tree Nut"]
+  via: string[];
+  certainty: AllergenCertainty;
+}
+
+// The allergen group a listed allergy means, if any: "Nuts" -> tree nuts
+export const findAllergenGroup = (allergy: string): AllergenGroupDefinition | undefined => {
+  const key = ingredientKey(allergy);
+  return ALLERGEN_GROUPS.find(group =>
+    group.id === allergy.trim().toLowerCase() || group.aliases.some(alias => ingredientKey(alias) === key)
+  );
+};
+
+// Store group allergies by id so old free-text entries ("peanuts") and picked
+// groups ("peanut") are the same thing
+export const normalizeAllergies = (allergies: string[]): string[] => [
+  ...new Set(allergies
+    .filter(allergy => typeof allergy === 'string' && allergy.trim())
+    .map(allergy => findAllergenGroup(allergy)?.id || allergy.trim().toLowerCase()))
+];
+
+// Check recipe ingredients against a user's allergies. Group allergies follow
+// IS_A (Cheddar is Dairy), DERIVED_FROM (Almond Milk is made from Almond) and
+// MAY_CONTAIN (Pesto may contain Pine Nut); any other allergy is matched to the
+// ingredient it names and everything that is, is made from or may contain it. Ingredients missing from the graph are checked through the
+// ingredients their name mentions, so "Crushed Peanuts" still counts as Peanut.
+// Returns the first, most certain match for each flagged ingredient.
+export const findAllergenMatches = async (
+  session: Session,
+  ingredients: string[],
+  allergies: string[]
+): Promise<Map<string, AllergenMatch>> => {
+  const matches = new Map<string, AllergenMatch>();
+  const names = [...new Set(ingredients)];
+  if (names.length === 0 || allergies.length === 0) return matches;
+
+  const groupAllergies = new Map<string, string>();
+  const ingredientAllergies: string[] = [];
+  for (const allergy of allergies) {
+    const group = findAllergenGroup(allergy);
+    if (group) {
+      groupAllergies.set(group.id, allergy);
+    } else {
+      ingredientAllergies.push(allergy);
+    }
+  }
+  const targets = await lookupIngredientNames(session, ingredientAllergies);
+  const targetAllergies = new Map([...targets].map(([allergy, name]) => [name, allergy]));
+
+  const linkedResult = await session.run(
+    `UNWIND $names as name
+     OPTIONAL MATCH (i:Ingredient {name: name})
+     RETURN name, i IS NOT NULL AND size([(i)-[:IS_A|DERIVED_FROM|MAY_CONTAIN|IN_ALLERGEN_GROUP]->() | 1]) > 0 as linked`,
+    { names }
+  );
+  const unlinked = linkedResult.records.filter(record => !record.get('linked')).map(record => record.get('name') as string);
+  const parts = await findNamedIngredients(session, unlinked);
+  const starts = names.flatMap(name => [name, ...(parts.get(name) || [])].map(start => ({ name, start })));
+
+  const result = await session.run(
+    `UNWIND $starts as row
+     MATCH path = (:Ingredient {name: row.start})-[:IS_A|DERIVED_FROM|MAY_CONTAIN*0..]->(m:Ingredient)
+     OPTIONAL MATCH (m)-[:IN_ALLERGEN_GROUP]->(a:Allergen)
+     WITH row, path, m, a
+     WHERE a.id IN $groups OR m.name IN $targets
+     RETURN row.name as name, row.start as start, [n IN nodes(path) | n.name] as via,
+            any(r IN relationships(path) WHERE type(r) = 'MAY_CONTAIN') as mayContain,
+            CASE WHEN a.id IN $groups THEN a.id ELSE null END as groupId,
+            CASE WHEN a.id IN $groups THEN a.name ELSE null END as groupName,
+            m.name as member
+     ORDER BY mayContain, length(path)`,
+    { starts, groups: [...groupAllergies.keys()], targets: [...targetAllergies.keys()] }
+  );
+
+  for (const record of result.records) {
+    const name: string = record.get('name');
+    if (matches.has(name)) continue;
+
+    const groupId: string | null = record.get('groupId');
+    const via: string[] = record.get('via');
+    matches.set(name, {
+      ingredient: name,
+      allergy: groupId ? groupAllergies.get(groupId)! : targetAllergies.get(record.get('member'))!,
+      allergen: record.get('groupName'),
+      via: record.get('start') === name ? via : [name, ...via],
+      certainty: record.get('mayContain') ? 'may contain' : 'contains'
+    });
+  }
+  return matches;
+};
+
+// One-line explanation, e.g. "Pesto may contain Tree nuts (Pesto → Pine Nut)"
+export const describeAllergenMatch = (match: AllergenMatch): string =>
+  `${match.ingredient} ${match.certainty} ${match.allergen || match.via[match.via.length - 1]}` +
+  (match.via.length > 1 ? ` (${match.via.join(' → ')})` : '');
+
+// Load the allergen groups and "may contain" links. Safe to run on every startup.
+export const seedAllergens = async (session: Session): Promise<void> => {
+  for (const group of ALLERGEN_GROUPS) {
+    await session.run(
+      `MERGE (a:Allergen {id: $id})
+       SET a.name = $name, a.aliases = $aliases`,
+      { id: group.id, name: group.name, aliases: group.aliases }
+    );
+
+    for (const member of group.members) {
+      const name = await resolveIngredientName(session, member);
+      await session.run(
+        `MATCH (i:Ingredient {name: $name}), (a:Allergen {id: $id})
+         MERGE (i)-[:IN_ALLERGEN_GROUP]->(a)`,
+        { name, id: group.id }
+      );
+    }
+  }
+
+  for (const [ingredient, contained] of MAY_CONTAIN) {
+    const ingredientName = await resolveIngredientName(session, ingredient);
+    const containedName = await resolveIngredientName(session, contained);
+    await session.run(
+      `MATCH (i:Ingredient {name: $ingredientName}), (c:Ingredient {name: $containedName})
+       MERGE (i)-[:MAY_CONTAIN]->(c)`,
+      { ingredientName, containedName }
+    );
+  }
+};
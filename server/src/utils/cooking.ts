@@ -0,0 +1,61 @@
+import { convertQuantity } from './units.js';
+
+interface Quantity {
+  quantity: number | null;
+  unit: string | null;
+}
+
+// A pantry item as it was before cooking, kept so a removed item can be restored
+export interface PantrySnapshot extends Quantity {
+  note: string | null;
+  location: string | null;
+  purchasedOn: string | null;
+  expiresOn: string | null;
+}
+
+// What cooking a recipe took out of one pantry item. `used` is in the pantry
+// item's own unit so it can be added straight back on undo.
+export interface PantryDeduction {
+  name: string;
+  used: Quantity;
+  remaining: number;
+  removed: boolean;
+  previous: PantrySnapshot;
+}
+
+// Work out how much of each pantry item a recipe uses. Ingredients that are not
+// in the pantry, have no amount, or whose units can't be compared are skipped.
+export const planDeductions = (
+  needed: { name: string; quantity: number | null; unit: string | null }[],
+  pantry: Map<string, PantrySnapshot>
+): { deductions: PantryDeduction[]; skipped: string[] } => {
+  const deductions: PantryDeduction[] = [];
+  const skipped: string[] = [];
+
+  for (const line of needed) {
+    const item = pantry.get(line.name);
+    if (!item || item.quantity === null || line.quantity === null) {
+      skipped.push(line.name);
+      continue;
+    }
+
+    const used = convertQuantity(line.quantity, line.unit || 'piece', item.unit || 'piece', line.name)
+      ?? ((line.unit || '').toLowerCase() === (item.unit || '').toLowerCase() ? line.quantity : null);
+    if (used === null) {
+      skipped.push(line.name);
+      continue;
+    }
+
+    const taken = Math.min(item.quantity, Math.round(used * 100) / 100);
+    const remaining = Math.round((item.quantity - taken) * 100) / 100;
+    deductions.push({
+      name: line.name,
+      used: { quantity: taken, unit: item.unit },
+      remaining,
+      removed: remaining <= 0,
+      previous: item
+    });
+  }
+
+  return { deductions, skipped };
+};
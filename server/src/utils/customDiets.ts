@@ -0,0 +1,138 @@
+import { Session } from 'neo4j-driver';
+import { ingredientKey } from './ingredientNames.js';
+import { ExclusionReason } from './dietaryFilters.js';
+
+// A diet a user defines themselves: low-FODMAP, keto, "no cilantro" or a
+// doctor's exclusion list. Only active diets are applied to suggestions.
+export interface CustomDiet {
+  id: string;
+  name: string;
+  forbiddenIngredients: string[];
+  forbiddenCategories: string[];
+  requiredTags: string[];
+  active: boolean;
+}
+
+export type CustomDietInput = Omit<CustomDiet, 'id'>;
+
+const parseList = (value: unknown, lowercase: boolean): string[] | null => {
+  if (value === undefined || value === null) return [];
+  if (!Array.isArray(value) || value.some(item => typeof item !== 'string')) return null;
+  const items = value.map((item: string) => (lowercase ? item.trim().toLowerCase() : item.trim())).filter(Boolean);
+  return [...new Set(items)];
+};
+
+// Validate a diet from a request body; returns an error message when invalid
+export const parseCustomDiet = (body: any): CustomDietInput | string => {
+  if (!body || typeof body.name !== 'string' || !body.name.trim()) {
+    return 'name is required';
+  }
+
+  const forbiddenIngredients = parseList(body.forbiddenIngredients, false);
+  const forbiddenCategories = parseList(body.forbiddenCategories, true);
+  const requiredTags = parseList(body.requiredTags, true);
+  if (!forbiddenIngredients || !forbiddenCategories || !requiredTags) {
+    return 'forbiddenIngredients, forbiddenCategories and requiredTags must be lists of strings';
+  }
+  if (forbiddenIngredients.length + forbiddenCategories.length + requiredTags.length === 0) {
+    return 'A diet needs at least one forbidden ingredient, forbidden category or required tag';
+  }
+
+  return {
+    name: body.name.trim(),
+    forbiddenIngredients,
+    forbiddenCategories,
+    requiredTags,
+    active: body.active === undefined ? true : !!body.active
+  };
+};
+
+// The user's custom diets, alphabetically
+export const fetchCustomDiets = async (session: Session, userId: string, activeOnly = false): Promise<CustomDiet[]> => {
+  const result = await session.run(
+    `MATCH (:User {id: $userId})-[:HAS_CUSTOM_DIET]->(d:CustomDiet)
+     WHERE NOT $activeOnly OR d.active
+     RETURN d
+     ORDER BY toLower(d.name)`,
+    { userId, activeOnly }
+  );
+
+  return result.records.map(record => {
+    const diet = record.get('d').properties;
+    return {
+      id: diet.id,
+      name: diet.name,
+      forbiddenIngredients: diet.forbiddenIngredients || [],
+      forbiddenCategories: diet.forbiddenCategories || [],
+      requiredTags: diet.requiredTags || [],
+      active: diet.active !== false
+    };
+  });
+};
+
+// Lowercase categories of each ingredient and everything it IS_A or is
+// DERIVED_FROM, so a diet that forbids "dairy" also catches Cheddar when only
+// Cheese has a category
+export const fetchIngredientCategories = async (session: Session, names: string[]): Promise<Map<string, string[]>> => {
+  const categories = new Map<string, string[]>();
+  if (names.length === 0) return categories;
+
+  const result = await session.run(
+    `UNWIND $names as name
+     MATCH (i:Ingredient {name: name})
+     OPTIONAL MATCH (i)-[:IS_A|DERIVED_FROM*0..]->(a:Ingredient)
+     RETURN name, collect(DISTINCT toLower(a.category)) as categories`,
+    { names: [...new Set(names)] }
+  );
+
+  for (const record of result.records) {
+    categories.set(record.get('name'), record.get('categories'));
+  }
+  return categories;
+};
+
+// Reasons a recipe breaks the user's custom diets. Forbidden ingredients also
+// rule out their kinds ("Cheese" forbids Cheddar); required tags are checked
+// against the recipe's dietary tags.
+export const findCustomDietReasons = (
+  recipe: { allIngredients: string[]; dietaryTags: string[] },
+  diets: CustomDiet[],
+  ancestors: Map<string, string[]>,
+  categories: Map<string, string[]>
+): ExclusionReason[] => {
+  const reasons: ExclusionReason[] = [];
+  const tags = recipe.dietaryTags.map(tag => tag.toLowerCase());
+
+  for (const diet of diets) {
+    const forbiddenKeys = diet.forbiddenIngredients.map(ingredientKey);
+
+    for (const ingredient of recipe.allIngredients) {
+      const forbidden = [ingredient, ...(ancestors.get(ingredient) || [])]
+        .find(name => forbiddenKeys.includes(ingredientKey(name)));
+      const category = (categories.get(ingredient) || []).find(name => diet.forbiddenCategories.includes(name));
+
+      if (forbidden || category) {
+        reasons.push({
+          rule: 'custom-diet',
+          ingredient,
+          preference: diet.name,
+          allergy: null,
+          detail: forbidden
+            ? `${forbidden === ingredient ? ingredient : `${ingredient} is ${forbidden}, which`} is not allowed on ${diet.name}`
+            : `${ingredient} is in the ${category} category, which is not allowed on ${diet.name}`
+        });
+      }
+    }
+
+    for (const tag of diet.requiredTags.filter(tag => !tags.includes(tag))) {
+      reasons.push({
+        rule: 'custom-diet',
+        ingredient: null,
+        preference: diet.name,
+        allergy: null,
+        detail: `Not tagged "${tag}", which ${diet.name} requires`
+      });
+    }
+  }
+  return reasons;
+};
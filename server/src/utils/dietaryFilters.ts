@@ -1,77 +1,156 @@
-// Mapping of dietary preferences to forbidden ingredients
+import { ingredientKey } from './ingredientNames.js';
+import { AllergenMatch, describeAllergenMatch } from './allergens.js';
+
+// Ingredient groups each diet rules out, by canonical key. An ingredient is
+// forbidden when it, or anything it IS_A or is DERIVED_FROM, is listed.
 const dietaryRestrictions: Record<string, string[]> = {
-  'vegetarian': ['chicken', 'beef', 'pork', 'lamb', 'turkey', 'duck', 'fish', 'seafood', 'meat', 'bacon', 'sausage', 'ham', 'pepperoni', 'salami', 'shrimp', 'crab', 'lobster', 'tuna', 'salmon'],
-  'vegan': ['chicken', 'beef', 'pork', 'lamb', 'turkey', 'duck', 'fish', 'seafood', 'meat', 'bacon', 'sausage', 'ham', 'pepperoni', 'salami', 'eggs', 'egg', 'milk', 'cheese', 'butter', 'yogurt', 'cream', 'dairy', 'shrimp', 'crab', 'lobster', 'tuna', 'salmon'],
-  'pescatarian': ['chicken', 'beef', 'pork', 'lamb', 'turkey', 'duck', 'meat', 'bacon', 'sausage', 'ham', 'pepperoni', 'salami'],
-  'gluten-free': ['wheat', 'flour', 'bread', 'pasta', 'noodles', 'barley', 'rye', 'gluten'],
-  'dairy-free': ['milk', 'cheese', 'butter', 'yogurt', 'cream', 'dairy', 'whey'],
-  'nut-free': ['peanuts', 'peanut', 'almonds', 'almond', 'walnuts', 'walnut', 'cashews', 'cashew', 'pecans', 'pecan', 'hazelnuts', 'hazelnut', 'pistachios', 'pistachio'],
+  'vegetarian': ['meat', 'seafood', 'gelatin'],
+  'vegan': ['meat', 'seafood', 'gelatin', 'dairy', 'egg', 'honey'],
+  'pescatarian': ['meat'],
+  'gluten-free': ['gluten grain'],
+  'dairy-free': ['dairy'],
+  'nut-free': ['tree nut', 'peanut'],
+  'halal': ['pork', 'alcohol', 'gelatin'],
+  'kosher': ['pork', 'shellfish', 'squid', 'octopus'],
 };
 
-// Check if an ingredient violates dietary preferences
-export const violatesDietaryPreference = (ingredient: string, preferences: string[]): boolean => {
-  if (!ingredient || !preferences || preferences.length === 0) {
-    return false;
-  }
+// Rules about a recipe as a whole rather than each ingredient on its own.
+// A 'separate' rule forbids using ingredients from more than one of `groups`
+// in the same recipe.
+interface RecipeRule {
+  type: 'separate';
+  groups: string[];
+  description: string;
+}
 
-  const ingredientLower = ingredient.toLowerCase().trim();
+const recipeRules: Record<string, RecipeRule[]> = {
+  'kosher': [{ type: 'separate', groups: ['meat', 'dairy'], description: 'meat and dairy in the same recipe' }],
+};
 
-  for (const preference of preferences) {
-    const prefKey = preference.toLowerCase().trim();
-    const forbidden = dietaryRestrictions[prefKey] || [];
+// A diet that rules out an ingredient, and the group in its hierarchy that caused it
+export interface DietaryViolation {
+  preference: string;
+  group: string;
+}
 
-    // Check if ingredient matches any forbidden ingredient
-    const matches = forbidden.some(forbiddenIng => {
-      const forbiddenLower = forbiddenIng.toLowerCase().trim();
+// Why a recipe was left out of suggestions. `preference` names the built-in or
+// custom diet; `ingredient` is null for recipe-wide rules like required tags.
+// Recipe rules list the clashing `ingredients` instead.
+export interface ExclusionReason {
+  rule: 'dietary-preference' | 'recipe-rule' | 'custom-diet' | 'allergy' | 'nutrition-goal';
+  ingredient: string | null;
+  ingredients?: string[];
+  preference: string | null;
+  allergy: string | null;
+  detail: string;
+}
 
-      // Exact match
-      if (ingredientLower === forbiddenLower) {
-        return true;
-      }
+// Every diet the ingredient breaks. `ancestors` comes from fetchAncestors and
+// holds everything each ingredient IS_A or is DERIVED_FROM.
+export const findDietaryViolations = (
+  ingredient: string,
+  preferences: string[],
+  ancestors: Map<string, string[]>
+): DietaryViolation[] => {
+  if (!ingredient || !preferences || preferences.length === 0) {
+    return [];
+  }
 
-      // Word boundary matching - check if forbidden word appears as a whole word
-      // Use word boundaries to avoid false matches (e.g., "pepper" shouldn't match "pepperoni")
-      const wordBoundaryRegex = new RegExp(`\\b${forbiddenLower.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')}\\b`, 'i');
-      if (wordBoundaryRegex.test(ingredientLower)) {
-        return true;
-      }
+  const names = [ingredient, ...(ancestors.get(ingredient) || [])];
+  const violations: DietaryViolation[] = [];
+  for (const preference of preferences) {
+    const forbidden = dietaryRestrictions[preference.toLowerCase().trim()] || [];
+    const group = names.find(name => forbidden.includes(ingredientKey(name)));
+    if (group) {
+      violations.push({ preference, group });
+    }
+  }
+  return violations;
+};
 
-      // Also check if ingredient is contained in forbidden (e.g., "ground beef" contains "beef")
-      // But only if the forbidden word is longer or equal (to avoid "pepper" matching "pepperoni")
-      if (forbiddenLower.length <= ingredientLower.length && ingredientLower.includes(forbiddenLower)) {
-        // Additional check: make sure it's not a substring issue
-        // Split by spaces and check if any word matches
-        const ingredientWords = ingredientLower.split(/\s+/);
-        if (ingredientWords.includes(forbiddenLower)) {
-          return true;
-        }
-      }
+// Check if an ingredient violates dietary preferences
+export const violatesDietaryPreference = (
+  ingredient: string,
+  preferences: string[],
+  ancestors: Map<string, string[]>
+): boolean => findDietaryViolations(ingredient, preferences, ancestors).length > 0;
 
-      return false;
-    });
+// Check the diets' recipe-level rules against all of a recipe's ingredients,
+// e.g. kosher recipes may not use Chicken and Butter together
+export const findRecipeRuleViolations = (
+  ingredients: string[],
+  preferences: string[],
+  ancestors: Map<string, string[]>
+): ExclusionReason[] => {
+  const reasons: ExclusionReason[] = [];
+  // First ingredient in a group, e.g. Chicken for "meat"
+  const memberOf = (group: string) => ingredients.find(ingredient =>
+    [ingredient, ...(ancestors.get(ingredient) || [])].some(name => ingredientKey(name) === group)
+  );
 
-    if (matches) {
-      return true;
+  for (const preference of preferences) {
+    for (const rule of recipeRules[preference.toLowerCase().trim()] || []) {
+      const members = rule.groups
+        .map(group => ({ group, ingredient: memberOf(group) }))
+        .filter((member): member is { group: string; ingredient: string } => !!member.ingredient);
+      if (members.length > 1) {
+        reasons.push({
+          rule: 'recipe-rule',
+          ingredient: null,
+          ingredients: members.map(member => member.ingredient),
+          preference,
+          allergy: null,
+          detail: `${members.map(member => `${member.ingredient} (${member.group})`).join(' with ')}: ` +
+            `${preference} does not allow ${rule.description}`
+        });
+      }
     }
   }
-
-  return false;
+  return reasons;
 };
 
-// Check if an ingredient matches an allergy
-export const matchesAllergy = (ingredient: string, allergies: string[]): boolean => {
-  if (!ingredient || !allergies || allergies.length === 0) {
-    return false;
-  }
-
-  const ingredientLower = ingredient.toLowerCase().trim();
+// Reasons a recipe with these ingredients is excluded for the user, one per
+// broken diet or allergy per ingredient plus any broken recipe rules. Empty
+// when the recipe is fine.
+export const findExclusionReasons = (
+  ingredients: string[],
+  preferences: string[],
+  ancestors: Map<string, string[]>,
+  allergens: Map<string, AllergenMatch>
+): ExclusionReason[] => {
+  const reasons: ExclusionReason[] = [];
+  for (const ingredient of ingredients) {
+    for (const violation of findDietaryViolations(ingredient, preferences, ancestors)) {
+      reasons.push({
+        rule: 'dietary-preference',
+        ingredient,
+        preference: violation.preference,
+        allergy: null,
+        detail: violation.group === ingredient
+          ? `${ingredient} is not ${violation.preference}`
+          : `${ingredient} is ${violation.group}, which is not ${violation.preference}`
+      });
+    }
 
-  return allergies.some(allergy => {
-    const allergyLower = allergy.toLowerCase().trim();
-    // Exact match or substring match
-    return ingredientLower === allergyLower ||
-           ingredientLower.includes(allergyLower) ||
-           allergyLower.includes(ingredientLower);
-  });
+    const match = allergens.get(ingredient);
+    if (match) {
+      reasons.push({
+        rule: 'allergy',
+        ingredient,
+        preference: null,
+        allergy: match.allergy,
+        detail: describeAllergenMatch(match)
+      });
+    }
+  }
+  return [...reasons, ...findRecipeRuleViolations(ingredients, preferences, ancestors)];
 };
 
+// Whether an ingredient is fine for someone with these diets. `allergens` comes
+// from findAllergenMatches for the same ingredients and the user's allergies.
+export const isIngredientAllowed = (
+  ingredient: string,
+  preferences: string[],
+  ancestors: Map<string, string[]>,
+  allergens: Map<string, AllergenMatch>
+): boolean => !violatesDietaryPreference(ingredient, preferences, ancestors) && !allergens.has(ingredient);
@@ -0,0 +1,107 @@
+import { Session } from 'neo4j-driver';
+import { violatesDietaryPreference } from './dietaryFilters.js';
+import { fetchAncestors } from './ingredientHierarchy.js';
+
+// Tags worked out from a recipe's ingredients rather than trusted from whoever
+// entered it. Other hand-entered tags (keto, low-carb, ...) are kept as they are.
+export const INFERRED_TAGS = ['vegetarian', 'vegan', 'gluten-free', 'dairy-free', 'nut-free'];
+
+// A hand-entered tag the ingredients disagree with, e.g. vegetarian with Chicken Stock
+export interface TagContradiction {
+  tag: string;
+  ingredients: string[];
+}
+
+export interface RecipeTags {
+  id: string;
+  name: string;
+  dietaryTags: string[];
+  contradictions: TagContradiction[];
+}
+
+// Tags for a recipe from its ingredients plus the hand-entered ones that can't
+// be inferred. `ancestors` comes from fetchAncestors for the same ingredients.
+// Hand-entered inferable tags the ingredients break are reported, and dropped
+// unless keepManualTags is set.
+export const inferDietaryTags = (
+  ingredients: string[],
+  manualTags: string[],
+  ancestors: Map<string, string[]>,
+  keepManualTags = false
+): Pick<RecipeTags, 'dietaryTags' | 'contradictions'> => {
+  const tags = [...new Set(manualTags.map(tag => tag.toLowerCase().trim()).filter(Boolean))];
+  // Nothing to infer from; don't call an empty recipe vegan
+  if (ingredients.length === 0) {
+    return { dietaryTags: tags, contradictions: [] };
+  }
+
+  const inferred: string[] = [];
+  const contradictions: TagContradiction[] = [];
+  for (const tag of INFERRED_TAGS) {
+    const breaking = ingredients.filter(ingredient => violatesDietaryPreference(ingredient, [tag], ancestors));
+    if (breaking.length === 0) {
+      inferred.push(tag);
+    } else if (tags.includes(tag)) {
+      contradictions.push({ tag, ingredients: breaking });
+      if (keepManualTags) inferred.push(tag);
+    }
+  }
+
+  return { dietaryTags: [...tags.filter(tag => !INFERRED_TAGS.includes(tag)), ...inferred], contradictions };
+};
+
+// Recompute the tags of the given recipes, or of every recipe when recipeIds is
+// null, from their USES ingredients. The hand-entered tags are kept in
+// `manualTags` so recomputing is repeatable; contradicted ones are stored in
+// `contradictedTags`. Tags on TheMealDB imports were guessed, not entered, so
+// they are not treated as hand-entered. Backfills pass keepManualTags so a
+// hand-set tag is only ever reported, never taken off.
+export const updateDietaryTags = async (
+  session: Session,
+  recipeIds: string[] | null = null,
+  keepManualTags = false
+): Promise<RecipeTags[]> => {
+  const result = await session.run(
+    `MATCH (r:Recipe)
+     WHERE $recipeIds IS NULL OR r.id IN $recipeIds
+     OPTIONAL MATCH (r)-[:USES]->(i:Ingredient)
+     RETURN r.id as id, r.name as name, collect(i.name) as ingredients,
+            coalesce(r.manualTags, CASE WHEN r.source = 'themealdb' THEN [] ELSE r.dietaryTags END, []) as manualTags`,
+    { recipeIds }
+  );
+
+  const recipes = result.records.map(record => ({
+    id: record.get('id') as string,
+    name: record.get('name') as string,
+    ingredients: record.get('ingredients') as string[],
+    manualTags: record.get('manualTags') as string[]
+  }));
+  const ancestors = await fetchAncestors(session, recipes.flatMap(recipe => recipe.ingredients), true);
+
+  const tagged = recipes.map(recipe => ({
+    id: recipe.id,
+    name: recipe.name,
+    manualTags: recipe.manualTags,
+    ...inferDietaryTags(recipe.ingredients, recipe.manualTags, ancestors, keepManualTags)
+  }));
+
+  if (tagged.length > 0) {
+    await session.run(
+      `UNWIND $rows as row
+       MATCH (r:Recipe {id: row.id})
+       SET r.manualTags = row.manualTags,
+           r.dietaryTags = row.dietaryTags,
+           r.contradictedTags = row.contradictedTags`,
+      {
+        rows: tagged.map(recipe => ({
+          id: recipe.id,
+          manualTags: recipe.manualTags,
+          dietaryTags: recipe.dietaryTags,
+          contradictedTags: recipe.contradictions.map(contradiction => contradiction.tag)
+        }))
+      }
+    );
+  }
+
+  return tagged.map(({ manualTags, ...recipe }) => recipe);
+};
@@ -0,0 +1,21 @@
+// Urgency buckets for pantry items, based on days left until the expiry date
+export type ExpiryUrgency = 'expired' | 'critical' | 'soon' | 'upcoming';
+
+export const DEFAULT_EXPIRY_WINDOW_DAYS = 7;
+
+// Check that a value is a calendar date in YYYY-MM-DD format
+export const isValidDateString = (value: unknown): value is string => {
+  if (typeof value !== 'string' || !/^\d{4}-\d{2}-\d{2}$/.test(value)) {
+    return false;
+  }
+  const parsed = new Date(`${value}T00:00:00Z`);
+  return !isNaN(parsed.getTime()) && parsed.toISOString().startsWith(value);
+};
+
+// Map "days until expiry" to an urgency bucket
+export const getExpiryUrgency = (daysUntilExpiry: number): ExpiryUrgency => {
+  if (daysUntilExpiry < 0) return 'expired';
+  if (daysUntilExpiry <= 1) return 'critical';
+  if (daysUntilExpiry <= 3) return 'soon';
+  return 'upcoming';
+};
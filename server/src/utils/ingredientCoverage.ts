@@ -0,0 +1,78 @@
+import { parseAmount } from './quantities.js';
+import { toComparableQuantity } from './units.js';
+
+// 'unknown' means the ingredient is in the pantry but the amounts can't be
+// compared (no pantry quantity, or units that don't convert)
+export type CoverageStatus = 'full' | 'partial' | 'none' | 'unknown';
+
+// Weight of an unknown amount in the coverage score: neither covered nor missing
+const UNKNOWN_COVERAGE = 0.5;
+
+export interface PantryQuantity {
+  quantity: number | null;
+  unit: string | null;
+}
+
+export interface IngredientCoverage {
+  name: string;
+  status: CoverageStatus;
+  coverage: number; // share of the required amount available, 0..1
+  required: { amount: string; unit: string } | null;
+  available: PantryQuantity | null;
+}
+
+// Reduce a quantity to something comparable: base units (g/ml/piece) when the
+// unit is known, otherwise the raw value keyed by its lower-cased unit.
+const toMeasure = (value: number, unit: string, ingredientName: string) => {
+  const comparable = toComparableQuantity(value, unit, ingredientName);
+  if (comparable) return { value: comparable.value, key: comparable.dimension };
+  return { value, key: `raw:${unit.toLowerCase().trim()}` };
+};
+
+// Work out how much of a recipe ingredient the pantry covers. A recipe line
+// without an amount ("to taste") is covered by having the ingredient at all;
+// pantry amounts that can't be compared with the recipe's are 'unknown'.
+export const getIngredientCoverage = (
+  name: string,
+  amount: string | null | undefined,
+  unit: string | null | undefined,
+  pantryItem: PantryQuantity | undefined
+): IngredientCoverage => {
+  const required = amount ? { amount, unit: unit || '' } : null;
+
+  if (!pantryItem) {
+    return { name, status: 'none', coverage: 0, required, available: null };
+  }
+
+  const covered = (coverage: number): IngredientCoverage => ({
+    name,
+    status: coverage >= 1 ? 'full' : coverage > 0 ? 'partial' : 'none',
+    coverage,
+    required,
+    available: pantryItem
+  });
+
+  const unknown: IngredientCoverage = { name, status: 'unknown', coverage: UNKNOWN_COVERAGE, required, available: pantryItem };
+
+  const parsed = parseAmount(amount);
+  if (!parsed || parsed.value <= 0) {
+    return covered(1);
+  }
+  if (pantryItem.quantity === null) {
+    return unknown;
+  }
+
+  const need = toMeasure(parsed.value, parsed.inlineUnit || unit || '', name);
+  const have = toMeasure(pantryItem.quantity, pantryItem.unit || '', name);
+  if (need.key !== have.key) {
+    return unknown;
+  }
+
+  return covered(Math.max(0, Math.min(1, have.value / need.value)));
+};
+
+// Average coverage across all of a recipe's ingredients
+export const getCoverageRatio = (coverage: IngredientCoverage[]): number => {
+  if (coverage.length === 0) return 0;
+  return coverage.reduce((sum, item) => sum + item.coverage, 0) / coverage.length;
+};
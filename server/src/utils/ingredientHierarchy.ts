@@ -0,0 +1,169 @@
+import { Session } from 'neo4j-driver';
+import { ABSTRACT_INGREDIENTS, INGREDIENT_DERIVATIONS, INGREDIENT_HIERARCHY, MISLEADING_NAMES } from '../data/ingredientHierarchy.js';
+import { ingredientKey, resolveIngredientName } from './ingredientNames.js';
+
+// Shorter runs of words inside a name, longest first:
+// "smoked chicken stock" -> "smoked chicken", "chicken stock", "smoked", "chicken", "stock"
+const namedParts = (name: string): string[] => {
+  const words = name.toLowerCase().split(/\s+/).filter(Boolean);
+  const parts: string[] = [];
+  for (let length = words.length - 1; length >= 1; length--) {
+    for (let start = 0; start + length <= words.length; start++) {
+      parts.push(words.slice(start, start + length).join(' '));
+    }
+  }
+  return parts;
+};
+
+// Keys of the parts each misleading name doesn't stand for, by the name's key
+const misleadingParts = new Map<string, string[]>();
+for (const [name, part] of MISLEADING_NAMES) {
+  const key = ingredientKey(name);
+  misleadingParts.set(key, [...(misleadingParts.get(key) || []), ingredientKey(part)]);
+}
+
+// Known ingredients named inside each of the given names, looked up by key:
+// "Chicken Stock" -> ["Chicken"], "Crushed Peanuts" -> ["Peanut"]. Parts listed
+// in MISLEADING_NAMES are skipped, so "Butter Beans" doesn't name Butter.
+export const findNamedIngredients = async (session: Session, names: string[]): Promise<Map<string, string[]>> => {
+  const partKeys = new Map(names.map(name => {
+    const skipped = misleadingParts.get(ingredientKey(name)) || [];
+    return [name, namedParts(name).map(ingredientKey).filter(key => !skipped.includes(key))];
+  }));
+  const keys = [...new Set([...partKeys.values()].flat())];
+  const named = new Map<string, string[]>(names.map(name => [name, []]));
+  if (keys.length === 0) return named;
+
+  const result = await session.run(
+    `UNWIND $keys as key
+     MATCH (i:Ingredient {key: key})
+     RETURN key, i.name as name`,
+    { keys }
+  );
+  const known = new Map<string, string>();
+  for (const record of result.records) {
+    known.set(record.get('key'), record.get('name'));
+  }
+
+  for (const [name, nameKeys] of partKeys) {
+    named.set(name, [...new Set(nameKeys.filter(key => known.has(key)).map(key => known.get(key)!))]);
+  }
+  return named;
+};
+
+// Everything reachable from each ingredient over the given relationship types
+const fetchLinked = async (session: Session, names: string[], relationships: string): Promise<Map<string, string[]>> => {
+  const linked = new Map<string, string[]>();
+  if (names.length === 0) return linked;
+
+  const result = await session.run(
+    `UNWIND $names as name
+     OPTIONAL MATCH (:Ingredient {name: name})-[:${relationships}*1..]->(a:Ingredient)
+     RETURN name, collect(DISTINCT a.name) as ancestors`,
+    { names: [...new Set(names)] }
+  );
+  for (const record of result.records) {
+    linked.set(record.get('name'), record.get('ancestors'));
+  }
+  return linked;
+};
+
+// Everything each ingredient IS_A or is DERIVED_FROM, all the way up, for diet
+// and allergen checks: Almond Milk counts as Almond and Tree Nut.
+// With inferFromWords, an ingredient that has no parents in the graph is
+// treated as belonging to any known ingredient named inside it, so an unlinked
+// "Chicken Stock" still counts as Chicken, Poultry and Meat.
+export const fetchAncestors = async (
+  session: Session,
+  names: string[],
+  inferFromWords = false
+): Promise<Map<string, string[]>> => {
+  const ancestors = await fetchLinked(session, names, 'IS_A|DERIVED_FROM');
+
+  if (!inferFromWords) return ancestors;
+
+  const unlinked = [...ancestors.keys()].filter(name => ancestors.get(name)!.length === 0);
+  const parts = await findNamedIngredients(session, unlinked);
+  const partAncestors = await fetchAncestors(session, [...new Set([...parts.values()].flat())]);
+  for (const [name, named] of parts) {
+    ancestors.set(name, [...new Set(named.flatMap(part => [part, ...(partAncestors.get(part) || [])]))]);
+  }
+  return ancestors;
+};
+
+// The more general ingredients a pantry covers, mapped to the pantry item that
+// covers each one: holding Cheddar means a recipe asking for Cheese is covered.
+// Only IS_A counts; holding Egg Noodle doesn't cover a recipe's Egg.
+export const findGeneralisations = async (session: Session, pantryItems: string[]): Promise<Map<string, string>> => {
+  const ancestors = await fetchLinked(session, pantryItems, 'IS_A');
+  const generalisations = new Map<string, string>();
+  for (const item of pantryItems) {
+    for (const ancestor of ancestors.get(item) || []) {
+      if (!pantryItems.includes(ancestor) && !generalisations.has(ancestor)) {
+        generalisations.set(ancestor, item);
+      }
+    }
+  }
+  return generalisations;
+};
+
+// Link child to parent with IS_A or DERIVED_FROM, creating either ingredient
+// if needed. Returns false (and links nothing) when parent already leads back
+// to child, which would make a cycle.
+const linkIngredients = async (
+  session: Session,
+  child: string,
+  parent: string,
+  relationship: 'IS_A' | 'DERIVED_FROM'
+): Promise<boolean> => {
+  const childName = await resolveIngredientName(session, child);
+  const parentName = await resolveIngredientName(session, parent);
+  if (childName === parentName) return false;
+
+  const cycle = await session.run(
+    `MATCH path = (:Ingredient {name: $parentName})-[:IS_A|DERIVED_FROM*1..]->(:Ingredient {name: $childName})
+     RETURN count(path) > 0 as cycle`,
+    { childName, parentName }
+  );
+  if (cycle.records[0].get('cycle')) return false;
+
+  await session.run(
+    `MATCH (c:Ingredient {name: $childName}), (p:Ingredient {name: $parentName})
+     MERGE (c)-[:${relationship}]->(p)`,
+    { childName, parentName }
+  );
+  return true;
+};
+
+// Link child IS_A parent: the child is a kind of the parent
+export const addIngredientParent = (session: Session, child: string, parent: string): Promise<boolean> =>
+  linkIngredients(session, child, parent, 'IS_A');
+
+// Link ingredient DERIVED_FROM source: the ingredient is made from the source
+export const addIngredientSource = (session: Session, ingredient: string, source: string): Promise<boolean> =>
+  linkIngredients(session, ingredient, source, 'DERIVED_FROM');
+
+// Load the built-in hierarchy and derivations. Safe to run on every startup.
+// Built-in derivations used to be stored as IS_A; those links are replaced.
+export const seedIngredientHierarchy = async (session: Session): Promise<void> => {
+  for (const [child, parent] of INGREDIENT_HIERARCHY) {
+    await addIngredientParent(session, child, parent);
+  }
+  for (const [ingredient, source] of INGREDIENT_DERIVATIONS) {
+    await session.run(
+      `MATCH (:Ingredient {name: $ingredient})-[l:IS_A]->(:Ingredient {name: $source})
+       DELETE l`,
+      {
+        ingredient: await resolveIngredientName(session, ingredient),
+        source: await resolveIngredientName(session, source)
+      }
+    );
+    await addIngredientSource(session, ingredient, source);
+  }
+  for (const name of ABSTRACT_INGREDIENTS) {
+    await session.run(
+      'MATCH (i:Ingredient {name: $name}) SET i.abstract = true',
+      { name: await resolveIngredientName(session, name) }
+    );
+  }
+};
@@ -0,0 +1,100 @@
+import { QueryRunner } from './neo4jHelpers.js';
+import { ingredientKey, lookupIngredientNames, resolveIngredientName } from './ingredientNames.js';
+
+// A recipe ingredient as stored on the USES relationship
+export interface IngredientLine {
+  name: string;
+  amount: string;
+  unit: string;
+  note: string;
+}
+
+const cleanString = (value: any): string => (typeof value === 'string' ? value.trim() : '');
+
+const vulgarFractions: Record<string, string> = {
+  '½': '1/2',
+  '¼': '1/4',
+  '¾': '3/4',
+  '⅓': '1/3',
+  '⅔': '2/3',
+  '⅛': '1/8',
+};
+
+// Split a free-text measure such as TheMealDB's strMeasureN into amount, unit and note.
+//   "1/2 tsp"          -> { amount: '1/2', unit: 'tsp', note: '' }
+//   "200g"             -> { amount: '200', unit: 'g', note: '' }
+//   "2 cloves chopped" -> { amount: '2', unit: 'cloves', note: 'chopped' }
+//   "to taste"         -> { amount: '', unit: '', note: 'to taste' }
+export const parseMeasure = (measure: string): Omit<IngredientLine, 'name'> => {
+  let text = cleanString(measure);
+  for (const [symbol, fraction] of Object.entries(vulgarFractions)) {
+    text = text.replace(new RegExp(`(\\d)\\s*${symbol}`, 'g'), `$1 ${fraction}`).replace(new RegExp(symbol, 'g'), fraction);
+  }
+
+  const match = text.match(/^(\d+\s+\d+\/\d+|\d+\/\d+|\d+(?:[.,]\d+)?(?:\s*-\s*\d+(?:[.,]\d+)?)?)\s*(.*)$/);
+  if (!match) {
+    return { amount: '', unit: '', note: text };
+  }
+
+  const amount = match[1].replace(',', '.').replace(/\s*-\s*/, '-');
+  const [unit = '', ...rest] = match[2].trim().split(/\s+/).filter(Boolean);
+  return { amount, unit, note: rest.join(' ') };
+};
+
+// Accept either a bare ingredient name or a {name, amount, unit, note} object
+export const normalizeIngredientLine = (input: any): IngredientLine | null => {
+  if (typeof input === 'string') {
+    const name = input.trim();
+    return name ? { name, amount: '', unit: '', note: '' } : null;
+  }
+
+  const name = cleanString(input?.name);
+  if (!name) return null;
+
+  return {
+    name,
+    amount: input.amount === undefined || input.amount === null ? '' : String(input.amount).trim(),
+    unit: cleanString(input.unit),
+    note: cleanString(input.note)
+  };
+};
+
+// Ingredients named by more than one line once names are resolved, e.g.
+// "tomatoes" and "Tomato". A recipe can only USE an ingredient once.
+export const findRepeatedIngredients = async (session: QueryRunner, lines: IngredientLine[]): Promise<string[]> => {
+  const canonical = await lookupIngredientNames(session, lines.map(line => line.name));
+  const seen = new Map<string, number>();
+  const names = new Map<string, string>();
+  for (const line of lines) {
+    const name = canonical.get(line.name) || line.name;
+    const key = ingredientKey(name);
+    seen.set(key, (seen.get(key) || 0) + 1);
+    if (!names.has(key)) names.set(key, name);
+  }
+  return [...seen.entries()].filter(([, count]) => count > 1).map(([key]) => names.get(key)!);
+};
+
+// Link a recipe to its ingredients, storing amount, unit and note on USES.
+// Replaces any ingredients the recipe already had.
+// Returns the lines with each name replaced by the canonical ingredient name.
+export const saveIngredientLines = async (session: QueryRunner, recipeId: string, lines: IngredientLine[]): Promise<IngredientLine[]> => {
+  await session.run(
+    `MATCH (:Recipe {id: $recipeId})-[u:USES]->(:Ingredient)
+     DELETE u`,
+    { recipeId }
+  );
+
+  const saved: IngredientLine[] = [];
+  for (const line of lines) {
+    const name = await resolveIngredientName(session, line.name);
+    await session.run(
+      `MATCH (r:Recipe {id: $recipeId})
+       MATCH (i:Ingredient {name: $name})
+       MERGE (r)-[u:USES]->(i)
+       SET u.amount = $amount, u.unit = $unit, u.note = $note`,
+      { recipeId, ...line, name }
+    );
+    saved.push({ ...line, name });
+  }
+  return saved;
+};
@@ -0,0 +1,218 @@
+import { Session } from 'neo4j-driver';
+import { ingredientKey } from './ingredientNames.js';
+import { addQuantities, fromExtraProperties, toExtraProperties } from './units.js';
+import { toNumber } from './neo4jHelpers.js';
+import { NUTRIENTS } from './nutrition.js';
+import { formatQuantity, parseAmount } from './quantities.js';
+
+// Relationships that carry a quantity; when the same owner links to both
+// duplicates the amounts are added together
+const QUANTITY_RELATIONSHIPS = ['HAS_IN_PANTRY', 'INCLUDES'];
+
+// Every relationship that points at an ingredient and has to follow it on merge
+const INGREDIENT_RELATIONSHIPS = ['USES', 'USES_INGREDIENT', 'IS_A', 'DERIVED_FROM', 'SUBSTITUTES_FOR', 'MAY_CONTAIN', ...QUANTITY_RELATIONSHIPS];
+
+// Relationships from an ingredient to other ingredients or allergen groups
+const OUTGOING_RELATIONSHIPS = ['IS_A', 'DERIVED_FROM', 'SUBSTITUTES_FOR', 'MAY_CONTAIN', 'IN_ALLERGEN_GROUP'];
+
+// Nutrition figures stored on an ingredient
+const NUTRITION_PROPERTIES = [...NUTRIENTS, 'gramsPerPiece'];
+
+export interface DuplicateGroup {
+  key: string;
+  target: string;
+  duplicates: string[];
+}
+
+// Store the key on every ingredient so lookups can match by it. Keys are
+// recomputed, so changes to the synonym table apply to existing ingredients.
+export const backfillIngredientKeys = async (session: Session): Promise<number> => {
+  const result = await session.run('MATCH (i:Ingredient) RETURN i.name as name, i.key as key');
+  const updates = result.records
+    .map(record => ({ name: record.get('name') as string, key: record.get('key') as string | null }))
+    .filter(row => row.key !== ingredientKey(row.name))
+    .map(row => ({ name: row.name, key: ingredientKey(row.name) }));
+
+  if (updates.length > 0) {
+    await session.run(
+      `UNWIND $updates as row
+       MATCH (i:Ingredient {name: row.name})
+       SET i.key = row.key`,
+      { updates }
+    );
+  }
+  return updates.length;
+};
+
+// Group ingredients that share a key. The one used by the most relationships
+// is kept; ties go to the shortest, then alphabetically first, name.
+export const findDuplicateIngredients = async (session: Session): Promise<DuplicateGroup[]> => {
+  await backfillIngredientKeys(session);
+
+  const result = await session.run(
+    `MATCH (i:Ingredient)
+     WITH i, size([(i)--() | 1]) as degree
+     ORDER BY degree DESC, size(i.name), i.name
+     WITH i.key as key, collect(i.name) as names
+     WHERE size(names) > 1
+     RETURN key, names
+     ORDER BY key`
+  );
+
+  return result.records.map(record => {
+    const [target, ...duplicates] = record.get('names') as string[];
+    return { key: record.get('key'), target, duplicates };
+  });
+};
+
+// Notes from both links, without repeating one that is already there
+const combineNotes = (...notes: (string | null | undefined)[]): string | null => {
+  const kept = notes.filter((note, index): note is string => !!note && notes.indexOf(note) === index);
+  return kept.length > 0 ? kept.join('; ') : null;
+};
+
+// Add two recipe amounts such as "500g" and "1/2" + "kg". Amounts that can't
+// be added are kept as a note on the target's amount rather than dropped.
+const combineRecipeAmounts = (
+  name: string,
+  target: { amount: string | null; unit: string | null; note: string | null },
+  source: { amount: string | null; unit: string | null; note: string | null }
+): { amount: string | null; unit: string | null; note: string | null } => {
+  if (!source.amount) return { ...target, note: combineNotes(target.note, source.note) };
+  if (!target.amount) return { ...source, note: combineNotes(target.note, source.note) };
+
+  const targetParsed = parseAmount(target.amount);
+  const sourceParsed = parseAmount(source.amount);
+  if (targetParsed && sourceParsed && targetParsed.maxValue === null && sourceParsed.maxValue === null) {
+    const total = addQuantities(
+      { quantity: targetParsed.value, unit: targetParsed.inlineUnit || target.unit || null },
+      { quantity: sourceParsed.value, unit: sourceParsed.inlineUnit || source.unit || null },
+      name
+    );
+    if (total.quantity !== null && total.extra.length === 0) {
+      return {
+        amount: formatQuantity(total.quantity, total.unit || ''),
+        unit: total.unit || '',
+        note: combineNotes(target.note, source.note)
+      };
+    }
+  }
+
+  const added = `plus ${[source.amount, source.unit].filter(Boolean).join(' ')}`;
+  return { amount: target.amount, unit: target.unit, note: combineNotes(target.note, added, source.note) };
+};
+
+// Move everything linked to `source` onto `target`, then delete `source`, all
+// in one transaction. Links both ingredients share are combined, and the
+// target takes any category or nutrition figures it lacks. The source's key is
+// remembered so later writes under that name land on `target`.
+export const mergeIngredient = async (session: Session, source: string, target: string): Promise<void> => {
+  await session.executeWrite(async tx => {
+    for (const type of QUANTITY_RELATIONSHIPS) {
+      const conflicts = await tx.run(
+        `MATCH (n)-[s:${type}]->(:Ingredient {name: $source})
+         MATCH (n)-[t:${type}]->(:Ingredient {name: $target})
+         RETURN elementId(s) as sourceId, elementId(t) as id,
+                s.quantity as sourceQuantity, s.unit as sourceUnit,
+                s.extraQuantities as sourceExtraQuantities, s.extraUnits as sourceExtraUnits, s.note as sourceNote,
+                t.quantity as targetQuantity, t.unit as targetUnit,
+                t.extraQuantities as targetExtraQuantities, t.extraUnits as targetExtraUnits, t.note as targetNote`,
+        { source, target }
+      );
+
+      for (const record of conflicts.records) {
+        const sourceQuantity = record.get('sourceQuantity');
+        const targetQuantity = record.get('targetQuantity');
+        const total = addQuantities(
+          {
+            quantity: targetQuantity === null ? null : toNumber(targetQuantity),
+            unit: record.get('targetUnit'),
+            extra: fromExtraProperties(record.get('targetExtraQuantities'), record.get('targetExtraUnits'))
+          },
+          {
+            quantity: sourceQuantity === null ? null : toNumber(sourceQuantity),
+            unit: record.get('sourceUnit'),
+            extra: fromExtraProperties(record.get('sourceExtraQuantities'), record.get('sourceExtraUnits'))
+          },
+          target
+        );
+        // Shopping list items keep the recipes of both; pantry items the earlier expiry
+        await tx.run(
+          `MATCH ()-[s]->() WHERE elementId(s) = $sourceId
+           MATCH ()-[t]->() WHERE elementId(t) = $id
+           SET t.quantity = $quantity, t.unit = $unit,
+               t.extraQuantities = $extraQuantities, t.extraUnits = $extraUnits,
+               t.note = $note,
+               t.recipes = CASE WHEN s.recipes IS NULL THEN t.recipes
+                                ELSE reduce(ids = coalesce(t.recipes, []), id IN s.recipes |
+                                            CASE WHEN id IN ids THEN ids ELSE ids + id END) END,
+               t.expiresOn = CASE WHEN s.expiresOn < t.expiresOn THEN s.expiresOn ELSE coalesce(t.expiresOn, s.expiresOn) END`,
+          {
+            sourceId: record.get('sourceId'),
+            id: record.get('id'),
+            quantity: total.quantity,
+            unit: total.unit,
+            ...toExtraProperties(total.extra),
+            note: combineNotes(record.get('targetNote'), record.get('sourceNote'))
+          }
+        );
+      }
+    }
+
+    // A recipe that used both adds the amounts together
+    const recipeConflicts = await tx.run(
+      `MATCH (r:Recipe)-[s:USES]->(:Ingredient {name: $source})
+       MATCH (r)-[t:USES]->(:Ingredient {name: $target})
+       RETURN elementId(t) as id, s.amount as sourceAmount, s.unit as sourceUnit, s.note as sourceNote,
+              t.amount as targetAmount, t.unit as targetUnit, t.note as targetNote`,
+      { source, target }
+    );
+
+    for (const record of recipeConflicts.records) {
+      const combined = combineRecipeAmounts(
+        target,
+        { amount: record.get('targetAmount'), unit: record.get('targetUnit'), note: record.get('targetNote') },
+        { amount: record.get('sourceAmount'), unit: record.get('sourceUnit'), note: record.get('sourceNote') }
+      );
+      await tx.run(
+        `MATCH ()-[t]->() WHERE elementId(t) = $id
+         SET t.amount = $amount, t.unit = $unit, t.note = $note`,
+        { id: record.get('id'), ...combined }
+      );
+    }
+
+    for (const type of INGREDIENT_RELATIONSHIPS) {
+      await tx.run(
+        `MATCH (n)-[s:${type}]->(:Ingredient {name: $source})
+         MATCH (t:Ingredient {name: $target})
+         WHERE n <> t
+         MERGE (n)-[r:${type}]->(t)
+         ON CREATE SET r = properties(s)
+         DELETE s`,
+        { source, target }
+      );
+    }
+
+    for (const type of OUTGOING_RELATIONSHIPS) {
+      await tx.run(
+        `MATCH (:Ingredient {name: $source})-[s:${type}]->(n)
+         MATCH (t:Ingredient {name: $target})
+         WHERE n <> t
+         MERGE (t)-[r:${type}]->(n)
+         ON CREATE SET r = properties(s)
+         DELETE s`,
+        { source, target }
+      );
+    }
+
+    await tx.run(
+      `MATCH (s:Ingredient {name: $source}), (t:Ingredient {name: $target})
+       SET t.category = coalesce(t.category, s.category),
+           ${NUTRITION_PROPERTIES.map(property => `t.${property} = coalesce(t.${property}, s.${property})`).join(', ')},
+           t.aliasKeys = reduce(keys = [], key IN coalesce(t.aliasKeys, []) + coalesce(s.aliasKeys, []) + [s.key] |
+                                CASE WHEN key IS NULL OR key = t.key OR key IN keys THEN keys ELSE keys + key END)
+       DETACH DELETE s`,
+      { source, target }
+    );
+  });
+};
@@ -0,0 +1,150 @@
+import { QueryRunner } from './neo4jHelpers.js';
+
+// Different names for the same ingredient, keyed by the singular lowercase form.
+// The value is the name the ingredient is stored under.
+const synonyms: Record<string, string> = {
+  'scallion': 'green onion',
+  'spring onion': 'green onion',
+  'salad onion': 'green onion',
+  'cilantro': 'coriander',
+  'coriander leaf': 'coriander',
+  'garbanzo bean': 'chickpea',
+  'garbanzo': 'chickpea',
+  'aubergine': 'eggplant',
+  'courgette': 'zucchini',
+  'capsicum': 'bell pepper',
+  'sweet pepper': 'bell pepper',
+  'rocket': 'arugula',
+  'prawn': 'shrimp',
+  'beetroot': 'beet',
+  'swede': 'rutabaga',
+  'mangetout': 'snow pea',
+  'cornflour': 'cornstarch',
+  'corn starch': 'cornstarch',
+  'icing sugar': 'powdered sugar',
+  'confectioner sugar': 'powdered sugar',
+  'double cream': 'heavy cream',
+  'bicarbonate of soda': 'baking soda',
+  'bicarb soda': 'baking soda',
+  'minced beef': 'ground beef',
+  'beef mince': 'ground beef',
+  'plain flour': 'all purpose flour',
+  'chilli': 'chili pepper',
+  'chili': 'chili pepper',
+  'chilli pepper': 'chili pepper',
+  'egg plant': 'eggplant',
+  'gelatine': 'gelatin',
+  'whiskey': 'whisky',
+};
+
+// Words that end in "s" but are not plurals
+const invariableWords = new Set([
+  'asparagus', 'couscous', 'hummus', 'molasses', 'swiss', 'citrus', 'octopus', 'grits', 'series', 'species'
+]);
+
+const irregularPlurals: Record<string, string> = {
+  leaves: 'leaf',
+  halves: 'half',
+  loaves: 'loaf',
+  knives: 'knife',
+  geese: 'goose',
+  mice: 'mouse',
+};
+
+const singularize = (word: string): string => {
+  if (word.length <= 3 || invariableWords.has(word)) return word;
+  if (irregularPlurals[word]) return irregularPlurals[word];
+  if (word.endsWith('ies')) return `${word.slice(0, -3)}y`;
+  if (word.endsWith('oes')) return word.slice(0, -2);
+  if (/(ch|sh|ss|x|z)es$/.test(word)) return word.slice(0, -2);
+  if (/(ss|us|is)$/.test(word)) return word;
+  if (word.endsWith('s')) return word.slice(0, -1);
+  return word;
+};
+
+// Lowercase, single-spaced, singular form of a name, before synonyms
+const baseKey = (name: string): string => {
+  const words = name
+    .toLowerCase()
+    .replace(/['’]/g, '')
+    .replace(/[-_/,.]+/g, ' ')
+    .trim()
+    .split(/\s+/)
+    .filter(Boolean);
+  if (words.length === 0) return '';
+
+  words[words.length - 1] = singularize(words[words.length - 1]);
+  return words.join(' ');
+};
+
+// Key that identifies an ingredient regardless of case, plurals and synonyms.
+// Two names with the same key are the same ingredient.
+//   "Cherry Tomatoes" -> "cherry tomato"
+//   "Scallions"       -> "green onion"
+export const ingredientKey = (name: string): string => {
+  const key = baseKey(name);
+  return synonyms[key] || key;
+};
+
+// Name to store a brand new ingredient under: the canonical synonym if there is
+// one, otherwise what the user typed with each word capitalised.
+export const displayName = (name: string): string => {
+  const key = ingredientKey(name);
+  const words = key !== baseKey(name) ? key.split(' ') : name.trim().split(/\s+/);
+  return words.map(word => word.charAt(0).toUpperCase() + word.slice(1)).join(' ');
+};
+
+// Find the stored name for each of the given names, without creating anything.
+// Names that don't match an ingredient are returned unchanged.
+export const lookupIngredientNames = async (session: QueryRunner, names: string[]): Promise<Map<string, string>> => {
+  if (names.length === 0) return new Map();
+
+  const lookups = names.map(name => ({ name, key: ingredientKey(name) }));
+  const result = await session.run(
+    `UNWIND $lookups as lookup
+     OPTIONAL MATCH (i:Ingredient)
+     WHERE i.key = lookup.key OR lookup.key IN coalesce(i.aliasKeys, [])
+     WITH lookup, i
+     ORDER BY i.name
+     WITH lookup, collect(i.name)[0] as canonical
+     RETURN lookup.name as name, canonical`,
+    { lookups }
+  );
+
+  const resolved = new Map<string, string>();
+  for (const record of result.records) {
+    resolved.set(record.get('name'), record.get('canonical') || record.get('name'));
+  }
+  return resolved;
+};
+
+// Stored name for a single ingredient, or the name itself if there isn't one
+export const lookupIngredientName = async (session: QueryRunner, name: string): Promise<string> => {
+  const resolved = await lookupIngredientNames(session, [name]);
+  return resolved.get(name) || name;
+};
+
+// Find or create the canonical ingredient node for a name and return its name.
+// Every write that links to an ingredient should go through this.
+export const resolveIngredientName = async (session: QueryRunner, name: string): Promise<string> => {
+  const key = ingredientKey(name);
+  const existing = await session.run(
+    `MATCH (i:Ingredient)
+     WHERE i.key = $key OR $key IN coalesce(i.aliasKeys, [])
+     RETURN i.name as name
+     ORDER BY name
+     LIMIT 1`,
+    { key }
+  );
+  if (existing.records.length > 0) {
+    return existing.records[0].get('name');
+  }
+
+  const created = await session.run(
+    `MERGE (i:Ingredient {name: $name})
+     ON CREATE SET i.key = $key
+     RETURN i.name as name`,
+    { name: displayName(name), key }
+  );
+  return created.records[0].get('name');
+};
@@ -0,0 +1,109 @@
+import { CombinedQuantity, Quantity, addQuantities, convertQuantity } from './units.js';
+
+// Meal slots within a planned day, in the order they are shown
+export const MEAL_SLOTS = ['breakfast', 'lunch', 'dinner', 'snack'] as const;
+
+export type MealSlot = typeof MEAL_SLOTS[number];
+
+export const isMealSlot = (value: unknown): value is MealSlot => {
+  return typeof value === 'string' && (MEAL_SLOTS as readonly string[]).includes(value);
+};
+
+const toDateString = (date: Date) => date.toISOString().slice(0, 10);
+
+// Plans run Monday to Sunday. Returns the Monday of the week containing the
+// given YYYY-MM-DD date (or today).
+export const getWeekStart = (date?: string): string => {
+  const day = date ? new Date(`${date}T00:00:00Z`) : new Date(`${toDateString(new Date())}T00:00:00Z`);
+  day.setUTCDate(day.getUTCDate() - ((day.getUTCDay() + 6) % 7));
+  return toDateString(day);
+};
+
+export const getWeekDays = (weekStart: string): string[] => {
+  return Array.from({ length: 7 }, (_, index) => {
+    const day = new Date(`${weekStart}T00:00:00Z`);
+    day.setUTCDate(day.getUTCDate() + index);
+    return toDateString(day);
+  });
+};
+
+// What still has to be bought. unknown means some of the required amount
+// couldn't be compared with the pantry (no quantity on either side, or units
+// that don't convert), so there may be a gap the amounts don't show.
+export interface Shortfall extends CombinedQuantity {
+  unknown: boolean;
+}
+
+export interface IngredientDemand {
+  name: string;
+  required: CombinedQuantity;
+  available: CombinedQuantity | null;
+  shortfall: Shortfall | null;
+  recipes: string[];
+}
+
+// Add up what each planned meal needs, per ingredient
+export const aggregateDemand = (
+  lines: { name: string; quantity: number | null; unit: string | null; recipeName: string }[]
+): Map<string, { required: CombinedQuantity; recipes: string[] }> => {
+  const demand = new Map<string, { required: CombinedQuantity; recipes: string[] }>();
+
+  for (const line of lines) {
+    const current = demand.get(line.name);
+    if (!current) {
+      demand.set(line.name, { required: { quantity: line.quantity, unit: line.unit, extra: [] }, recipes: [line.recipeName] });
+      continue;
+    }
+    current.required = addQuantities(current.required, { quantity: line.quantity, unit: line.unit }, line.name);
+    if (!current.recipes.includes(line.recipeName)) {
+      current.recipes.push(line.recipeName);
+    }
+  }
+
+  return demand;
+};
+
+// "2 cup plus 200 g", or "some" when there is no amount
+export const formatDemand = (value: CombinedQuantity): string => {
+  const parts = [value, ...value.extra]
+    .filter(part => part.quantity !== null)
+    .map(part => (part.unit ? `${part.quantity} ${part.unit}` : `${part.quantity}`));
+  return parts.length > 0 ? parts.join(' plus ') : 'some';
+};
+
+// How much of one required amount the pantry holds, in that amount's unit;
+// null when none of the pantry amounts can be compared with it
+const getAvailableAmount = (name: string, part: Quantity, available: CombinedQuantity): number | null => {
+  for (const entry of [available, ...available.extra]) {
+    if (entry.quantity === null) continue;
+    const have = convertQuantity(entry.quantity, entry.unit || 'piece', part.unit || 'piece', name)
+      ?? ((entry.unit || '').toLowerCase() === (part.unit || '').toLowerCase() ? entry.quantity : null);
+    if (have !== null) return have;
+  }
+  return null;
+};
+
+// How much more of an ingredient is needed than the pantry holds, in the
+// required units. Amounts that can't be compared with the pantry make the
+// shortfall unknown rather than counting as covered.
+export const getShortfall = (name: string, required: CombinedQuantity, available: CombinedQuantity | null): Shortfall | null => {
+  if (!available) return { ...required, unknown: false };
+
+  const missing: Quantity[] = [];
+  let unknown = false;
+
+  for (const part of [{ quantity: required.quantity, unit: required.unit }, ...required.extra]) {
+    const have = part.quantity === null ? null : getAvailableAmount(name, part, available);
+    if (part.quantity === null || have === null) {
+      unknown = true;
+      continue;
+    }
+    const amount = Math.round((part.quantity - have) * 100) / 100;
+    if (amount > 0) missing.push({ quantity: amount, unit: part.unit });
+  }
+
+  if (missing.length === 0) {
+    return unknown ? { quantity: null, unit: required.unit, extra: [], unknown } : null;
+  }
+  return { ...missing[0], extra: missing.slice(1), unknown };
+};
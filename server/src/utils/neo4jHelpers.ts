@@ -1,4 +1,7 @@
-import { Integer } from 'neo4j-driver';
+import { Integer, ManagedTransaction, Session } from 'neo4j-driver';
+
+// Anything queries can run on: a session, or the transaction given to executeWrite
+export type QueryRunner = Session | ManagedTransaction;
 
 // Helper function to convert Neo4j Integer objects to JavaScript numbers
 export const toNumber = (value: any): number => {
@@ -0,0 +1,130 @@
+import { Session } from 'neo4j-driver';
+import { NUTRITION_DATA } from '../data/nutrition.js';
+import { resolveIngredientName } from './ingredientNames.js';
+import { parseAmount } from './quantities.js';
+import { toComparableQuantity } from './units.js';
+
+// Nutrients stored on each Ingredient, per 100 g (sodium in mg, the rest in g)
+export const NUTRIENTS = ['kcal', 'protein', 'carbs', 'fat', 'fibre', 'sodium'] as const;
+export type Nutrient = typeof NUTRIENTS[number];
+export type NutritionFacts = Record<Nutrient, number>;
+
+export interface IngredientNutrition extends NutritionFacts {
+  gramsPerPiece: number | null;
+}
+
+export interface RecipeNutrition {
+  perServing: NutritionFacts;
+  total: NutritionFacts;
+  servings: number;
+  // Ingredients left out of the totals: no nutrition data, or an amount like
+  // "to taste" that can't be turned into grams
+  missing: string[];
+}
+
+// Units that count things rather than measure them: "2 cloves", "3 slices"
+const pieceUnits = new Set(['clove', 'cloves', 'slice', 'slices', 'fillet', 'fillets', 'small', 'medium', 'large']);
+
+const emptyFacts = (): NutritionFacts => ({ kcal: 0, protein: 0, carbs: 0, fat: 0, fibre: 0, sodium: 0 });
+
+// kcal and sodium to whole numbers, grams to one decimal place
+export const roundFacts = (facts: NutritionFacts): NutritionFacts => ({
+  kcal: Math.round(facts.kcal),
+  protein: Math.round(facts.protein * 10) / 10,
+  carbs: Math.round(facts.carbs * 10) / 10,
+  fat: Math.round(facts.fat * 10) / 10,
+  fibre: Math.round(facts.fibre * 10) / 10,
+  sodium: Math.round(facts.sodium)
+});
+
+// Nutrition for each ingredient, taken from the ingredient itself or its
+// nearest IS_A parent that has data. DERIVED_FROM is not followed: Coconut
+// Milk is not as rich as Coconut.
+export const fetchIngredientNutrition = async (session: Session, names: string[]): Promise<Map<string, IngredientNutrition>> => {
+  const nutrition = new Map<string, IngredientNutrition>();
+  if (names.length === 0) return nutrition;
+
+  const result = await session.run(
+    `UNWIND $names as name
+     MATCH path = (:Ingredient {name: name})-[:IS_A*0..]->(source:Ingredient)
+     WHERE source.kcal IS NOT NULL
+     WITH name, source
+     ORDER BY length(path)
+     WITH name, collect(source)[0] as source
+     RETURN name, source.kcal as kcal, source.protein as protein, source.carbs as carbs,
+            source.fat as fat, source.fibre as fibre, source.sodium as sodium, source.gramsPerPiece as gramsPerPiece`,
+    { names: [...new Set(names)] }
+  );
+
+  for (const record of result.records) {
+    const facts = Object.fromEntries(NUTRIENTS.map(nutrient => [nutrient, Number(record.get(nutrient)) || 0])) as NutritionFacts;
+    const gramsPerPiece = record.get('gramsPerPiece');
+    nutrition.set(record.get('name'), { ...facts, gramsPerPiece: gramsPerPiece === null ? null : Number(gramsPerPiece) });
+  }
+  return nutrition;
+};
+
+// Weight of a recipe line in grams, or null when it can't be worked out
+export const lineGrams = (
+  line: { name: string; amount?: string | null; unit?: string | null },
+  gramsPerPiece: number | null
+): number | null => {
+  const parsed = parseAmount(line.amount);
+  if (!parsed) return null;
+
+  // Use the middle of a range like "2-3"
+  const value = parsed.maxValue !== null ? (parsed.value + parsed.maxValue) / 2 : parsed.value;
+  const unit = (parsed.inlineUnit || line.unit || '').trim();
+
+  if (pieceUnits.has(unit.toLowerCase())) {
+    return gramsPerPiece === null ? null : value * gramsPerPiece;
+  }
+
+  const quantity = toComparableQuantity(value, unit, line.name);
+  if (!quantity) return null;
+  if (quantity.dimension === 'mass') return quantity.value;
+  if (quantity.dimension === 'count') return gramsPerPiece === null ? null : quantity.value * gramsPerPiece;
+  // A volume of something without a known density
+  return null;
+};
+
+// Per-serving and total nutrition for a recipe's ingredient lines
+export const computeRecipeNutrition = (
+  lines: { name: string; amount?: string | null; unit?: string | null }[],
+  nutrition: Map<string, IngredientNutrition>,
+  servings: number
+): RecipeNutrition => {
+  const total = emptyFacts();
+  const missing: string[] = [];
+
+  for (const line of lines) {
+    const facts = nutrition.get(line.name);
+    const grams = facts ? lineGrams(line, facts.gramsPerPiece) : null;
+    if (!facts || grams === null) {
+      missing.push(line.name);
+      continue;
+    }
+    for (const nutrient of NUTRIENTS) {
+      total[nutrient] += (facts[nutrient] * grams) / 100;
+    }
+  }
+
+  const perServing = emptyFacts();
+  for (const nutrient of NUTRIENTS) {
+    perServing[nutrient] = total[nutrient] / servings;
+  }
+
+  return { perServing: roundFacts(perServing), total: roundFacts(total), servings, missing };
+};
+
+// Load the bundled nutrition dataset onto the ingredients. Safe to run on every startup.
+export const seedNutrition = async (session: Session): Promise<void> => {
+  for (const { name, gramsPerPiece, ...facts } of NUTRITION_DATA) {
+    const stored = await resolveIngredientName(session, name);
+    await session.run(
+      `MATCH (i:Ingredient {name: $name})
+       SET i += $facts, i.gramsPerPiece = $gramsPerPiece`,
+      { name: stored, facts, gramsPerPiece: gramsPerPiece ?? null }
+    );
+  }
+};
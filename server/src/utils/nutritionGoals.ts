@@ -0,0 +1,196 @@
+import { Session } from 'neo4j-driver';
+import { NUTRIENTS, NutritionFacts, computeRecipeNutrition, fetchIngredientNutrition, roundFacts } from './nutrition.js';
+import { toNumber } from './neo4jHelpers.js';
+
+// Targets a user sets for a whole day or for each meal. null means no target.
+export interface GoalTargets {
+  kcal: number | null;
+  minProtein: number | null;
+  maxSodium: number | null;
+}
+
+export interface NutritionGoals {
+  daily: GoalTargets;
+  perMeal: GoalTargets;
+}
+
+// What is left for the next meal once today's cooked meals are counted
+export interface NutritionBudget {
+  eatenToday: NutritionFacts;
+  mealsToday: number;
+  // Most a meal may have: the per-meal target or what is left of the daily one
+  maxKcal: number | null;
+  maxSodium: number | null;
+  // Least protein a meal must have
+  minProtein: number | null;
+  // Protein still needed today, which meals with more protein help towards
+  proteinStillNeeded: number | null;
+}
+
+// How well a recipe's serving fits the budget; score is 0 (poor) to 1 (good)
+export interface GoalFit {
+  score: number;
+  fits: boolean;
+  problems: string[];
+}
+
+const TARGETS: (keyof GoalTargets)[] = ['kcal', 'minProtein', 'maxSodium'];
+
+// Goals are stored as flat User properties: goalDailyKcal, goalMealMaxSodium, ...
+const propertyName = (period: keyof NutritionGoals, target: keyof GoalTargets) =>
+  `goal${period === 'daily' ? 'Daily' : 'Meal'}${target.charAt(0).toUpperCase()}${target.slice(1)}`;
+
+export const GOAL_PROPERTIES = (['daily', 'perMeal'] as const).flatMap(period => TARGETS.map(target => propertyName(period, target)));
+
+const emptyGoals = (): NutritionGoals => ({
+  daily: { kcal: null, minProtein: null, maxSodium: null },
+  perMeal: { kcal: null, minProtein: null, maxSodium: null }
+});
+
+// Validate goals from a request body; returns an error message when invalid
+export const parseNutritionGoals = (body: any): NutritionGoals | string => {
+  const goals = emptyGoals();
+
+  for (const period of ['daily', 'perMeal'] as const) {
+    for (const target of TARGETS) {
+      const value = body?.[period]?.[target];
+      if (value === undefined || value === null || value === '') continue;
+      const number = Number(value);
+      if (isNaN(number) || number <= 0) {
+        return `${period}.${target} must be a positive number`;
+      }
+      goals[period][target] = number;
+    }
+  }
+  return goals;
+};
+
+export const toGoalProperties = (goals: NutritionGoals): Record<string, number | null> => {
+  const properties: Record<string, number | null> = {};
+  for (const period of ['daily', 'perMeal'] as const) {
+    for (const target of TARGETS) {
+      properties[propertyName(period, target)] = goals[period][target];
+    }
+  }
+  return properties;
+};
+
+export const fromGoalProperties = (properties: Record<string, any>): NutritionGoals => {
+  const goals = emptyGoals();
+  for (const period of ['daily', 'perMeal'] as const) {
+    for (const target of TARGETS) {
+      const value = properties[propertyName(period, target)];
+      goals[period][target] = value === undefined || value === null ? null : toNumber(value);
+    }
+  }
+  return goals;
+};
+
+export const hasNutritionGoals = (goals: NutritionGoals): boolean =>
+  TARGETS.some(target => goals.daily[target] !== null || goals.perMeal[target] !== null);
+
+// A client time zone: an IANA name such as "Europe/London" or an offset such as "+02:00"
+export const isTimeZone = (value: unknown): value is string => {
+  if (typeof value !== 'string' || !value) return false;
+  if (value === 'Z' || /^[+-]\d{2}:\d{2}$/.test(value)) return true;
+  try {
+    new Intl.DateTimeFormat('en', { timeZone: value });
+    return true;
+  } catch {
+    return false;
+  }
+};
+
+// Nutrition of what the user cooked today in their time zone, counting every
+// serving logged for each cook
+export const fetchEatenToday = async (
+  session: Session,
+  userId: string,
+  timeZone = 'Z'
+): Promise<{ facts: NutritionFacts; meals: number }> => {
+  const result = await session.run(
+    `MATCH (:User {id: $userId})-[c:COOKED]->(r:Recipe)
+     WHERE date(datetime({datetime: c.cookedAt, timezone: $timeZone})) = date({timezone: $timeZone})
+     OPTIONAL MATCH (r)-[u:USES]->(i:Ingredient)
+     RETURN c.id as cookId, r.servings as servings, c.servings as cookedServings,
+            collect({name: i.name, amount: u.amount, unit: u.unit}) as lines`,
+    { userId, timeZone }
+  );
+
+  const meals = result.records.map(record => {
+    const servings = toNumber(record.get('servings')) || 1;
+    return {
+      servings,
+      cookedServings: toNumber(record.get('cookedServings')) || servings,
+      lines: (record.get('lines') as any[]).filter(line => line.name)
+    };
+  });
+  const nutrition = await fetchIngredientNutrition(session, meals.flatMap(meal => meal.lines.map(line => line.name)));
+
+  const facts = Object.fromEntries(NUTRIENTS.map(nutrient => [nutrient, 0])) as NutritionFacts;
+  for (const meal of meals) {
+    const { perServing } = computeRecipeNutrition(meal.lines, nutrition, meal.servings);
+    for (const nutrient of NUTRIENTS) {
+      facts[nutrient] += perServing[nutrient] * meal.cookedServings;
+    }
+  }
+  return { facts: roundFacts(facts), meals: meals.length };
+};
+
+const lowest = (...values: (number | null)[]): number | null => {
+  const present = values.filter((value): value is number => value !== null);
+  return present.length > 0 ? Math.min(...present) : null;
+};
+
+export const getNutritionBudget = (goals: NutritionGoals, eaten: { facts: NutritionFacts; meals: number }): NutritionBudget => {
+  const left = (target: number | null, used: number) => (target === null ? null : Math.max(0, Math.round(target - used)));
+  return {
+    eatenToday: eaten.facts,
+    mealsToday: eaten.meals,
+    maxKcal: lowest(goals.perMeal.kcal, left(goals.daily.kcal, eaten.facts.kcal)),
+    maxSodium: lowest(goals.perMeal.maxSodium, left(goals.daily.maxSodium, eaten.facts.sodium)),
+    minProtein: goals.perMeal.minProtein,
+    proteinStillNeeded: left(goals.daily.minProtein, eaten.facts.protein)
+  };
+};
+
+// Score a serving against the budget. Going over a maximum or under the
+// per-meal protein minimum means it doesn't fit; the score falls off with how
+// far out it is. Protein still needed for the day only affects the score.
+// Figures missing some ingredients (`missing`) undercount, so they never fit.
+export const getGoalFit = (perServing: NutritionFacts | null, budget: NutritionBudget, missing: string[] = []): GoalFit => {
+  if (!perServing) {
+    return { score: 0, fits: false, problems: ['No nutrition data'] };
+  }
+  if (missing.length > 0) {
+    return { score: 0, fits: false, problems: [`Partial nutrition data: nothing known for ${missing.join(', ')}`] };
+  }
+
+  const scores: number[] = [];
+  const problems: string[] = [];
+  const checkMaximum = (value: number, limit: number | null, label: string, unit: string) => {
+    if (limit === null) return;
+    if (value <= limit) {
+      scores.push(1);
+    } else {
+      scores.push(limit > 0 ? Math.max(0, 1 - (value - limit) / limit) : 0);
+      problems.push(`${label} ${value}${unit} is over the ${limit}${unit} left`);
+    }
+  };
+
+  checkMaximum(perServing.kcal, budget.maxKcal, 'Calories', ' kcal');
+  checkMaximum(perServing.sodium, budget.maxSodium, 'Sodium', 'mg');
+
+  if (budget.minProtein !== null) {
+    scores.push(Math.min(1, perServing.protein / budget.minProtein));
+    if (perServing.protein < budget.minProtein) {
+      problems.push(`Protein ${perServing.protein}g is under the ${budget.minProtein}g per meal`);
+    }
+  }
+  if (budget.proteinStillNeeded) {
+    scores.push(Math.min(1, perServing.protein / budget.proteinStillNeeded));
+  }
+
+  const score = scores.length > 0 ? scores.reduce((sum, value) => sum + value, 0) / scores.length : 1;
+  return { score: Math.round(score * 100) / 100, fits: problems.length === 0, problems };
+};
@@ -0,0 +1,101 @@
+// Parsing, scaling and formatting of free-text ingredient amounts such as
+// "1/2", "1 1/2", "2-3", "0.75" or "500g" (a number with the unit attached).
+
+export interface ParsedAmount {
+  value: number;
+  maxValue: number | null; // upper end of a range like "2-3"
+  inlineUnit: string; // unit written inside the amount, e.g. "g" in "500g"
+  unitSpacing: string; // whatever separates the number from the inline unit, e.g. " " in "2 cloves"
+}
+
+const parseNumber = (text: string): number | null => {
+  const trimmed = text.trim();
+  const mixed = trimmed.match(/^(\d+)\s+(\d+)\/(\d+)$/);
+  if (mixed) {
+    return Number(mixed[1]) + Number(mixed[2]) / Number(mixed[3]);
+  }
+  const fraction = trimmed.match(/^(\d+)\/(\d+)$/);
+  if (fraction) {
+    return Number(fraction[2]) === 0 ? null : Number(fraction[1]) / Number(fraction[2]);
+  }
+  const decimal = Number(trimmed.replace(',', '.'));
+  return trimmed !== '' && !isNaN(decimal) ? decimal : null;
+};
+
+export const parseAmount = (amount: string | null | undefined): ParsedAmount | null => {
+  if (amount === null || amount === undefined) return null;
+
+  const match = String(amount).trim().match(
+    /^(\d+\s+\d+\/\d+|\d+\/\d+|\d+(?:[.,]\d+)?)(?:\s*-\s*(\d+\s+\d+\/\d+|\d+\/\d+|\d+(?:[.,]\d+)?))?(\s*)([a-zA-Z]*)$/
+  );
+  if (!match) return null;
+
+  const value = parseNumber(match[1]);
+  if (value === null) return null;
+
+  return {
+    value,
+    maxValue: match[2] ? parseNumber(match[2]) : null,
+    inlineUnit: match[4] || '',
+    unitSpacing: match[4] ? match[3] : ''
+  };
+};
+
+const fractions: [number, string][] = [
+  [0, ''],
+  [1 / 8, '1/8'],
+  [1 / 4, '1/4'],
+  [1 / 3, '1/3'],
+  [1 / 2, '1/2'],
+  [2 / 3, '2/3'],
+  [3 / 4, '3/4'],
+  [1, '']
+];
+
+// Metric units read better as decimals than as kitchen fractions
+const decimalUnits = new Set(['g', 'gram', 'grams', 'kg', 'ml', 'l', 'litre', 'litres', 'liter', 'liters']);
+
+// Round a quantity to something a cook would actually measure:
+// large numbers to whole units (or 5s), metric to one decimal, and
+// everything else to the nearest common fraction ("1 1/3", "3/4").
+export const formatQuantity = (value: number, unit = ''): string => {
+  if (value <= 0) return '0';
+  if (value >= 100) return String(Math.round(value / 5) * 5);
+  if (value >= 10) return String(Math.round(value));
+
+  // Never round a non-zero amount down to nothing; 0.1 is the smallest shown
+  if (decimalUnits.has(unit.toLowerCase())) {
+    return String(Math.max(Math.round(value * 10) / 10, 0.1));
+  }
+
+  let whole = Math.floor(value);
+  const remainder = value - whole;
+  let [closest, label] = fractions[0];
+  for (const [fractionValue, fractionLabel] of fractions) {
+    if (Math.abs(remainder - fractionValue) < Math.abs(remainder - closest)) {
+      closest = fractionValue;
+      label = fractionLabel;
+    }
+  }
+  if (closest === 1) whole += 1;
+
+  // Likewise for fractions, where 1/8 is the smallest
+  if (whole === 0 && !label) return '1/8';
+  if (!label) return String(whole);
+  return whole > 0 ? `${whole} ${label}` : label;
+};
+
+// Scale an amount string by a factor, keeping ranges and inline units.
+// Amounts that can't be parsed (e.g. "a pinch") or aren't scaled at all are
+// returned unchanged, so "102 g" isn't rounded to "100 g" for nothing.
+export const scaleAmount = (amount: string | null | undefined, factor: number, unit = ''): string => {
+  const parsed = parseAmount(amount);
+  if (!parsed || factor === 1) return amount ?? '';
+
+  const unitForRounding = parsed.inlineUnit || unit;
+  let scaled = formatQuantity(parsed.value * factor, unitForRounding);
+  if (parsed.maxValue !== null) {
+    scaled += `-${formatQuantity(parsed.maxValue * factor, unitForRounding)}`;
+  }
+  return scaled + parsed.unitSpacing + parsed.inlineUnit;
+};
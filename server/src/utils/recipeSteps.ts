@@ -0,0 +1,154 @@
+import { Session } from 'neo4j-driver';
+import { QueryRunner, toNumber } from './neo4jHelpers.js';
+import { lookupIngredientNames } from './ingredientNames.js';
+
+export type TemperatureUnit = 'C' | 'F';
+
+export interface RecipeStep {
+  order: number;
+  text: string;
+  durationMinutes: number | null;
+  temperature: number | null;
+  temperatureUnit: TemperatureUnit | null;
+  ingredients: string[];
+}
+
+const toPositiveNumberOrNull = (value: any): number | null => {
+  if (value === undefined || value === null || value === '') return null;
+  const parsed = Number(value);
+  return isNaN(parsed) || parsed <= 0 ? null : parsed;
+};
+
+// Validate steps sent by the client. Steps without text are dropped and the
+// rest are renumbered 1..n in the order they were given.
+export const normalizeSteps = (input: any): RecipeStep[] => {
+  if (!Array.isArray(input)) return [];
+
+  return input
+    .filter(step => step && typeof step.text === 'string' && step.text.trim())
+    .map((step, index) => {
+      const temperature = toPositiveNumberOrNull(step.temperature);
+      const unit = typeof step.temperatureUnit === 'string' ? step.temperatureUnit.toUpperCase() : '';
+      return {
+        order: index + 1,
+        text: step.text.trim(),
+        durationMinutes: toPositiveNumberOrNull(step.durationMinutes),
+        temperature,
+        temperatureUnit: temperature === null ? null : (unit === 'F' ? 'F' : 'C'),
+        ingredients: Array.isArray(step.ingredients)
+          ? step.ingredients.filter((name: any) => typeof name === 'string' && name.trim()).map((name: string) => name.trim())
+          : []
+      };
+    });
+};
+
+// Pull the first cooking time out of a sentence, e.g. "simmer for 10-15 mins" -> 15
+const extractDuration = (text: string): number | null => {
+  const match = text.match(/(\d+(?:\.\d+)?)(?:\s*(?:-|to)\s*(\d+(?:\.\d+)?))?\s*(hours?|hrs?|minutes?|mins?)\b/i);
+  if (!match) return null;
+
+  const value = Number(match[2] || match[1]);
+  return /^h/i.test(match[3]) ? Math.round(value * 60) : value;
+};
+
+// Pull an oven/pan temperature out of a sentence, e.g. "180C", "350°F", "200 degrees C"
+const extractTemperature = (text: string): { temperature: number; temperatureUnit: TemperatureUnit } | null => {
+  const match = text.match(/(\d{2,3})\s*(?:°|º|degrees?)?\s*(C|F)\b/i)
+    || text.match(/(\d{2,3})\s*(?:°|º|degrees?)\s*(celsius|fahrenheit)?/i);
+  if (!match) return null;
+
+  const unit = (match[2] || 'C').charAt(0).toUpperCase();
+  return { temperature: Number(match[1]), temperatureUnit: unit === 'F' ? 'F' : 'C' };
+};
+
+// Split free-text instructions (e.g. TheMealDB's strInstructions) into ordered
+// steps. Line breaks are used when present; a single paragraph is split into
+// sentences. Step numbering like "STEP 1" or "1." is removed, and durations,
+// temperatures and mentioned recipe ingredients are detected per step.
+export const splitInstructions = (text: string, ingredientNames: string[] = []): RecipeStep[] => {
+  if (!text || !text.trim()) return [];
+
+  let chunks = text
+    .replace(/\r\n?/g, '\n')
+    .split(/\n+/)
+    .map(line => line.trim())
+    .filter(line => line && !/^step\s*\d+[.:]?$/i.test(line) && !/^\d+[.)]?$/.test(line))
+    .map(line => line.replace(/^(?:step\s*)?\d+\s*[.):-]\s*/i, '').trim())
+    .filter(Boolean);
+
+  // A sentence ends at punctuation followed by a space and a capital letter, so
+  // "Add 1.5 cups" or "approx. ten minutes" stay whole
+  if (chunks.length === 1) {
+    chunks = chunks[0].split(/(?<=[.!?])\s+(?=[A-Z])/).map(sentence => sentence.trim()).filter(Boolean);
+  }
+
+  return chunks.map((chunk, index) => {
+    const lower = chunk.toLowerCase();
+    const temperature = extractTemperature(chunk);
+    return {
+      order: index + 1,
+      text: chunk,
+      durationMinutes: extractDuration(chunk),
+      temperature: temperature?.temperature ?? null,
+      temperatureUnit: temperature?.temperatureUnit ?? null,
+      ingredients: ingredientNames.filter(name => {
+        const escaped = name.toLowerCase().replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+        return new RegExp(`\\b${escaped}`).test(lower);
+      })
+    };
+  });
+};
+
+// Replace a recipe's steps with the given list
+export const saveRecipeSteps = async (session: QueryRunner, recipeId: string, steps: RecipeStep[]): Promise<void> => {
+  await session.run(
+    `MATCH (r:Recipe {id: $recipeId})-[:HAS_STEP]->(s:Step)
+     DETACH DELETE s`,
+    { recipeId }
+  );
+
+  // Steps name ingredients as written in the recipe; link them to the stored ones
+  const canonical = await lookupIngredientNames(session, [...new Set(steps.flatMap(step => step.ingredients))]);
+
+  for (const step of steps) {
+    await session.run(
+      `MATCH (r:Recipe {id: $recipeId})
+       CREATE (r)-[:HAS_STEP]->(s:Step {
+         order: $order,
+         text: $text,
+         durationMinutes: $durationMinutes,
+         temperature: $temperature,
+         temperatureUnit: $temperatureUnit
+       })
+       WITH s
+       UNWIND $ingredients as ingredientName
+       MATCH (i:Ingredient {name: ingredientName})
+       MERGE (s)-[:USES_INGREDIENT]->(i)`,
+      { recipeId, ...step, ingredients: step.ingredients.map(name => canonical.get(name) || name) }
+    );
+  }
+};
+
+// Load a recipe's steps in order
+export const fetchRecipeSteps = async (session: Session, recipeId: string): Promise<RecipeStep[]> => {
+  const result = await session.run(
+    `MATCH (r:Recipe {id: $recipeId})-[:HAS_STEP]->(s:Step)
+     OPTIONAL MATCH (s)-[:USES_INGREDIENT]->(i:Ingredient)
+     WITH s, collect(i.name) as ingredients
+     RETURN s, ingredients
+     ORDER BY s.order`,
+    { recipeId }
+  );
+
+  return result.records.map(record => {
+    const step = record.get('s').properties;
+    return {
+      order: toNumber(step.order),
+      text: step.text,
+      durationMinutes: step.durationMinutes === null || step.durationMinutes === undefined ? null : toNumber(step.durationMinutes),
+      temperature: step.temperature === null || step.temperature === undefined ? null : toNumber(step.temperature),
+      temperatureUnit: step.temperatureUnit || null,
+      ingredients: record.get('ingredients') || []
+    };
+  });
+};
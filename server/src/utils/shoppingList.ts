@@ -0,0 +1,145 @@
+import { Session } from 'neo4j-driver';
+import { toNumber } from './neo4jHelpers.js';
+import { parseAmount } from './quantities.js';
+import { Quantity, addQuantities, fromExtraProperties, toExtraProperties } from './units.js';
+import { resolveIngredientName } from './ingredientNames.js';
+
+// One line on a user's shopping list, stored on (ShoppingList)-[:INCLUDES]->(Ingredient)
+export interface ShoppingListItemInput {
+  name: string;
+  quantity: number | null;
+  unit: string | null;
+  note: string | null;
+  recipeId?: string | null;
+  // Amounts in units that can't be converted into `unit`
+  extra?: Quantity[];
+}
+
+const toQuantity = (value: any): number | null => {
+  if (value === undefined || value === null || value === '') return null;
+  const parsed = Number(value);
+  return isNaN(parsed) ? null : parsed;
+};
+
+const cleanString = (value: any): string | null => (typeof value === 'string' && value.trim() ? value.trim() : null);
+
+// Accept either a bare ingredient name or a {name, quantity, unit, note} object
+export const normalizeShoppingListItem = (input: any): ShoppingListItemInput | null => {
+  if (typeof input === 'string') {
+    const name = input.trim();
+    return name ? { name, quantity: null, unit: null, note: null } : null;
+  }
+
+  const name = cleanString(input?.name);
+  if (!name) return null;
+
+  return {
+    name,
+    quantity: toQuantity(input.quantity),
+    unit: cleanString(input.unit),
+    note: cleanString(input.note)
+  };
+};
+
+// Turn a recipe amount such as "500g" or "1/2" + "cup" into a numeric quantity.
+// Amounts that can't be parsed ("a pinch") are kept as a note instead.
+export const fromRecipeAmount = (
+  name: string,
+  amount: string | null | undefined,
+  unit: string | null | undefined,
+  factor = 1
+): ShoppingListItemInput => {
+  const parsed = parseAmount(amount);
+  if (!parsed) {
+    return { name, quantity: null, unit: cleanString(unit), note: cleanString(amount) };
+  }
+  return {
+    name,
+    quantity: Math.round(parsed.value * factor * 100) / 100,
+    unit: parsed.inlineUnit || cleanString(unit),
+    note: null
+  };
+};
+
+// Load a user's shopping list, unchecked items first
+export const fetchShoppingList = async (session: Session, userId: string) => {
+  const result = await session.run(
+    `MATCH (:User {id: $userId})-[:HAS_SHOPPING_LIST]->(:ShoppingList)-[s:INCLUDES]->(i:Ingredient)
+     RETURN i.name as name, i.category as category, s.quantity as quantity, s.unit as unit,
+            s.extraQuantities as extraQuantities, s.extraUnits as extraUnits,
+            s.note as note, coalesce(s.checked, false) as checked, coalesce(s.recipes, []) as recipes
+     ORDER BY checked, i.name`,
+    { userId }
+  );
+
+  return result.records.map(record => {
+    const quantity = record.get('quantity');
+    return {
+      name: record.get('name'),
+      category: record.get('category') || null,
+      quantity: quantity === null || quantity === undefined ? null : toNumber(quantity),
+      unit: record.get('unit') || null,
+      extra: fromExtraProperties(record.get('extraQuantities'), record.get('extraUnits')),
+      note: record.get('note') || null,
+      checked: record.get('checked'),
+      recipes: record.get('recipes')
+    };
+  });
+};
+
+// Add items to a user's shopping list, creating the list on first use.
+// Adding an ingredient that is already listed adds to its quantity and
+// unchecks it again.
+export const addShoppingListItems = async (session: Session, userId: string, items: ShoppingListItemInput[]): Promise<void> => {
+  await session.run(
+    `MATCH (u:User {id: $userId})
+     MERGE (u)-[:HAS_SHOPPING_LIST]->(l:ShoppingList)
+     ON CREATE SET l.createdAt = datetime()`,
+    { userId }
+  );
+
+  for (const item of items) {
+    const name = await resolveIngredientName(session, item.name);
+    const existingResult = await session.run(
+      `MATCH (:User {id: $userId})-[:HAS_SHOPPING_LIST]->(:ShoppingList)-[s:INCLUDES]->(:Ingredient {name: $name})
+       RETURN s.quantity as quantity, s.unit as unit, s.extraQuantities as extraQuantities, s.extraUnits as extraUnits`,
+      { userId, name }
+    );
+    const existing = existingResult.records[0];
+    const merged = existing
+      ? addQuantities(
+        {
+          quantity: existing.get('quantity') === null ? null : toNumber(existing.get('quantity')),
+          unit: existing.get('unit') || null,
+          extra: fromExtraProperties(existing.get('extraQuantities'), existing.get('extraUnits'))
+        },
+        { quantity: item.quantity, unit: item.unit, extra: item.extra },
+        name
+      )
+      : { quantity: item.quantity, unit: item.unit, extra: item.extra || [] };
+
+    await session.run(
+      `MATCH (u:User {id: $userId})-[:HAS_SHOPPING_LIST]->(l:ShoppingList)
+       MATCH (i:Ingredient {name: $name})
+       MERGE (l)-[s:INCLUDES]->(i)
+       ON CREATE SET s.addedAt = datetime(), s.recipes = []
+       SET s.quantity = $quantity,
+           s.unit = $unit,
+           s.extraQuantities = $extraQuantities,
+           s.extraUnits = $extraUnits,
+           s.note = coalesce($note, s.note),
+           s.checked = false,
+           s.recipes = CASE WHEN $recipeId IS NULL OR $recipeId IN s.recipes THEN s.recipes
+                            ELSE s.recipes + $recipeId END`,
+      {
+        userId,
+        name,
+        quantity: merged.quantity,
+        unit: merged.unit,
+        ...toExtraProperties(merged.extra),
+        note: item.note,
+        recipeId: item.recipeId ?? null
+      }
+    );
+  }
+};
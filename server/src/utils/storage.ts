@@ -0,0 +1,28 @@
+// Where a pantry item is kept
+export const STORAGE_LOCATIONS = ['fridge', 'freezer', 'cupboard'] as const;
+
+export type StorageLocation = typeof STORAGE_LOCATIONS[number];
+
+export const isStorageLocation = (value: unknown): value is StorageLocation => {
+  return typeof value === 'string' && (STORAGE_LOCATIONS as readonly string[]).includes(value);
+};
+
+// Days an item keeps in the freezer, by ingredient category.
+// Categories not listed fall back to FREEZER_SHELF_LIFE_DAYS (or 90 days).
+const freezerShelfLifeByCategory: Record<string, number> = {
+  'protein': 120,
+  'dairy': 90,
+  'vegetable': 240,
+  'fruit': 240,
+  'grain': 180,
+};
+
+export const getFreezerShelfLifeDays = (category?: string | null): number => {
+  const key = (category || '').toLowerCase().trim();
+  if (freezerShelfLifeByCategory[key] !== undefined) {
+    return freezerShelfLifeByCategory[key];
+  }
+
+  const fallback = Number(process.env.FREEZER_SHELF_LIFE_DAYS);
+  return isNaN(fallback) || fallback <= 0 ? 90 : fallback;
+};
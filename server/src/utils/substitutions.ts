@@ -0,0 +1,142 @@
+import { Session } from 'neo4j-driver';
+import { INGREDIENT_SUBSTITUTIONS } from '../data/substitutions.js';
+import { resolveIngredientName } from './ingredientNames.js';
+import { fetchAncestors } from './ingredientHierarchy.js';
+import { isIngredientAllowed } from './dietaryFilters.js';
+import { findAllergenMatches } from './allergens.js';
+import { CustomDiet, fetchIngredientCategories, findCustomDietReasons } from './customDiets.js';
+import { toNumber } from './neo4jHelpers.js';
+
+// (substitute)-[:SUBSTITUTES_FOR {ratio, notes}]->(ingredient): use `ratio`
+// times the recipe's amount of the substitute instead
+export interface IngredientSubstitute {
+  name: string;
+  ratio: number;
+  notes: string | null;
+}
+
+// A recipe ingredient the pantry covers through a substitute
+export interface Substitution {
+  ingredient: string;
+  substitute: string;
+  pantryItem: string;
+  ratio: number;
+  notes: string | null;
+}
+
+// Substitutes recorded for an ingredient, best ratio first
+export const fetchSubstitutes = async (session: Session, name: string): Promise<IngredientSubstitute[]> => {
+  const result = await session.run(
+    `MATCH (s:Ingredient)-[sub:SUBSTITUTES_FOR]->(:Ingredient {name: $name})
+     RETURN s.name as name, sub.ratio as ratio, sub.notes as notes
+     ORDER BY abs(1 - sub.ratio), name`,
+    { name }
+  );
+
+  return result.records.map(record => ({
+    name: record.get('name'),
+    ratio: toNumber(record.get('ratio')),
+    notes: record.get('notes') || null
+  }));
+};
+
+// Names of the custom diets an ingredient breaks. Only forbidden ingredients
+// and categories apply to a single ingredient, not a diet's required tags.
+export const findBrokenCustomDiets = (
+  name: string,
+  diets: CustomDiet[],
+  ancestors: Map<string, string[]>,
+  categories: Map<string, string[]>
+): string[] => findCustomDietReasons({ allIngredients: [name], dietaryTags: [] }, diets, ancestors, categories)
+  .filter(reason => reason.ingredient !== null)
+  .map(reason => reason.preference as string);
+
+// Ingredients the pantry doesn't hold but can stand in for. `coveredBy` maps
+// every ingredient the pantry covers to the pantry item covering it. Substitutes
+// that break the user's diets (built-in or custom) or allergies are never used.
+export const findSubstitutions = async (
+  session: Session,
+  coveredBy: Map<string, string>,
+  preferences: string[],
+  allergies: string[],
+  customDiets: CustomDiet[] = []
+): Promise<Map<string, Substitution>> => {
+  const result = await session.run(
+    `MATCH (s:Ingredient)-[sub:SUBSTITUTES_FOR]->(o:Ingredient)
+     WHERE s.name IN $available AND NOT o.name IN $available
+     RETURN o.name as ingredient, s.name as substitute, sub.ratio as ratio, sub.notes as notes
+     ORDER BY ingredient, abs(1 - sub.ratio), substitute`,
+    { available: [...coveredBy.keys()] }
+  );
+
+  const candidates = result.records.map(record => {
+    const substitute: string = record.get('substitute');
+    return {
+      ingredient: record.get('ingredient') as string,
+      substitute,
+      pantryItem: coveredBy.get(substitute)!,
+      ratio: toNumber(record.get('ratio')),
+      notes: record.get('notes') || null
+    };
+  });
+
+  const candidateNames = candidates.flatMap(candidate => [candidate.substitute, candidate.pantryItem]);
+  const ancestors = preferences.length > 0 || customDiets.length > 0
+    ? await fetchAncestors(session, candidateNames, true)
+    : new Map<string, string[]>();
+  const categories = customDiets.length > 0
+    ? await fetchIngredientCategories(session, candidateNames)
+    : new Map<string, string[]>();
+  const allergens = await findAllergenMatches(session, candidateNames, allergies);
+
+  const substitutions = new Map<string, Substitution>();
+  for (const candidate of candidates) {
+    if (substitutions.has(candidate.ingredient)) continue;
+    const allowed = [candidate.substitute, candidate.pantryItem]
+      .every(name => isIngredientAllowed(name, preferences, ancestors, allergens)
+        && findBrokenCustomDiets(name, customDiets, ancestors, categories).length === 0);
+    if (allowed) {
+      substitutions.set(candidate.ingredient, candidate);
+    }
+  }
+  return substitutions;
+};
+
+// Record that `substitute` can replace `ingredient`, creating either if needed.
+// Returns null when both names resolve to the same ingredient.
+export const addSubstitute = async (
+  session: Session,
+  ingredient: string,
+  substitute: string,
+  ratio: number,
+  notes: string | null
+): Promise<{ ingredient: string; substitute: string } | null> => {
+  const ingredientName = await resolveIngredientName(session, ingredient);
+  const substituteName = await resolveIngredientName(session, substitute);
+  if (ingredientName === substituteName) return null;
+
+  await session.run(
+    `MATCH (o:Ingredient {name: $ingredientName}), (s:Ingredient {name: $substituteName})
+     MERGE (s)-[sub:SUBSTITUTES_FOR]->(o)
+     SET sub.ratio = $ratio, sub.notes = $notes`,
+    { ingredientName, substituteName, ratio, notes }
+  );
+  return { ingredient: ingredientName, substitute: substituteName };
+};
+
+// Load the built-in substitutions. Existing links keep their ratio and notes,
+// so edits made through the API survive a restart.
+export const seedSubstitutions = async (session: Session): Promise<void> => {
+  for (const { ingredient, substitute, ratio, notes } of INGREDIENT_SUBSTITUTIONS) {
+    const ingredientName = await resolveIngredientName(session, ingredient);
+    const substituteName = await resolveIngredientName(session, substitute);
+    if (ingredientName === substituteName) continue;
+
+    await session.run(
+      `MATCH (o:Ingredient {name: $ingredientName}), (s:Ingredient {name: $substituteName})
+       MERGE (s)-[sub:SUBSTITUTES_FOR]->(o)
+       ON CREATE SET sub.ratio = $ratio, sub.notes = $notes`,
+      { ingredientName, substituteName, ratio, notes: notes || null }
+    );
+  }
+};
@@ -0,0 +1,263 @@
+import { formatQuantity, parseAmount } from './quantities.js';
+import { toNumber } from './neo4jHelpers.js';
+
+export type CanonicalUnit = 'g' | 'kg' | 'oz' | 'lb' | 'ml' | 'l' | 'tsp' | 'tbsp' | 'cup' | 'piece';
+export type Dimension = 'mass' | 'volume' | 'count';
+export type UnitSystem = 'metric' | 'imperial';
+
+export const UNIT_SYSTEMS: UnitSystem[] = ['metric', 'imperial'];
+
+export const isUnitSystem = (value: unknown): value is UnitSystem => {
+  return typeof value === 'string' && (UNIT_SYSTEMS as string[]).includes(value);
+};
+
+// Spellings seen in seed data, TheMealDB measures and user input
+const unitAliases: Record<string, CanonicalUnit> = {
+  'g': 'g', 'gr': 'g', 'gram': 'g', 'grams': 'g', 'gramme': 'g', 'grammes': 'g',
+  'kg': 'kg', 'kgs': 'kg', 'kilo': 'kg', 'kilos': 'kg', 'kilogram': 'kg', 'kilograms': 'kg',
+  'oz': 'oz', 'ounce': 'oz', 'ounces': 'oz',
+  'lb': 'lb', 'lbs': 'lb', 'pound': 'lb', 'pounds': 'lb',
+  'ml': 'ml', 'millilitre': 'ml', 'millilitres': 'ml', 'milliliter': 'ml', 'milliliters': 'ml',
+  'l': 'l', 'litre': 'l', 'litres': 'l', 'liter': 'l', 'liters': 'l',
+  'tsp': 'tsp', 'tsps': 'tsp', 'teaspoon': 'tsp', 'teaspoons': 'tsp',
+  'tbsp': 'tbsp', 'tbsps': 'tbsp', 'tbs': 'tbsp', 'tablespoon': 'tbsp', 'tablespoons': 'tbsp',
+  'cup': 'cup', 'cups': 'cup',
+  'piece': 'piece', 'pieces': 'piece', 'pc': 'piece', 'pcs': 'piece', 'whole': 'piece', 'each': 'piece'
+};
+
+// Size of each unit in its dimension's base unit (g, ml or piece)
+const unitDefinitions: Record<CanonicalUnit, { dimension: Dimension; factor: number }> = {
+  g: { dimension: 'mass', factor: 1 },
+  kg: { dimension: 'mass', factor: 1000 },
+  oz: { dimension: 'mass', factor: 28.3495 },
+  lb: { dimension: 'mass', factor: 453.592 },
+  ml: { dimension: 'volume', factor: 1 },
+  l: { dimension: 'volume', factor: 1000 },
+  tsp: { dimension: 'volume', factor: 4.92892 },
+  tbsp: { dimension: 'volume', factor: 14.7868 },
+  cup: { dimension: 'volume', factor: 236.588 },
+  piece: { dimension: 'count', factor: 1 }
+};
+
+// Grams per millilitre, used to convert between volume and weight
+const ingredientDensities: Record<string, number> = {
+  'water': 1,
+  'milk': 1.03,
+  'cream': 1.01,
+  'olive oil': 0.91,
+  'vegetable oil': 0.92,
+  'oil': 0.92,
+  'butter': 0.96,
+  'honey': 1.42,
+  'flour': 0.53,
+  'plain flour': 0.53,
+  'sugar': 0.85,
+  'brown sugar': 0.83,
+  'salt': 1.2,
+  'rice': 0.85,
+  'quinoa': 0.72,
+  'oats': 0.41,
+  'cheese': 0.45,
+  'spinach': 0.13,
+  'broccoli': 0.37,
+  'yogurt': 1.03
+};
+
+export const normalizeUnit = (unit: string | null | undefined): CanonicalUnit | null => {
+  if (!unit) return null;
+  const key = unit.toLowerCase().trim().replace(/\.$/, '');
+  return unitAliases[key] ?? null;
+};
+
+export const getDensity = (ingredientName?: string | null): number | null => {
+  if (!ingredientName) return null;
+  return ingredientDensities[ingredientName.toLowerCase().trim()] ?? null;
+};
+
+// Convert a value between two units. Volume and weight can only be converted
+// when the ingredient's density is known. Returns null when not convertible.
+export const convertQuantity = (
+  value: number,
+  from: string,
+  to: string,
+  ingredientName?: string | null
+): number | null => {
+  const fromUnit = normalizeUnit(from);
+  const toUnit = normalizeUnit(to);
+  if (!fromUnit || !toUnit) return null;
+
+  const source = unitDefinitions[fromUnit];
+  const target = unitDefinitions[toUnit];
+  let base = value * source.factor;
+
+  if (source.dimension !== target.dimension) {
+    const density = getDensity(ingredientName);
+    if (density === null) return null;
+    if (source.dimension === 'volume' && target.dimension === 'mass') {
+      base = base * density;
+    } else if (source.dimension === 'mass' && target.dimension === 'volume') {
+      base = base / density;
+    } else {
+      return null;
+    }
+  }
+
+  return base / target.factor;
+};
+
+// Express a quantity in its base unit (g, ml or piece) so amounts written in
+// different units can be compared. Volumes are turned into grams when the
+// ingredient's density is known, so "1 cup flour" compares with "500 g flour".
+export const toComparableQuantity = (
+  value: number,
+  unit: string | null | undefined,
+  ingredientName?: string | null
+): { value: number; dimension: Dimension } | null => {
+  const canonical = normalizeUnit(unit) ?? (unit ? null : 'piece');
+  if (!canonical) return null;
+
+  const definition = unitDefinitions[canonical];
+  const base = value * definition.factor;
+  const density = getDensity(ingredientName);
+
+  if (definition.dimension === 'volume' && density !== null) {
+    return { value: base * density, dimension: 'mass' };
+  }
+  return { value: base, dimension: definition.dimension };
+};
+
+// Pick the unit a quantity reads best in for a unit system. Spoon measures are
+// kept as-is in metric since metric kitchens use them too.
+const pickDisplayUnit = (baseValue: number, dimension: Dimension, fromUnit: CanonicalUnit, system: UnitSystem): CanonicalUnit => {
+  if (dimension === 'count') return 'piece';
+
+  if (system === 'metric') {
+    if (dimension === 'mass') return baseValue >= 1000 ? 'kg' : 'g';
+    if (fromUnit === 'tsp' || fromUnit === 'tbsp') return fromUnit;
+    return baseValue >= 1000 ? 'l' : 'ml';
+  }
+
+  if (dimension === 'mass') return baseValue >= unitDefinitions.lb.factor ? 'lb' : 'oz';
+  if (baseValue < unitDefinitions.tbsp.factor) return 'tsp';
+  if (baseValue < unitDefinitions.cup.factor / 4) return 'tbsp';
+  return 'cup';
+};
+
+// Convert a numeric quantity into the preferred unit system.
+// Returns null when the unit is unknown.
+export const convertToSystem = (
+  value: number,
+  unit: string | null | undefined,
+  system: UnitSystem
+): { value: number; unit: CanonicalUnit } | null => {
+  const canonical = normalizeUnit(unit);
+  if (!canonical) return null;
+
+  const { dimension, factor } = unitDefinitions[canonical];
+  const displayUnit = pickDisplayUnit(value * factor, dimension, canonical, system);
+  const converted = value * factor / unitDefinitions[displayUnit].factor;
+  return { value: Math.round(converted * 100) / 100, unit: displayUnit };
+};
+
+// Convert a recipe amount string (e.g. "500g", "1/2" with unit "cup") into the
+// preferred unit system. Amounts or units that can't be parsed are left alone.
+export const convertAmountToSystem = (
+  amount: string,
+  unit: string,
+  system: UnitSystem
+): { amount: string; unit: string } => {
+  const parsed = parseAmount(amount);
+  const sourceUnit = parsed?.inlineUnit || unit;
+  if (!parsed || !normalizeUnit(sourceUnit)) {
+    return { amount, unit };
+  }
+
+  const low = convertToSystem(parsed.value, sourceUnit, system);
+  if (!low) return { amount, unit };
+
+  // Format from the exact values: convertToSystem's rounding turns 0.1 g into 0 oz,
+  // while formatQuantity never shows a non-zero amount as nothing
+  const ratio = unitDefinitions[normalizeUnit(sourceUnit) as CanonicalUnit].factor / unitDefinitions[low.unit].factor;
+  let converted = formatQuantity(parsed.value * ratio, low.unit);
+  if (parsed.maxValue !== null) {
+    converted += `-${formatQuantity(parsed.maxValue * ratio, low.unit)}`;
+  }
+  return { amount: converted, unit: low.unit };
+};
+
+export interface Quantity {
+  quantity: number | null;
+  unit: string | null;
+}
+
+// A quantity plus amounts in units that can't be converted into its unit,
+// e.g. 2 cups plus 200 g of the same item
+export interface CombinedQuantity extends Quantity {
+  extra: Quantity[];
+}
+
+const roundQuantity = (value: number) => Math.round(value * 100) / 100;
+
+// Add a single amount into a quantity; null when the units can't be converted
+const addInto = (target: Quantity, added: Quantity, ingredientName?: string | null): Quantity | null => {
+  if (added.quantity === null) return { quantity: target.quantity, unit: target.unit ?? added.unit };
+  if (target.quantity === null) return { quantity: added.quantity, unit: added.unit ?? target.unit };
+
+  const targetUnit = target.unit || '';
+  const addedUnit = added.unit || '';
+
+  if (targetUnit.toLowerCase() === addedUnit.toLowerCase()) {
+    return { quantity: roundQuantity(target.quantity + added.quantity), unit: target.unit };
+  }
+
+  // A bare number is a count of pieces
+  const converted = convertQuantity(added.quantity, addedUnit || 'piece', targetUnit || 'piece', ingredientName);
+  if (converted === null) return null;
+  return { quantity: roundQuantity(target.quantity + converted), unit: target.unit };
+};
+
+// Add one quantity to another, e.g. when the same ingredient is put on the
+// shopping list twice or bought items are merged into the pantry. The result
+// keeps the existing unit. Amounts in units that can't be converted into it
+// are kept as extra entries rather than dropped.
+export const addQuantities = (
+  existing: Quantity & { extra?: Quantity[] },
+  added: Quantity & { extra?: Quantity[] },
+  ingredientName?: string | null
+): CombinedQuantity => {
+  let main: Quantity = { quantity: existing.quantity, unit: existing.unit };
+  const extra = [...(existing.extra || [])];
+
+  for (const part of [{ quantity: added.quantity, unit: added.unit }, ...(added.extra || [])]) {
+    const combined = addInto(main, part, ingredientName);
+    if (combined) {
+      main = combined;
+      continue;
+    }
+    const index = extra.findIndex(entry => addInto(entry, part, ingredientName) !== null);
+    if (index >= 0) {
+      extra[index] = addInto(extra[index], part, ingredientName)!;
+    } else {
+      extra.push(part);
+    }
+  }
+  return { ...main, extra };
+};
+
+// Extra amounts are stored on relationships as the parallel lists
+// extraQuantities and extraUnits ('' for no unit)
+export const toExtraProperties = (extra: Quantity[]): { extraQuantities: number[]; extraUnits: string[] } => {
+  const stored = extra.filter(entry => entry.quantity !== null);
+  return {
+    extraQuantities: stored.map(entry => entry.quantity as number),
+    extraUnits: stored.map(entry => entry.unit || '')
+  };
+};
+
+export const fromExtraProperties = (quantities: unknown, units: unknown): Quantity[] => {
+  if (!Array.isArray(quantities)) return [];
+  return quantities.map((quantity, index) => ({
+    quantity: toNumber(quantity),
+    unit: (Array.isArray(units) && units[index]) || null
+  }));
+};